@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/api-auth'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { getLanguage } from '@/lib/languages/registry'
+import { lemmatize, mergeForms } from '@/lib/languages/lemmatizers'
+import { parseSourceSentences, saveContexts, type SourceSentence } from '@/lib/word-contexts'
+import { findLibraryWord, indexLibraryWords, loadLibraryWords, recordForms, type LibraryWord } from '@/lib/word-forms'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Saves a whole document's words: up to 10 at once, then one a minute, like the imports it follows
+const RATE_LIMIT: RateLimitPolicy = { name: 'confirm-words', algorithm: 'token-bucket', limit: 10, windowMs: 600000 }
+
+export const POST = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const { words, forms, contexts, title, language: languageCode } = await request.json()
+    const language = getLanguage(languageCode)
+    
+    if (!words || !Array.isArray(words) || words.length === 0) {
+      return NextResponse.json(
+        { error: 'No words provided' },
+        { status: 400 }
+      )
+    }
+
+    // Forms seen for each word in the document. Words edited in the preview are
+    // lemmatized again and keep what they were edited from as a form.
+    const seenForms = (forms && typeof forms === 'object' ? forms : {}) as Record<string, unknown>
+    const seenContexts = (contexts && typeof contexts === 'object' ? contexts : {}) as Record<string, unknown>
+    const lemmas = new Map<string, string[]>()
+    const sentences = new Map<string, SourceSentence[]>()
+    for (const word of words) {
+      if (typeof word !== 'string' || !word.trim()) continue
+      const lemma = lemmatize(word, language)
+      const seen = Array.isArray(seenForms[word]) ? seenForms[word].filter(f => typeof f === 'string') : []
+      lemmas.set(lemma, [...(lemmas.get(lemma) || []), word.trim().toLowerCase(), ...seen])
+      sentences.set(lemma, [...(sentences.get(lemma) || []), ...parseSourceSentences(seenContexts[word])])
+    }
+    const sourceTitle = typeof title === 'string' && title.trim() ? title.trim().slice(0, 200) : null
+
+    // Check which words are already in the user's library, including other forms of them
+    const library = indexLibraryWords(await loadLibraryWords(auth.supabase, auth.user.id), language)
+    const existing = new Map<LibraryWord, string[]>()
+    const wordIds = new Map<string, number>() // Lemma → library word it belongs to
+    const newWords: string[] = []
+    for (const [lemma, seen] of lemmas) {
+      const match = findLibraryWord(library, lemma, seen)
+      if (match) {
+        existing.set(match, [...(existing.get(match) || []), ...seen])
+        wordIds.set(lemma, match.id)
+      } else {
+        newWords.push(lemma)
+      }
+    }
+    await recordForms(auth.supabase, existing)
+
+    // Keeps the sentences every word was met in, for new and existing words alike
+    const storeContexts = async () => {
+      const byId = new Map<number, SourceSentence[]>()
+      for (const [lemma, id] of wordIds) {
+        byId.set(id, [...(byId.get(id) || []), ...(sentences.get(lemma) || [])])
+      }
+      try {
+        await saveContexts(auth.supabase, byId, sourceTitle)
+      } catch (contextsError) {
+        console.error('Error saving source sentences:', contextsError instanceof Error ? contextsError.message : contextsError)
+      }
+    }
+    
+    console.log(`📥 Confirming document import: ${words.length} total, ${newWords.length} new, ${words.length - newWords.length} duplicates`)
+
+    if (newWords.length === 0) {
+      await storeContexts()
+      return NextResponse.json({
+        message: 'All words already exist in your library',
+        count: 0,
+        words: []
+      })
+    }
+
+    // Prepare words for insertion
+    const wordsToInsert = newWords.map(word => ({
+      word,
+      forms: mergeForms(word, [], lemmas.get(word) || []) || [],
+      lang_id: language.id,
+      user_id: auth.user.id
+    }))
+
+    // Insert words into database
+    const { data: insertedData, error: insertError } = await auth.supabase
+      .from('vocab_library')
+      .insert(wordsToInsert)
+      .select()
+
+    if (insertError) {
+      console.error('Error inserting words:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to insert words into database', details: insertError.message },
+        { status: 500 }
+      )
+    }
+
+    for (const row of insertedData || []) wordIds.set(row.word, row.id)
+    await storeContexts()
+
+    return NextResponse.json({
+      message: 'Words added successfully',
+      count: insertedData?.length || 0,
+      words: insertedData || [],
+      skipped: words.length - newWords.length
+    })
+
+  } catch (error) {
+    console.error('Error confirming document words:', error)
+    return NextResponse.json(
+      { 
+        error: 'Failed to add words',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -1,360 +1,251 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { scrapeCambridgeDictionary, formatCambridgeData } from '@/lib/cambridge-scraper'
-import { scrapeOxfordDictionary, formatOxfordData } from '@/lib/oxford-scraper'
-import { scrapeUrbanDictionary } from '@/lib/urban-dictionary-scraper'
-import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limiter'
-
-// Helper function to truncate definition to max 20 words
-function truncateDefinition(text: string, maxWords: number = 20): string {
-  if (!text) return text
-  const words = text.trim().split(/\s+/)
-  if (words.length <= maxWords) return text
-  return words.slice(0, maxWords).join(' ') + '...'
+import { NextResponse } from 'next/server'
+import { lookupWord, describeProviders, cacheHeaders, type CacheStats } from '@/lib/dictionary/lookup'
+import { enrichBatch, type BatchEvent, type ScrapedWord } from '@/lib/dictionary/enrich'
+import { getLLMConfig } from '@/lib/llm/config'
+import type { LLMConfig } from '@/lib/llm/types'
+import type { DictionarySource } from '@/lib/settings-context'
+import { isDictionarySource, resolveProviderOrder } from '@/lib/dictionary/registry'
+import { getLanguage } from '@/lib/languages/registry'
+import type { Language } from '@/lib/languages/types'
+import { parseMaxDefinitions } from '@/lib/senses'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+
+// In streaming mode, words are sent to the AI in groups this size so results arrive early
+const STREAM_ENRICH_GROUP = 10
+
+// Words looked up per request; each one may scrape several dictionaries
+const MAX_WORDS = 100
+
+/**
+ * Streams per-word progress as Server-Sent Events
+ * Each word produces a `scraped` event followed by `enriched`, or a single `failed` event.
+ */
+function streamBatch(
+  words: string[],
+  preferred: DictionarySource,
+  language: Language,
+  llm: LLMConfig,
+  maxSenses: number | undefined,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BatchEvent) => {
+        if (cancelled) return
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+      }
+
+      const cache: CacheStats = { hits: 0, misses: 0 }
+      let enriched = 0
+      let failed = 0
+      let pending: ScrapedWord[] = []
+
+      // Sends a group of scraped words through the AI and reports each result
+      const flush = async () => {
+        if (pending.length === 0) return
+        const group = pending
+        pending = []
+
+        const { data, status } = await enrichBatch(group, llm, language, maxSenses)
+        const remaining = new Map(group.map(w => [w.word.toLowerCase(), w.word]))
+        for (const result of data) {
+          const word = remaining.get(result.word.toLowerCase())
+          if (!word) continue
+          remaining.delete(result.word.toLowerCase())
+          send({ type: 'enriched', word, data: { ...result, word }, status })
+          enriched++
+        }
+        for (const word of remaining.values()) {
+          send({ type: 'failed', word, reason: 'No AI result' })
+          failed++
+        }
+      }
+
+      try {
+        send({ type: 'start', total: words.length })
+
+        for (const word of words) {
+          // Stop working if the client went away
+          if (cancelled || signal.aborted) return
+
+          try {
+            const { entry, lemma, unavailable, cache: wordCache } = await lookupWord(word, { preferred, language: language.code })
+            cache.hits += wordCache.hits
+            cache.misses += wordCache.misses
+
+            if (!entry) {
+              const reason = unavailable.length > 0
+                ? `${describeProviders(unavailable)} unavailable`
+                : 'Not found in any dictionary'
+              send({ type: 'failed', word, reason })
+              failed++
+              continue
+            }
+
+            send({ type: 'scraped', word, lemma, source: entry.source })
+            pending.push({ word, lemma, ...entry })
+          } catch (error) {
+            console.log(`  ❌ Error scraping ${word}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+            send({ type: 'failed', word, reason: 'Scraping failed' })
+            failed++
+          }
+
+          if (pending.length >= STREAM_ENRICH_GROUP) {
+            await flush()
+          }
+        }
+
+        await flush()
+        send({ type: 'done', total: words.length, enriched, failed, cache })
+      } catch (error) {
+        console.error('❌ Batch dictionary stream error:', error)
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Failed to fetch dictionary data' })
+      } finally {
+        if (!cancelled) controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering so events arrive immediately
+    }
+  })
 }
 
-export async function POST(request: NextRequest) {
+// 10 batch requests per user in any minute (stricter for batch)
+const RATE_LIMIT: RateLimitPolicy = { name: 'dictionary-batch', algorithm: 'sliding-window', limit: 10, windowMs: 60000 }
+
+export const POST = withAuth(async (request, auth) => {
   try {
-    // Rate limiting: 10 batch requests per minute per IP (stricter for batch)
-    const clientId = getClientIdentifier(request)
-    const rateLimit = checkRateLimit(clientId + ':batch', { maxRequests: 10, windowMs: 60000 })
-    
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
     if (!rateLimit.allowed) {
-      const resetIn = Math.ceil((rateLimit.resetTime - Date.now()) / 1000)
-      return NextResponse.json(
-        { error: `Rate limit exceeded for batch requests. Try again in ${resetIn} seconds.` },
-        { 
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': rateLimit.limit.toString(),
-            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-            'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-            'Retry-After': resetIn.toString()
-          }
-        }
-      )
+      return rateLimitResponse(rateLimit, 'Rate limit exceeded for batch requests.')
     }
     
-    const { words } = await request.json()
+    const { words, dictionary, maxDefinitions, stream, language: languageCode } = await request.json()
     
     if (!words || !Array.isArray(words) || words.length === 0) {
       return NextResponse.json({ error: 'Words array is required' }, { status: 400 })
     }
 
+    if (words.length > MAX_WORDS) {
+      return NextResponse.json({ error: `Maximum ${MAX_WORDS} words per request` }, { status: 400 })
+    }
+
+    if (!words.every(word => typeof word === 'string' && word.trim())) {
+      return NextResponse.json({ error: 'Words must be non-empty strings' }, { status: 400 })
+    }
+
+    const preferred = isDictionarySource(dictionary) ? dictionary : 'auto'
+    const language = getLanguage(languageCode)
+    const maxSenses = parseMaxDefinitions(maxDefinitions)
+
+    // Streaming mode: { stream: true } in the body or an Accept: text/event-stream header
+    if (stream === true || request.headers.get('accept')?.includes('text/event-stream')) {
+      const llm = getLLMConfig()
+      if ('error' in llm) {
+        return NextResponse.json({ error: llm.error }, { status: 500 })
+      }
+      console.log(`🚀 Streaming batch dictionary fetch for ${words.length} words (preference: ${preferred})`)
+      return streamBatch(words, preferred, language, llm.config, maxSenses, request.signal)
+    }
+
     console.log(`\n${'='.repeat(70)}`)
-    console.log(`🚀 Starting batch dictionary fetch for ${words.length} words`)
+    console.log(`🚀 Starting batch dictionary fetch for ${words.length} words (preference: ${preferred})`)
     console.log('='.repeat(70))
 
-    // Step 1: Scrape dictionaries in priority order for all words
-    const scrapedResults = []
-    for (const word of words) {
-      console.log(`\n📖 [${scrapedResults.length + 1}/${words.length}] Searching: ${word}`)
+    // Step 1: Scrape all dictionaries for each word and merge the best definitions
+    const successfulScrapes: ScrapedWord[] = []
+    const failedResults: { word: string; error: string }[] = []
+    const cache: CacheStats = { hits: 0, misses: 0 }
+    let unavailableCount = 0
+    for (const [index, word] of words.entries()) {
+      console.log(`\n📖 [${index + 1}/${words.length}] Searching: ${word}`)
       
       try {
-        let dictionaryData: any = null
-        let source = ''
-        
-        // 1. Try Cambridge first (highest priority)
-        console.log(`   Trying Cambridge Dictionary...`)
-        const cambridgeData = await scrapeCambridgeDictionary(word)
-        if (cambridgeData.found && cambridgeData.definition) {
-          console.log(`   ✅ Found in Cambridge Dictionary`)
-          dictionaryData = cambridgeData
-          source = 'Cambridge Dictionary'
-        }
-        
-        // 2. If Cambridge fails, try Oxford
-        if (!dictionaryData) {
-          console.log(`   Trying Oxford Dictionary...`)
-          const oxfordData = await scrapeOxfordDictionary(word)
-          if (oxfordData.found && oxfordData.definition) {
-            console.log(`   ✅ Found in Oxford Dictionary`)
-            dictionaryData = oxfordData
-            source = 'Oxford Dictionary'
-          }
-        }
+        const { entry, lemma, unavailable, cache: wordCache } = await lookupWord(word, { preferred, language: language.code })
+        cache.hits += wordCache.hits
+        cache.misses += wordCache.misses
         
-        // 3. If both fail, try Urban Dictionary as last resort
-        if (!dictionaryData) {
-          console.log(`   Trying Urban Dictionary...`)
-          const urbanData = await scrapeUrbanDictionary(word)
-          if (urbanData.found && urbanData.definition) {
-            console.log(`   ✅ Found in Urban Dictionary`)
-            dictionaryData = urbanData
-            source = 'Urban Dictionary'
-          }
+        // Not found, unless a dictionary that could not be asked might have it
+        if (!entry && unavailable.length > 0) {
+          console.log(`  ⚠️ Not found, ${unavailable.join(', ')} unavailable`)
+          failedResults.push({ word, error: 'Source unavailable' })
+          unavailableCount++
+          continue
         }
-        
-        // Check if we found the word in any dictionary
-        if (!dictionaryData) {
+        if (!entry) {
           console.log(`  ❌ Not found in any dictionary`)
-          scrapedResults.push({ word, found: false, error: 'Not found' })
+          failedResults.push({ word, error: 'Not found' })
           continue
         }
         
-        // Add the source to the data
-        const finalData = {
-          word,
-          partOfSpeech: (dictionaryData as any).partOfSpeech || (source === 'Urban Dictionary' ? 'informal' : ''),
-          cefrLevel: (dictionaryData as any).cefrLevel,
-          definition: dictionaryData.definition,
-          examples: dictionaryData.examples,
-          pronunciation: (dictionaryData as any).pronunciation,
-          found: true,
-          source,
-        }
-        
-        console.log(`     ${finalData.partOfSpeech || 'unknown'} - ${finalData.definition?.substring(0, 50)}...`)
-        scrapedResults.push(finalData)
+        console.log(`     ${entry.partOfSpeech || 'unknown'} - ${entry.definition.substring(0, 50)}...`)
+        successfulScrapes.push({ word, lemma, ...entry })
         
       } catch (error) {
         console.log(`  ❌ Error scraping: ${error instanceof Error ? error.message : 'Unknown error'}`)
-        scrapedResults.push({ word, found: false, error: 'Scraping failed' })
+        failedResults.push({ word, error: 'Scraping failed' })
       }
-      
-      // Small delay to be polite to dictionary servers
-      await new Promise(resolve => setTimeout(resolve, 400))
     }
 
-    const successfulScrapes = scrapedResults.filter(r => r.found)
-    console.log(`\n📊 Scraped ${successfulScrapes.length}/${words.length} words successfully`)
+    console.log(`\n📊 Scraped ${successfulScrapes.length}/${words.length} words successfully (${cache.hits} cached, ${cache.misses} scraped lookups)`)
+    const sourceNames = [...new Set(successfulScrapes.map(r => r.source))].join(', ')
 
-    if (successfulScrapes.length === 0) {
+    if (successfulScrapes.length === 0 && unavailableCount > 0) {
       return NextResponse.json({
-        error: 'No words found in any dictionary sources (Cambridge, Oxford, Urban Dictionary)',
-        results: scrapedResults.map((r: any) => ({ word: r.word, error: r.error || 'Not found' }))
-      }, { status: 404 })
-    }
-
-    // Step 2: Use AI to process all scraped data in one batch
-    const useHuggingFace = process.env.USE_HUGGINGFACE === 'true'
-    const useLMStudio = process.env.USE_LM_STUDIO === 'true'
-    
-    let apiUrl: string
-    let apiKey: string
-    let model: string
-    
-    if (useHuggingFace) {
-      // Hugging Face Inference API
-      model = process.env.HUGGINGFACE_MODEL || 'meta-llama/Llama-3.2-3B-Instruct'
-      apiUrl = `https://api-inference.huggingface.co/models/${model}`
-      apiKey = process.env.HUGGINGFACE_API_KEY || ''
-      if (!apiKey) {
-        return NextResponse.json({ 
-          error: 'Hugging Face API key not configured. Please add HUGGINGFACE_API_KEY to your .env.local file' 
-        }, { status: 500 })
-      }
-    } else if (useLMStudio) {
-      // LM Studio (local)
-      apiUrl = process.env.LM_STUDIO_URL || 'http://localhost:1234/v1/chat/completions'
-      apiKey = 'lm-studio'
-      model = process.env.LM_STUDIO_MODEL || 'local-model'
-    } else {
-      // OpenAI
-      apiUrl = 'https://api.openai.com/v1/chat/completions'
-      apiKey = process.env.OPENAI_API_KEY || ''
-      model = 'gpt-4o-mini'
-      if (!apiKey) {
-        return NextResponse.json({ 
-          error: 'OpenAI API key not configured. Please add OPENAI_API_KEY to your .env.local file or set USE_LM_STUDIO=true or USE_HUGGINGFACE=true' 
-        }, { status: 500 })
-      }
-    }
-
-    // Prepare batch data for AI - handle both Cambridge and Oxford formats
-    const batchScrapedData = successfulScrapes.map((data, index) => {
-      const source = (data as any).source || 'Cambridge'
-      const formattedData = source.includes('Oxford') && !source.includes('Cambridge')
-        ? formatOxfordData(data)
-        : formatCambridgeData(data)
-      return `\n--- Word ${index + 1}: ${data.word} (from ${source}) ---\n${formattedData}`
-    }).join('\n')
-
-    const serviceName = useHuggingFace ? 'Hugging Face' : (useLMStudio ? 'LM Studio' : 'OpenAI')
-    console.log(`\n🤖 Sending ${successfulScrapes.length} words to ${serviceName} for batch processing...`)
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    }
-    
-    if (useHuggingFace || (!useLMStudio && apiKey)) {
-      headers['Authorization'] = `Bearer ${apiKey}`
-    }
-
-    // Prepare prompts
-    // Check if any words need AI enhancement
-    const wordsNeedingEnhancement = successfulScrapes.filter((r: any) => r.needsAIEnhancement)
-    const enhancementNeeded = wordsNeedingEnhancement.length > 0
-    
-    if (enhancementNeeded) {
-      console.log(`   ⚡ ${wordsNeedingEnhancement.length} word(s) need AI enhancement for better definitions`)
+        error: 'Dictionary sources are unavailable. Try again in a minute.',
+        results: failedResults
+      }, { status: 503, headers: cacheHeaders(cache) })
     }
-    
-    const systemPrompt = `You are an intelligent dictionary assistant processing MULTIPLE words. Some words may only have grammatical definitions (like "past tense of X"), but you should provide ACTUAL CONTEXTUAL MEANINGS.
-
-Return ONLY a valid JSON array with this exact structure:
-[
-  {
-    "word": "the word",
-    "part_of_speech": "noun" | "verb" | "adjective" | "adverb" | "preposition" | "conjunction" | "pronoun" | "interjection",
-    "cefr_level": "A1" | "A2" | "B1" | "B2" | "C1" | "C2",
-    "meaning_primary": "the actual contextual meaning or definition",
-    "usage_tips": "example sentence showing real-world usage"
-  },
-  ... (more words)
-]
-
-CRITICAL Rules:
-- Return a JSON ARRAY with one object per word
-- For part_of_speech: convert to lowercase full word (e.g., "noun" not "n.")
-- For cefr_level: use the exact level if provided, otherwise estimate based on complexity
-- For meaning_primary: If the dictionary only says "past participle of X" or similar, IGNORE that and provide the REAL CONTEXTUAL MEANING instead
-  * Example: "cramming" should be "studying intensively in a short time before an exam" NOT "present participle of cram"
-  * Example: "vetted" should be "examined or investigated carefully" NOT "past tense of vet"
-- For usage_tips: use scraped examples if available, or create a practical example sentence
-- Return ONLY the JSON array, no markdown code blocks or additional text
-- Process ALL words provided`
-    
-    const userPrompt = `Here is the data scraped from Cambridge Dictionary for ${successfulScrapes.length} words:\n${batchScrapedData}\n\nConvert ALL of these words to the required JSON array format.`
 
-    let requestBody: any
-    
-    if (useHuggingFace) {
-      // Hugging Face uses a simpler text-to-text format
-      requestBody = {
-        inputs: `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
-        parameters: {
-          max_new_tokens: 3000,
-          temperature: 0.2,
-          return_full_text: false
-        }
-      }
-    } else {
-      // OpenAI/LM Studio use chat completions format
-      requestBody = {
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: userPrompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 3000 // Increased for batch processing
-      }
-    }
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error(`❌ ${serviceName} Error:`, errorData)
-      
-      // Fallback: use scraped data directly
-      console.log('📝 Using scraped data as fallback (no AI processing)')
-      const fallbackResults = successfulScrapes.map(data => ({
-        word: data.word,
-        part_of_speech: (data as any).partOfSpeech || '',
-        cefr_level: (data as any).cefrLevel || 'n.a.',
-        meaning_primary: truncateDefinition((data as any).definition || ''),
-        usage_tips: (data as any).examples?.[0] || ''
-      }))
-      
+    if (successfulScrapes.length === 0) {
       return NextResponse.json({
-        success: true,
-        data: fallbackResults,
-        source: 'Cambridge Dictionary (AI unavailable)',
-        processed: fallbackResults.length,
-        total: words.length
-      })
+        error: `No words found in any dictionary sources (${describeProviders(resolveProviderOrder(preferred, language).map(p => p.name))})`,
+        results: failedResults
+      }, { status: 404, headers: cacheHeaders(cache) })
     }
 
-    const data = await response.json()
-    
-    // Extract content based on API response format
-    let content: string
-    if (useHuggingFace) {
-      // Hugging Face returns array or object with generated_text
-      content = Array.isArray(data) ? data[0]?.generated_text : data.generated_text
-    } else {
-      // OpenAI/LM Studio format
-      content = data.choices[0]?.message?.content
+    // Step 2: Use AI to process all scraped data in one batch
+    const llm = getLLMConfig()
+    if ('error' in llm) {
+      return NextResponse.json({ error: llm.error }, { status: 500 })
     }
 
-    if (!content) {
-      console.error('❌ No response from AI')
-      // Fallback
-      const fallbackResults = successfulScrapes.map(data => ({
-        word: data.word,
-        part_of_speech: (data as any).partOfSpeech || '',
-        cefr_level: (data as any).cefrLevel || 'n.a.',
-        meaning_primary: truncateDefinition((data as any).definition || ''),
-        usage_tips: (data as any).examples?.[0] || ''
-      }))
-      
+    const { data: finalResults, status } = await enrichBatch(successfulScrapes, llm.config, language, maxSenses)
+
+    if (status !== 'ai') {
       return NextResponse.json({
         success: true,
-        data: fallbackResults,
-        source: 'Cambridge Dictionary (fallback)',
-        processed: fallbackResults.length,
+        data: finalResults,
+        source: `${sourceNames} (${status === 'unavailable' ? 'AI unavailable' : 'fallback'})`,
+        processed: finalResults.length,
         total: words.length
-      })
+      }, { headers: cacheHeaders(cache) })
     }
 
-    console.log('🤖 AI processed batch response received')
-
-    // Parse the JSON array response
-    let processedData
-    try {
-      const cleanContent = content.replace(/```json\n?|\n?```/g, '').trim()
-      processedData = JSON.parse(cleanContent)
-      
-      if (!Array.isArray(processedData)) {
-        throw new Error('Response is not an array')
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response, using scraped data as fallback')
-      processedData = successfulScrapes.map(data => ({
-        word: data.word,
-        part_of_speech: (data as any).partOfSpeech || '',
-        cefr_level: (data as any).cefrLevel || 'n.a.',
-        meaning_primary: truncateDefinition((data as any).definition || ''),
-        usage_tips: (data as any).examples?.[0] || ''
-      }))
-    }
-
-    // Validate and ensure all words are present
-    const finalResults = processedData.map((item: any) => {
-      // Find original scraped data for this word
-      const scraped: any = successfulScrapes.find(s => s.word.toLowerCase() === item.word?.toLowerCase())
-      
-      return {
-        word: item.word || scraped?.word || '',
-        part_of_speech: item.part_of_speech || scraped?.partOfSpeech || '',
-        cefr_level: item.cefr_level || scraped?.cefrLevel || 'n.a.',
-        meaning_primary: truncateDefinition(item.meaning_primary || scraped?.definition || ''),
-        usage_tips: item.usage_tips || scraped?.examples?.[0] || ''
-      }
-    })
-
     console.log(`✅ Successfully processed ${finalResults.length} words\n`)
     console.log('='.repeat(70))
 
     return NextResponse.json({
       success: true,
       data: finalResults,
-      source: 'Cambridge Dictionary + AI Batch Processing',
+      source: `${sourceNames} + AI Batch Processing`,
       processed: finalResults.length,
       total: words.length,
-      failed: scrapedResults.filter(r => !r.found).map(r => r.word)
-    })
+      failed: failedResults.map(r => r.word)
+    }, { headers: cacheHeaders(cache) })
 
   } catch (error) {
     console.error('❌ Batch dictionary fetch error:', error)
@@ -362,4 +253,4 @@ CRITICAL Rules:
       error: error instanceof Error ? error.message : 'Failed to fetch dictionary data' 
     }, { status: 500 })
   }
-}
+})
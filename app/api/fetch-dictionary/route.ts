@@ -1,167 +1,85 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { scrapeCambridgeDictionary } from '@/lib/cambridge-scraper'
-import { scrapeOxfordDictionary } from '@/lib/oxford-scraper'
-import { scrapeUrbanDictionary } from '@/lib/urban-dictionary-scraper'
-import { checkRateLimit, getClientIdentifier } from '@/lib/rate-limiter'
-
-// Helper function to truncate definition to max 20 words
-function truncateDefinition(text: string, maxWords: number = 20): string {
-  if (!text) return text
-  const words = text.trim().split(/\s+/)
-  if (words.length <= maxWords) return text
-  return words.slice(0, maxWords).join(' ') + '...'
-}
-
-export async function POST(request: NextRequest) {
+import { NextResponse } from 'next/server'
+import { lookupWord, formatDictionaryEntry, describeProviders, cacheHeaders } from '@/lib/dictionary/lookup'
+import { truncateDefinition, scrapedFields, levelChoices, languageRules } from '@/lib/dictionary/enrich'
+import { isDictionarySource } from '@/lib/dictionary/registry'
+import { getLanguage } from '@/lib/languages/registry'
+import { completeJSON, LLMError } from '@/lib/llm/client'
+import { getLLMConfig } from '@/lib/llm/config'
+import { repairWordEntry, validateWordEntry } from '@/lib/llm/schema'
+import { limitSenses, parseMaxDefinitions, sensesFromDictionary } from '@/lib/senses'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+
+// 30 lookups per user in any minute
+const RATE_LIMIT: RateLimitPolicy = { name: 'dictionary', algorithm: 'sliding-window', limit: 30, windowMs: 60000 }
+
+export const POST = withAuth(async (request, auth) => {
   try {
-    // Rate limiting: 30 requests per minute per IP
-    const clientId = getClientIdentifier(request)
-    const rateLimit = checkRateLimit(clientId, { maxRequests: 30, windowMs: 60000 })
-    
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
     if (!rateLimit.allowed) {
-      const resetIn = Math.ceil((rateLimit.resetTime - Date.now()) / 1000)
-      return NextResponse.json(
-        { error: `Rate limit exceeded. Try again in ${resetIn} seconds.` },
-        { 
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': rateLimit.limit.toString(),
-            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-            'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
-            'Retry-After': resetIn.toString()
-          }
-        }
-      )
+      return rateLimitResponse(rateLimit)
     }
     
-    const { word } = await request.json()
+    const { word, dictionary, maxDefinitions, language: languageCode } = await request.json()
     
     if (!word) {
       return NextResponse.json({ error: 'Word is required' }, { status: 400 })
     }
 
-    // Try dictionaries in priority order: Cambridge -> Oxford -> Urban
-    console.log(`📖 Searching dictionaries for: ${word}`)
-    
-    let dictionaryData: any = null
-    let source = ''
-    
-    // 1. Try Cambridge first (highest priority)
-    console.log(`   Trying Cambridge Dictionary...`)
-    const cambridgeData = await scrapeCambridgeDictionary(word)
-    if (cambridgeData.found && cambridgeData.definition) {
-      console.log(`   ✅ Found in Cambridge Dictionary`)
-      dictionaryData = cambridgeData
-      source = 'Cambridge Dictionary'
-    }
+    const preferred = isDictionarySource(dictionary) ? dictionary : 'auto'
+    const language = getLanguage(languageCode)
+
+    // Query all dictionaries in parallel and merge the best definition
+    console.log(`📖 Searching dictionaries for: ${word} (${language.name}, preference: ${preferred})`)
     
-    // 2. If Cambridge fails, try Oxford
-    if (!dictionaryData) {
-      console.log(`   Trying Oxford Dictionary...`)
-      const oxfordData = await scrapeOxfordDictionary(word)
-      if (oxfordData.found && oxfordData.definition) {
-        console.log(`   ✅ Found in Oxford Dictionary`)
-        dictionaryData = oxfordData
-        source = 'Oxford Dictionary'
-      }
-    }
+    const { entry: dictionaryData, lemma, tried, unavailable, cache } = await lookupWord(word, { preferred, language: language.code })
     
-    // 3. If both fail, try Urban Dictionary as last resort
-    if (!dictionaryData) {
-      console.log(`   Trying Urban Dictionary...`)
-      const urbanData = await scrapeUrbanDictionary(word)
-      if (urbanData.found && urbanData.definition) {
-        console.log(`   ✅ Found in Urban Dictionary`)
-        dictionaryData = urbanData
-        source = 'Urban Dictionary'
-      }
+    // Nothing found, but some dictionaries could not be asked: the word may well exist
+    if (!dictionaryData && unavailable.length > 0) {
+      console.log(`⚠️ Word "${word}" not found, ${unavailable.join(', ')} unavailable`)
+      return NextResponse.json({
+        error: `Could not reach ${describeProviders(unavailable)}. Try again in a minute.`
+      }, { status: 503, headers: cacheHeaders(cache) })
     }
-    
+
     // Check if we found the word in any dictionary
     if (!dictionaryData) {
       console.log(`❌ Word "${word}" not found in any dictionary`)
       return NextResponse.json({ 
-        error: `Word "${word}" not found in Cambridge, Oxford, or Urban Dictionary` 
-      }, { status: 404 })
+        error: `Word "${word}" not found in ${describeProviders(tried)}` 
+      }, { status: 404, headers: cacheHeaders(cache) })
     }
     
+    const source = dictionaryData.source
+    
     // Prepare data for AI processing
-    let scrapedDataText = `Word: ${word}\n`
-    scrapedDataText += `Source: ${source}\n`
-    if (dictionaryData.pronunciation) {
-      scrapedDataText += `Pronunciation: ${dictionaryData.pronunciation}\n`
-    }
-    if (dictionaryData.partOfSpeech) {
-      scrapedDataText += `Part of Speech: ${dictionaryData.partOfSpeech}\n`
-    }
-    if (dictionaryData.cefrLevel) {
-      scrapedDataText += `CEFR Level: ${dictionaryData.cefrLevel}\n`
-    }
-    scrapedDataText += `Definition: ${dictionaryData.definition}\n`
-    if (dictionaryData.examples && dictionaryData.examples.length > 0) {
-      scrapedDataText += `Examples:\n`
-      dictionaryData.examples.forEach((ex: string, i: number) => {
-        scrapedDataText += `  ${i + 1}. ${ex}\n`
-      })
-    }
+    const scrapedDataText = formatDictionaryEntry(lemma, dictionaryData)
 
     console.log(`✅ Dictionary data from ${source}:`, dictionaryData)
     
     // Determine which AI service to use
-    const useHuggingFace = process.env.USE_HUGGINGFACE === 'true'
-    const useLMStudio = process.env.USE_LM_STUDIO === 'true'
-    
-    let apiUrl: string
-    let apiKey: string
-    let model: string
-    
-    if (useHuggingFace) {
-      // Hugging Face Inference API
-      model = process.env.HUGGINGFACE_MODEL || 'meta-llama/Llama-3.2-3B-Instruct'
-      apiUrl = `https://api-inference.huggingface.co/models/${model}`
-      apiKey = process.env.HUGGINGFACE_API_KEY || ''
-      if (!apiKey) {
-        return NextResponse.json({ 
-          error: 'Hugging Face API key not configured. Please add HUGGINGFACE_API_KEY to your .env.local file' 
-        }, { status: 500 })
-      }
-    } else if (useLMStudio) {
-      // LM Studio (local)
-      apiUrl = process.env.LM_STUDIO_URL || 'http://localhost:1234/v1/chat/completions'
-      apiKey = 'lm-studio'
-      model = process.env.LM_STUDIO_MODEL || 'local-model'
-    } else {
-      // OpenAI
-      apiUrl = 'https://api.openai.com/v1/chat/completions'
-      apiKey = process.env.OPENAI_API_KEY || ''
-      model = 'gpt-4o-mini'
-      if (!apiKey) {
-        return NextResponse.json({ 
-          error: 'OpenAI API key not configured. Please add OPENAI_API_KEY to your .env.local file or set USE_LM_STUDIO=true or USE_HUGGINGFACE=true' 
-        }, { status: 500 })
-      }
+    const llm = getLLMConfig()
+    if ('error' in llm) {
+      return NextResponse.json({ error: llm.error }, { status: 500 })
     }
 
-    // Call AI API to structure the scraped information
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    }
-    
-    // Add Authorization header based on service
-    if (useHuggingFace || (!useLMStudio && apiKey)) {
-      headers['Authorization'] = `Bearer ${apiKey}`
-    }
-
-    const serviceName = useHuggingFace ? 'Hugging Face' : (useLMStudio ? 'LM Studio' : 'OpenAI')
-    console.log(`🤖 Sending to ${serviceName} for processing...`)
+    console.log(`🤖 Sending to ${llm.config.name} for processing...`)
 
     // Prepare the prompt content
+    // Form-change definitions ("past simple of run") need a real meaning from the AI
+    const needsAIEnhancement = dictionaryData.needsAIEnhancement === true
+    if (needsAIEnhancement) {
+      console.log(`   ⚡ "${word}" needs AI enhancement for a better definition`)
+    }
+    const meaningRule = needsAIEnhancement
+      ? 'the dictionary only describes a word form (like "past tense of X"), so IGNORE that and provide the REAL CONTEXTUAL MEANING instead'
+      : 'use the definition exactly as scraped'
     const systemPrompt = `You are an intelligent dictionary assistant processing dictionary data.
 
 Return ONLY a valid JSON object with this exact structure:
 {
   "part_of_speech": "noun" | "verb" | "adjective" | "adverb" | "preposition" | "conjunction" | "pronoun" | "interjection",
-  "cefr_level": "A1" | "A2" | "B1" | "B2" | "C1" | "C2",
+  "cefr_level": ${levelChoices(language)},
   "meaning_primary": "the primary definition",
   "usage_tips": "example sentence in quotes"
 }
@@ -169,105 +87,30 @@ Return ONLY a valid JSON object with this exact structure:
 Rules:
 - Use the EXACT data from the dictionary scrape provided
 - For part_of_speech: convert to lowercase full word (e.g., "noun" not "n.")
-- For cefr_level: use the exact level if provided, otherwise estimate based on word complexity
-- For meaning_primary: use the first definition exactly as scraped
+${languageRules(language)}
+- For meaning_primary: ${meaningRule}
 - For usage_tips: use the first example sentence from the scraped data, or create a brief usage note if no examples
 - Return ONLY the JSON object, no markdown code blocks or additional text`
     
     const userPrompt = `Here is the data scraped from a dictionary:\n\n${scrapedDataText}\n\nConvert this to the required JSON format.`
 
-    let requestBody: any
-    
-    if (useHuggingFace) {
-      // Hugging Face uses a simpler text-to-text format
-      requestBody = {
-        inputs: `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
-        parameters: {
-          max_new_tokens: 500,
-          temperature: 0.2,
-          return_full_text: false
-        }
-      }
-    } else {
-      // OpenAI/LM Studio use chat completions format
-      requestBody = {
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: userPrompt
-          }
-        ],
-        temperature: 0.2,
-        max_tokens: 500
-      }
-    }
-
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      console.error(`❌ ${serviceName} Error:`, errorData)
-      return NextResponse.json({ 
-        error: `Failed to process dictionary data with ${serviceName}${useHuggingFace ? '. Check your API key and model availability.' : useLMStudio ? '. Is the server running?' : ''}` 
-      }, { status: response.status })
-    }
-
-    const data = await response.json()
-    
-    // Extract content based on API response format
-    let content: string
-    if (useHuggingFace) {
-      // Hugging Face returns array or object with generated_text
-      content = Array.isArray(data) ? data[0]?.generated_text : data.generated_text
-    } else {
-      // OpenAI/LM Studio format
-      content = data.choices[0]?.message?.content
-    }
-
-    if (!content) {
-      return NextResponse.json({ 
-        error: 'No response from AI' 
-      }, { status: 500 })
-    }
-
-    console.log('🤖 AI processed response:', content)
-
-    // Parse the JSON response
-    let processedData
+    let response: { value: unknown; issues: string[] }
     try {
-      // Remove markdown code blocks if present
-      const cleanContent = content.replace(/```json\n?|\n?```/g, '').trim()
-      processedData = JSON.parse(cleanContent)
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', content)
-      // Fallback: use the scraped data directly
-      console.log('📝 Using scraped data as fallback')
-      processedData = {
-        part_of_speech: dictionaryData.partOfSpeech || '',
-        cefr_level: dictionaryData.cefrLevel || 'n.a.',
-        meaning_primary: dictionaryData.definition || '',
-        usage_tips: dictionaryData.examples?.[0] || ''
-      }
+      response = await completeJSON(llm.config, [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], value => validateWordEntry(value, language.levels))
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error
+      return NextResponse.json({ 
+        error: `Failed to process dictionary data: ${error.message}` 
+      }, { status: error.status && error.status >= 400 ? error.status : 500 })
     }
 
-    // Validate the response structure
-    if (!processedData.part_of_speech || !processedData.meaning_primary) {
-      console.log('⚠️ Incomplete AI response, using scraped data')
-      processedData = {
-        part_of_speech: dictionaryData.partOfSpeech || processedData.part_of_speech || '',
-        cefr_level: dictionaryData.cefrLevel || processedData.cefr_level || 'n.a.',
-        meaning_primary: dictionaryData.definition || processedData.meaning_primary || '',
-        usage_tips: dictionaryData.examples?.[0] || processedData.usage_tips || ''
-      }
+    // Fill anything the AI still got wrong from the scraped data
+    const { entry: processedData, repaired } = repairWordEntry(response.value, scrapedFields(dictionaryData), language.levels)
+    if (repaired.length > 0) {
+      console.log(`⚠️ Incomplete AI response, using scraped data for ${repaired.join(', ')}`)
     }
 
     console.log('✅ Final structured data:', processedData)
@@ -275,13 +118,16 @@ Rules:
     return NextResponse.json({
       success: true,
       data: {
-        part_of_speech: processedData.part_of_speech || '',
-        cefr_level: processedData.cefr_level || 'n.a.',
-        meaning_primary: truncateDefinition(processedData.meaning_primary || ''),
-        usage_tips: processedData.usage_tips || ''
+        ...processedData,
+        lemma,
+        meaning_primary: truncateDefinition(processedData.meaning_primary),
+        senses: limitSenses(
+          sensesFromDictionary(dictionaryData.senses, processedData.meaning_primary, processedData.part_of_speech),
+          parseMaxDefinitions(maxDefinitions)
+        )
       },
       source: source + ' + AI Processing'
-    })
+    }, { headers: cacheHeaders(cache) })
 
   } catch (error) {
     console.error('❌ Dictionary fetch error:', error)
@@ -289,4 +135,4 @@ Rules:
       error: error instanceof Error ? error.message : 'Failed to fetch dictionary data' 
     }, { status: 500 })
   }
-}
+})
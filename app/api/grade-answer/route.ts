@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { completeJSON, LLMError } from '@/lib/llm/client'
+import { getLLMConfig } from '@/lib/llm/config'
+import { validateGrade, type Grade } from '@/lib/grading'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+
+// Answers come in bursts during a quiz: up to 30 at once, refilled at 30 per minute
+const RATE_LIMIT: RateLimitPolicy = { name: 'grade', algorithm: 'token-bucket', limit: 30, windowMs: 60000 }
+
+export const POST = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const { word, expected, answer } = await request.json()
+
+    if (!word || !expected || !answer) {
+      return NextResponse.json({ error: 'Word, expected meaning and answer are required' }, { status: 400 })
+    }
+
+    const llm = getLLMConfig()
+    if ('error' in llm) {
+      return NextResponse.json({ error: llm.error }, { status: 500 })
+    }
+
+    const systemPrompt = `You are a language teacher grading a vocabulary quiz. The student was shown a word and wrote what it means.
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "verdict": "correct" | "close" | "wrong",
+  "explanation": "one short sentence for the student"
+}
+
+Rules:
+- "correct": the answer captures the meaning, even in different words or with spelling mistakes
+- "close": the answer is related or partly right but misses something important
+- "wrong": the answer describes a different meaning or is too vague to show understanding
+- Judge the meaning, not the wording. Synonyms and paraphrases are fine
+- Write the explanation to the student in the second person
+- Return ONLY the JSON object, no markdown code blocks or additional text`
+
+    const userPrompt = `Word: ${word}\nDefinition: ${expected}\nStudent's answer: ${answer}`
+
+    let response: { value: unknown; issues: string[] }
+    try {
+      response = await completeJSON(llm.config, [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], validateGrade, { maxTokens: 200 })
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error
+      return NextResponse.json({
+        error: `Failed to grade answer: ${error.message}`
+      }, { status: error.status && error.status >= 400 ? error.status : 500 })
+    }
+
+    if (response.issues.length > 0) {
+      return NextResponse.json({ error: `Invalid grade from ${llm.config.name}: ${response.issues.join('; ')}` }, { status: 502 })
+    }
+
+    const grade = response.value as Grade
+    return NextResponse.json({
+      success: true,
+      data: { verdict: grade.verdict, explanation: grade.explanation.trim() }
+    })
+
+  } catch (error) {
+    console.error('❌ Answer grading error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to grade answer'
+    }, { status: 500 })
+  }
+})
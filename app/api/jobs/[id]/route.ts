@@ -0,0 +1,77 @@
+import { NextResponse, after } from 'next/server'
+import {
+  cancelEnrichmentJob,
+  getEnrichmentJob,
+  getEnrichmentJobProgress,
+  needsWorker,
+} from '@/lib/jobs/enrichment-jobs'
+import { runEnrichmentJob } from '@/lib/jobs/enrichment-worker'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // A resumed worker keeps running after the response is sent
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Polled every 2 seconds while a job runs: 60 per user in any minute, two pages polling (shared with /api/jobs)
+const RATE_LIMIT: RateLimitPolicy = { name: 'job-status', algorithm: 'sliding-window', limit: 60, windowMs: 60000 }
+
+/**
+ * Gets the progress of an enrichment job
+ */
+export const GET = withAuth(async (request, auth, { params }: RouteContext) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const { id } = await params
+    const job = await getEnrichmentJob(auth.supabase, id)
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    // Resume the job if its worker crashed or timed out
+    if (needsWorker(job)) {
+      after(() => runEnrichmentJob(auth.supabase, job.id))
+    }
+
+    return NextResponse.json({ job: await getEnrichmentJobProgress(auth.supabase, job) })
+  } catch (error) {
+    console.error('❌ Job status error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to fetch job status'
+    }, { status: 500 })
+  }
+})
+
+/**
+ * Cancels an enrichment job; words already processed keep their new data
+ */
+export const DELETE = withAuth(async (request, auth, { params }: RouteContext) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const { id } = await params
+    const cancelled = await cancelEnrichmentJob(auth.supabase, id)
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Job not found or already finished' }, { status: 404 })
+    }
+
+    const job = await getEnrichmentJob(auth.supabase, id)
+    return NextResponse.json({ job: job && await getEnrichmentJobProgress(auth.supabase, job) })
+  } catch (error) {
+    console.error('❌ Job cancel error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to cancel job'
+    }, { status: 500 })
+  }
+})
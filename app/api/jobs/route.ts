@@ -0,0 +1,99 @@
+import { NextResponse, after } from 'next/server'
+import { isDictionarySource } from '@/lib/dictionary/registry'
+import {
+  createEnrichmentJob,
+  getActiveEnrichmentJob,
+  getEnrichmentJobProgress,
+  needsWorker,
+} from '@/lib/jobs/enrichment-jobs'
+import { runEnrichmentJob } from '@/lib/jobs/enrichment-worker'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+import { parseMaxDefinitions } from '@/lib/senses'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // The worker keeps running after the response is sent
+
+// Status checks, which may also resume a job: 60 per user in any minute, two pages polling
+const STATUS_RATE_LIMIT: RateLimitPolicy = { name: 'job-status', algorithm: 'sliding-window', limit: 60, windowMs: 60000 }
+
+// Each job scrapes a whole library: up to 5 at once, then one every 10 minutes (shared with /api/refetch-all)
+const START_RATE_LIMIT: RateLimitPolicy = { name: 'job-start', algorithm: 'token-bucket', limit: 5, windowMs: 3000000 }
+
+/**
+ * Gets the currently queued or running enrichment job, if any
+ */
+export const GET = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, STATUS_RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const job = await getActiveEnrichmentJob(auth.supabase)
+    if (!job) {
+      return NextResponse.json({ job: null })
+    }
+
+    // Resume jobs whose worker died
+    if (needsWorker(job)) {
+      after(() => runEnrichmentJob(auth.supabase, job.id))
+    }
+
+    return NextResponse.json({ job: await getEnrichmentJobProgress(auth.supabase, job) })
+  } catch (error) {
+    console.error('❌ Job status error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to fetch job status'
+    }, { status: 500 })
+  }
+})
+
+/**
+ * Starts a background enrichment job
+ * Body: { wordIds?: number[], dictionary?: DictionarySource, deleteNotFound?: boolean, maxDefinitions?: number }
+ */
+export const POST = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, START_RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many enrichment jobs started.')
+    }
+
+    const { wordIds, dictionary, deleteNotFound, maxDefinitions } = await request.json().catch(() => ({}))
+
+    if (wordIds !== undefined && (!Array.isArray(wordIds) || !wordIds.every(id => typeof id === 'number'))) {
+      return NextResponse.json({ error: 'wordIds must be an array of word ids' }, { status: 400 })
+    }
+
+    // Only one job at a time, so two jobs never scrape the same words
+    const active = await getActiveEnrichmentJob(auth.supabase)
+    if (active) {
+      return NextResponse.json({
+        error: 'An enrichment job is already running',
+        job: await getEnrichmentJobProgress(auth.supabase, active)
+      }, { status: 409 })
+    }
+
+    const job = await createEnrichmentJob(auth.supabase, auth.user.id, {
+      wordIds,
+      dictionary: isDictionarySource(dictionary) ? dictionary : 'auto',
+      deleteNotFound: deleteNotFound === true,
+      maxDefinitions: parseMaxDefinitions(maxDefinitions),
+    })
+
+    if (!job) {
+      return NextResponse.json({ error: 'No words to process' }, { status: 400 })
+    }
+
+    after(() => runEnrichmentJob(auth.supabase, job.id))
+
+    return NextResponse.json({ job: await getEnrichmentJobProgress(auth.supabase, job) }, { status: 202 })
+  } catch (error) {
+    console.error('❌ Job creation error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to start job'
+    }, { status: 500 })
+  }
+})
@@ -1,91 +1,59 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { NextResponse, after } from 'next/server'
+import { isDictionarySource } from '@/lib/dictionary/registry'
+import { createEnrichmentJob, getActiveEnrichmentJob, getEnrichmentJobProgress } from '@/lib/jobs/enrichment-jobs'
+import { runEnrichmentJob } from '@/lib/jobs/enrichment-worker'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+import { parseMaxDefinitions } from '@/lib/senses'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
-export const maxDuration = 300 // 5 minutes for long-running request
+export const maxDuration = 300 // The worker keeps running after the response is sent
 
-export async function POST(request: NextRequest) {
+// Counts against the same limit as starting a job from /api/jobs
+const RATE_LIMIT: RateLimitPolicy = { name: 'job-start', algorithm: 'token-bucket', limit: 5, windowMs: 3000000 }
+
+/**
+ * Queues a background job that refetches every word in the caller's library
+ * Poll /api/jobs/{id} for progress.
+ */
+export const POST = withAuth(async (request, auth) => {
   try {
-    // Get all words from the database
-    const { data: allWords, error: fetchError } = await supabase
-      .from('vocab_library')
-      .select('id, word')
-      .order('id', { ascending: true })
-    
-    if (fetchError) {
-      throw new Error(`Failed to fetch words: ${fetchError.message}`)
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many enrichment jobs started.')
     }
 
-    if (!allWords || allWords.length === 0) {
+    const { dictionary, maxDefinitions } = await request.json().catch(() => ({}))
+
+    const active = await getActiveEnrichmentJob(auth.supabase)
+    if (active) {
       return NextResponse.json({
-        message: 'No words found in library',
-        count: 0
-      })
+        error: 'An enrichment job is already running',
+        job: await getEnrichmentJobProgress(auth.supabase, active)
+      }, { status: 409 })
     }
 
-    console.log(`\n${'='.repeat(70)}`)
-    console.log(`🔄 Starting refetch for ${allWords.length} words`)
-    console.log('='.repeat(70))
-
-    // Call the batch fetch endpoint
-    const batchResponse = await fetch(`${request.nextUrl.origin}/api/fetch-dictionary-batch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        words: allWords.map(w => w.word)
-      })
+    const job = await createEnrichmentJob(auth.supabase, auth.user.id, {
+      dictionary: isDictionarySource(dictionary) ? dictionary : 'auto',
+      deleteNotFound: false,
+      maxDefinitions: parseMaxDefinitions(maxDefinitions),
     })
 
-    if (!batchResponse.ok) {
-      const errorData = await batchResponse.json()
-      throw new Error(errorData.error || 'Batch fetch failed')
-    }
-
-    const batchResult = await batchResponse.json()
-
-    // Update the database with the refetched data
-    if (batchResult.data && Array.isArray(batchResult.data)) {
-      console.log(`\n📝 Updating ${batchResult.data.length} words in database...`)
-      
-      let updateCount = 0
-      for (const wordData of batchResult.data) {
-        const matchingWord = allWords.find(w => w.word.toLowerCase() === wordData.word.toLowerCase())
-        if (!matchingWord) continue
-
-        const { error: updateError } = await supabase
-          .from('vocab_library')
-          .update({
-            part_of_speech: wordData.part_of_speech,
-            cefr_level: wordData.cefr_level,
-            meaning_primary: wordData.meaning_primary,
-            usage_tips: wordData.usage_tips,
-          })
-          .eq('id', matchingWord.id)
-
-        if (updateError) {
-          console.error(`Error updating ${wordData.word}:`, updateError)
-        } else {
-          updateCount++
-        }
-      }
-
-      console.log(`✅ Successfully updated ${updateCount}/${allWords.length} words`)
-
+    if (!job) {
       return NextResponse.json({
-        message: `Successfully refetched and updated ${updateCount} words`,
-        total: allWords.length,
-        updated: updateCount,
-        failed: allWords.length - updateCount
+        message: 'No words found in library',
+        count: 0
       })
     }
 
+    console.log(`🔄 Queued refetch job ${job.id} for ${job.total} words`)
+    after(() => runEnrichmentJob(auth.supabase, job.id))
+
     return NextResponse.json({
-      message: 'Refetch completed but no data returned',
-      total: allWords.length
-    })
+      message: `Refetching ${job.total} words in the background`,
+      job: await getEnrichmentJobProgress(auth.supabase, job)
+    }, { status: 202 })
 
   } catch (error) {
     console.error('❌ Refetch all error:', error)
@@ -93,4 +61,4 @@ export async function POST(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Failed to refetch all words'
     }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server'
+import { getLanguageById } from '@/lib/languages/registry'
+import { getNativeLanguage } from '@/lib/translation/languages'
+import { translateGlosses } from '@/lib/translation/translate'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { withAuth } from '@/lib/api-auth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Words glossed per backend call
+const CHUNK_SIZE = 20
+
+// Words glossed per request
+const MAX_WORDS = 200
+
+// 10 requests per user in any minute
+const RATE_LIMIT: RateLimitPolicy = { name: 'gloss', algorithm: 'sliding-window', limit: 10, windowMs: 60000 }
+
+/**
+ * Glosses the meanings of the caller's words in their native language
+ * Body: { ids: number[], target: "es" }. Words without a meaning are skipped.
+ */
+export const POST = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit)
+    }
+
+    const { ids, target } = await request.json()
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json({ error: 'No words provided' }, { status: 400 })
+    }
+
+    if (ids.length > MAX_WORDS) {
+      return NextResponse.json({ error: `Maximum ${MAX_WORDS} words per request` }, { status: 400 })
+    }
+
+    const nativeLanguage = getNativeLanguage(target)
+    if (!nativeLanguage) {
+      return NextResponse.json({ error: 'Unsupported native language' }, { status: 400 })
+    }
+
+    const { data: rows, error: selectError } = await auth.supabase
+      .from('vocab_library')
+      .select('id, word, meaning_primary, lang_id')
+      .eq('user_id', auth.user.id)
+      .in('id', ids)
+      .not('meaning_primary', 'is', null)
+
+    if (selectError) {
+      throw new Error(`Failed to load words: ${selectError.message}`)
+    }
+
+    console.log(`🌐 Glossing ${rows.length} words in ${nativeLanguage.name}`)
+
+    const glossed: { id: number; meaning_native: string }[] = []
+
+    for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + CHUNK_SIZE)
+      const results = await translateGlosses(chunk.map(row => ({
+        word: row.word,
+        meaning: row.meaning_primary,
+        language: getLanguageById(row.lang_id).code,
+      })), nativeLanguage.code)
+
+      for (const [j, row] of chunk.entries()) {
+        const { gloss, backend } = results[j]
+        if (!gloss) continue
+
+        const { error: updateError } = await auth.supabase
+          .from('vocab_library')
+          .update({ meaning_native: gloss, native_lang: nativeLanguage.code })
+          .eq('id', row.id)
+          .eq('user_id', auth.user.id)
+
+        if (updateError) {
+          console.error(`❌ Failed to save gloss for "${row.word}":`, updateError.message)
+          continue
+        }
+
+        console.log(`✅ ${row.word} → ${gloss} (${backend})`)
+        glossed.push({ id: row.id, meaning_native: gloss })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: glossed,
+      translated: glossed.length,
+      total: rows.length
+    })
+
+  } catch (error) {
+    console.error('❌ Translate glosses error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to translate glosses'
+    }, { status: 500 })
+  }
+})
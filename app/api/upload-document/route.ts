@@ -0,0 +1,214 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/api-auth'
+import { checkRateLimit, rateLimitResponse, type RateLimitPolicy } from '@/lib/rate-limiter'
+import { DocumentError } from '@/lib/documents/errors'
+import { titleFromFileName } from '@/lib/documents/formats'
+import { parseDocument } from '@/lib/documents/registry'
+import type { DocumentSection, ParsedDocument } from '@/lib/documents/types'
+import { fetchDocument } from '@/lib/documents/url'
+import { getLanguage } from '@/lib/languages/registry'
+import { mergeForms } from '@/lib/languages/lemmatizers'
+import type { Language } from '@/lib/languages/types'
+import { extractVocabulary, type ExtractedVocabulary } from '@/lib/vocabulary-extraction'
+import { loadFrequencyList } from '@/lib/word-frequency'
+import { saveContexts } from '@/lib/word-contexts'
+import { findLibraryWord, indexLibraryWords, loadLibraryWords, recordForms, type LibraryWord } from '@/lib/word-forms'
+
+// Force Node.js runtime (pdf-parse doesn't work with Edge runtime)
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Helper function to extract words from text
+async function extractVocabularyWords(sections: DocumentSection[], language: Language): Promise<ExtractedVocabulary> {
+  console.log(`📖 Processing ${sections.length} sections (${language.name})...`)
+
+  const vocabulary = extractVocabulary(sections, language, await loadFrequencyList(language))
+  console.log(`   Unique words: ${vocabulary.words.length}, names and acronyms left out: ${vocabulary.properNouns.length}`)
+
+  return vocabulary
+}
+
+// Parsing and fetching documents is heavy: up to 10 imports at once, then one a minute
+const RATE_LIMIT: RateLimitPolicy = { name: 'upload', algorithm: 'token-bucket', limit: 10, windowMs: 600000 }
+
+/**
+ * Imports vocabulary from an uploaded document (PDF, EPUB, DOCX, HTML, text, Markdown or
+ * subtitles) or from a link to a web page or online document
+ * Form fields: file or url, language, and preview to only list the words found.
+ */
+export const POST = withAuth(async (request, auth) => {
+  try {
+    const rateLimit = await checkRateLimit(request, auth, RATE_LIMIT)
+    if (!rateLimit.allowed) {
+      return rateLimitResponse(rateLimit, 'Too many imports.')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const link = formData.get('url')
+    const previewMode = formData.get('preview') === 'true'
+    const language = getLanguage(formData.get('language'))
+    
+    if (!(file instanceof File) && (typeof link !== 'string' || !link.trim())) {
+      return NextResponse.json(
+        { error: 'No file uploaded or link given' },
+        { status: 400 }
+      )
+    }
+
+    let document: ParsedDocument
+    let title: string
+    try {
+      if (file instanceof File) {
+        document = await parseDocument(Buffer.from(await file.arrayBuffer()), file.name, file.type)
+        title = document.title || titleFromFileName(file.name)
+      } else {
+        const fetched = await fetchDocument(link as string)
+        const url = new URL(fetched.url)
+        document = await parseDocument(fetched.data, url.pathname, fetched.mimeType, fetched.charset)
+        title = document.title || `${url.hostname}${url.pathname === '/' ? '' : url.pathname}`
+      }
+    } catch (documentError) {
+      console.error('Document parsing error:', documentError)
+      if (documentError instanceof DocumentError) {
+        return NextResponse.json({ error: documentError.message }, { status: 400 })
+      }
+      return NextResponse.json(
+        { 
+          error: 'Failed to read document',
+          details: documentError instanceof Error ? documentError.message : 'Unknown parsing error'
+        },
+        { status: 500 }
+      )
+    }
+    title = title.slice(0, 200)
+
+    const characters = document.sections.reduce((sum, section) => sum + section.text.length, 0)
+    console.log(`📄 ${document.format} parsed: ${document.sections.length} sections, ${characters} characters`)
+
+    // Extract vocabulary words under their lemma, most worth studying first
+    const extracted = await extractVocabularyWords(document.sections, language)
+    const extractedForms = new Map(extracted.words.map(w => [w.word, w.forms]))
+    const extractedWords = [...extractedForms.keys()]
+    
+    console.log(`📝 Extracted ${extractedWords.length} unique words from "${title}"`)
+    
+    if (extractedWords.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid vocabulary words found in the document' },
+        { status: 400 }
+      )
+    }
+
+    // Check for existing words, including other forms of them
+    const library = indexLibraryWords(await loadLibraryWords(auth.supabase, auth.user.id), language)
+    const existing = new Map<LibraryWord, string[]>()
+    const wordIds = new Map<string, number>() // Extracted word → library word it belongs to
+    const newWords: string[] = []
+    for (const [lemma, forms] of extractedForms) {
+      const match = findLibraryWord(library, lemma, forms)
+      if (match) {
+        existing.set(match, [...(existing.get(match) || []), ...forms])
+        wordIds.set(lemma, match.id)
+      } else {
+        newWords.push(lemma)
+      }
+    }
+    
+    const isNew = new Set(newWords)
+    const existingWordsList = extractedWords.filter(word => !isNew.has(word))
+
+    console.log(`   ${newWords.length} new words, ${existingWordsList.length} already in library`)
+
+    // If preview mode, return ALL extracted words (not just new ones)
+    // Let the user decide what to keep
+    if (previewMode) {
+      return NextResponse.json({
+        preview: true,
+        message: 'Words extracted for preview',
+        total_extracted: extractedWords.length,
+        already_exists: existingWordsList.length,
+        new_words: newWords.length,
+        words: extractedWords, // Show all words, not just new ones
+        existing_words: existingWordsList,
+        forms: Object.fromEntries(extractedForms), // Forms seen per word, sent back on confirm
+        details: Object.fromEntries(extracted.words.map(w => [w.word, {
+          count: w.count,
+          rank: w.rank,
+          level: w.level,
+          phrase: w.phrase,
+          contexts: w.contexts // Sentences it appears in, sent back on confirm
+        }])),
+        proper_nouns: extracted.properNouns,
+        title
+      })
+    }
+
+    await recordForms(auth.supabase, existing)
+
+    // Keeps the sentences every word was met in, for new and existing words alike
+    const storeContexts = async () => {
+      const contexts = new Map(extracted.words
+        .filter(w => wordIds.has(w.word) && w.contexts.length > 0)
+        .map(w => [wordIds.get(w.word)!, w.contexts]))
+      try {
+        await saveContexts(auth.supabase, contexts, title)
+      } catch (contextsError) {
+        console.error('Error saving source sentences:', contextsError instanceof Error ? contextsError.message : contextsError)
+      }
+    }
+
+    if (newWords.length === 0) {
+      await storeContexts()
+      return NextResponse.json({
+        message: 'All words from the document already exist in your library',
+        total_extracted: extractedWords.length,
+        already_exists: extractedWords.length,
+        new_words: 0,
+        words: []
+      })
+    }
+
+    // Insert new words into database
+    const wordsToInsert = newWords.map(word => ({
+      word: word,
+      forms: mergeForms(word, [], extractedForms.get(word) || []) || [],
+      lang_id: language.id,
+      user_id: auth.user.id
+    }))
+
+    const { data: insertedData, error: insertError } = await auth.supabase
+      .from('vocab_library')
+      .insert(wordsToInsert)
+      .select()
+
+    if (insertError) {
+      console.error('Error inserting words:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to insert words into database', details: insertError.message },
+        { status: 500 }
+      )
+    }
+
+    for (const row of insertedData || []) wordIds.set(row.word, row.id)
+    await storeContexts()
+
+    return NextResponse.json({
+      message: 'Document processed successfully',
+      total_extracted: extractedWords.length,
+      already_exists: extractedWords.length - newWords.length,
+      new_words: newWords.length,
+      words: insertedData || []
+    })
+
+  } catch (error) {
+    console.error('Error processing document:', error)
+    return NextResponse.json(
+      { 
+        error: 'Failed to process document',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+})
@@ -59,7 +59,6 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ServiceWorkerRegistration />
         <ThemeProvider
           attribute="class"
           defaultTheme="system"
@@ -68,6 +67,7 @@ export default function RootLayout({
         >
           <AuthProvider>
             <SettingsProvider>
+              <ServiceWorkerRegistration />
               {children}
             </SettingsProvider>
           </AuthProvider>
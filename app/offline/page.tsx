@@ -0,0 +1,5 @@
+import OfflinePage from '@/components/offline-page'
+
+export default function Offline() {
+  return <OfflinePage />
+}
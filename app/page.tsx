@@ -2,11 +2,30 @@
 
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { apiFetch } from '@/lib/api-client'
 import { useTheme } from 'next-themes'
 import { Logo } from '@/components/logo'
 import { QuizMode } from '@/components/quiz-mode'
 import { useAuth } from '@/lib/auth-context'
+import { useSettings } from '@/lib/settings-context'
+import { useEnrichmentJob } from '@/lib/use-enrichment-job'
+import { useOfflineSync } from '@/lib/use-offline-sync'
+import { queueChange, readLibrary, replaceLibrary } from '@/lib/offline/local-store'
+import { isLocalId, localWordId, type Mutation, type WordFields } from '@/lib/offline/mutations'
+import type { SyncResult } from '@/lib/offline/sync'
+import type { EnrichmentJobProgress } from '@/lib/jobs/enrichment-jobs'
+import type { BatchEvent } from '@/lib/dictionary/enrich'
+import { readEventStream } from '@/lib/event-stream'
 import LandingPage from '@/components/landing-page'
+import { LANGUAGES, getLanguage, getLanguageById } from '@/lib/languages/registry'
+import { lemmaKeys, lemmatize, mergeForms } from '@/lib/languages/lemmatizers'
+import { learnerLevel, levelIndex } from '@/lib/languages/levels'
+import type { LanguageCode } from '@/lib/languages/types'
+import { getNativeLanguage } from '@/lib/translation/languages'
+import { wordListLayout } from '@/lib/display-settings'
+import { ACCEPTED_FILE_TYPES, DOCUMENT_FORMATS, detectFormat } from '@/lib/documents/formats'
+import { saveSenses, sortSenses, type StoredSense, type VocabSense } from '@/lib/senses'
+import type { SourceSentence, VocabContext } from '@/lib/word-contexts'
 
 // TypeScript type definition - tells the app what data structure a word has
 type VocabWord = {
@@ -16,50 +35,98 @@ type VocabWord = {
   cefr_level?: string
   meaning_primary?: string
   usage_tips?: string
+  meaning_native?: string // Gloss of the meaning in the learner's native language
+  native_lang?: string
   lang_id?: number
+  forms?: string[]        // Inflected forms seen for the word, e.g. "running" and "ran" for "run"
+  senses?: StoredSense[] // Loaded with the word from vocab_senses
+  contexts?: VocabContext[] // Sentences it was met in, from vocab_contexts
+}
+
+// How /api/upload-document rated an extracted word
+type PdfWordDetails = {
+  count: number   // Occurrences in the document
+  rank?: number   // Position in the frequency list
+  level?: string  // Level estimated from the rank
+  phrase: boolean // Multi-word expression
+  contexts?: SourceSentence[] // Sentences it appears in, with their page
+}
+
+// Live status of a word while the batch route streams its progress
+type LiveFillStatus = {
+  status: 'pending' | 'scraped' | 'enriched' | 'failed'
+  detail?: string // Dictionary source, new meaning or failure reason
 }
 
 export default function Home() {
-  const { setTheme, resolvedTheme } = useTheme()
-  const { user, loading: authLoading, signOut } = useAuth()
+  const { user, loading: authLoading } = useAuth()
 
   // Show landing page if not authenticated
   if (!authLoading && !user) {
     return <LandingPage />
   }
 
+  return <VocabularyApp />
+}
+
+/**
+ * The app of a signed-in user (or one whose session is still loading)
+ * A component of its own, so its hooks run the same way on every render.
+ */
+function VocabularyApp() {
+  const { setTheme, resolvedTheme } = useTheme()
+  const { user, signOut } = useAuth()
+  const { settings } = useSettings()
+
   // State management: these are "memory slots" that store data
   const [words, setWords] = useState<VocabWord[]>([]) // Stores all words from database
   const [loading, setLoading] = useState(true) // Shows if we're still fetching data
   const [error, setError] = useState<string | null>(null) // Shows error messages
-  const [selectedLanguage, setSelectedLanguage] = useState<'en' | 'ja'>('en') // Language toggle
+  const [selectedLanguage, setSelectedLanguage] = useState<LanguageCode>('en') // Language of new words
   const [inputValue, setInputValue] = useState('') // Stores what user typed in the form
   const [isMounted, setIsMounted] = useState(false) // Track if component has mounted
   const [searchQuery, setSearchQuery] = useState('') // Search filter state
   const [editingWord, setEditingWord] = useState<VocabWord | null>(null) // Word being edited
+  const [editSenses, setEditSenses] = useState<VocabSense[] | null>(null) // Senses of the word being edited, null until changed
   const [editFormData, setEditFormData] = useState({
     word: '',
     part_of_speech: '',
     cefr_level: '',
     meaning_primary: '',
+    meaning_native: '',
     usage_tips: ''
   })
   const [showQuiz, setShowQuiz] = useState(false)
   const [showIncompleteList, setShowIncompleteList] = useState(false)
   const [fetchingDictionary, setFetchingDictionary] = useState(false)
-  const [batchFetching, setBatchFetching] = useState(false)
-  const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 })
-  const [uploadingPDF, setUploadingPDF] = useState(false)
+  const [uploadingDocument, setUploadingDocument] = useState(false)
   const [cefrNormalized, setCefrNormalized] = useState(false)
   const [pdfUploadResult, setPdfUploadResult] = useState<{
     message: string
     total_extracted: number
     already_exists: number
     new_words: number
+    title: string | null // Title of the document, kept with the sentences words were met in
   } | null>(null)
   const [pdfPreviewWords, setPdfPreviewWords] = useState<string[]>([])
+  const [pdfPreviewForms, setPdfPreviewForms] = useState<Record<string, string[]>>({}) // Forms seen per extracted word
+  const [pdfPreviewDetails, setPdfPreviewDetails] = useState<Record<string, PdfWordDetails>>({})
+  const [pdfProperNouns, setPdfProperNouns] = useState<string[]>([])
+  const [pdfAboveLevelOnly, setPdfAboveLevelOnly] = useState(false)
+  const [documentUrl, setDocumentUrl] = useState('') // Link to import a web page from
   const [showPdfPreview, setShowPdfPreview] = useState(false)
   const [editingPreviewWord, setEditingPreviewWord] = useState<{ index: number, value: string } | null>(null)
+  const [liveFill, setLiveFill] = useState<Record<string, LiveFillStatus>>({}) // Per-word progress of a streamed fill
+  const [liveFilling, setLiveFilling] = useState(false)
+  const [glossing, setGlossing] = useState(false)
+  const {
+    job: batchJob,
+    isActive: batchFetching,
+    start: startEnrichmentJob,
+    cancel: cancelEnrichmentJob,
+  } = useEnrichmentJob(job => handleBatchFetchFinished(job)) // Background auto-fill job
+  const offline = useOfflineSync(user?.id, settings.syncConflicts, result => handleOfflineSynced(result)) // Sends changes made offline
+  const workOffline = settings.offlineMode && !offline.online // Changes go to this browser's copy of the library
 
   // Helper function to check if a field has actual content (not empty or whitespace)
   const hasContent = (value: string | null | undefined): boolean => {
@@ -68,14 +135,15 @@ export default function Home() {
     return value.trim().length > 0
   }
 
-  // This function runs ONCE when the page loads (empty dependency array [] means "only once")
+  // This function runs when the page loads and again when a different user signs in
   useEffect(() => {
     setIsMounted(true)
-    const initializeApp = async () => {
-      await fetchWords()
+    if (!user) {
+      setWords([])
+      return
     }
-    initializeApp()
-  }, [])
+    fetchWords()
+  }, [user?.id])
 
   // Auto-normalize CEFR levels after words are loaded (only once)
   useEffect(() => {
@@ -97,64 +165,61 @@ export default function Home() {
 
   // Function to get all words from Supabase database
   const fetchWords = async () => {
+    if (!user) return
     try {
       setLoading(true)
-      // Query the database: SELECT * FROM vocab_library
+      // Offline, the library comes from the copy kept in this browser
+      if (workOffline) {
+        setWords(await readLibrary<VocabWord>(user.id))
+        setError(null)
+        return
+      }
+
+      // Query the database: SELECT * FROM vocab_library WHERE user_id = ...
       const { data, error: fetchError } = await supabase
         .from('vocab_library')
-        .select('*')
+        .select('*, senses:vocab_senses(*), contexts:vocab_contexts(*)')
+        .eq('user_id', user.id)
         .order('id', { ascending: false }) // Show newest words first
 
       if (fetchError) throw fetchError // If error, stop and show it
-      setWords(data || []) // Store the words in memory
+      // Store the words in memory, and in the offline copy with changes not yet synced on top
+      setWords(settings.offlineMode ? await replaceLibrary<VocabWord>(user.id, data || []) : data || [])
       setError(null) // Clear any previous errors
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch words')
-      setWords([])
+      setWords(settings.offlineMode ? await readLibrary<VocabWord>(user.id).catch(() => []) : [])
     } finally {
       setLoading(false) // Stop showing "loading" spinner
     }
   }
 
-  // Function to check if a word is already in library (including plural/variations)
-  const isWordDuplicate = (newWord: string): string | null => {
-    const lowerNewWord = newWord.toLowerCase().trim()
-    
-    for (const word of words) {
-      const existingWord = word.word.toLowerCase()
-      
-      // Exact match
-      if (existingWord === lowerNewWord) {
-        return word.word
-      }
-      
-      // Check plural variations
-      // If new word ends with 's', check if removing it matches
-      if (lowerNewWord.endsWith('s')) {
-        const singular = lowerNewWord.slice(0, -1)
-        if (existingWord === singular) {
-          return word.word
-        }
-        // Check for words ending in 'es'
-        if (lowerNewWord.endsWith('es')) {
-          const singularEs = lowerNewWord.slice(0, -2)
-          if (existingWord === singularEs) {
-            return word.word
-          }
-        }
-      }
-      
-      // If existing word + 's' matches new word
-      if (existingWord + 's' === lowerNewWord) {
-        return word.word
-      }
-      // If existing word + 'es' matches new word
-      if (existingWord + 'es' === lowerNewWord) {
-        return word.word
-      }
-    }
-    
-    return null
+  // Applies a change to the offline copy and queues it until the connection is back
+  const saveOffline = async (mutation: Mutation) => {
+    if (!user) return
+    setWords(await queueChange<VocabWord>(user.id, mutation))
+    await offline.refreshPending()
+  }
+
+  // Reloads the library once the changes made offline are saved
+  const handleOfflineSynced = (result: SyncResult) => {
+    if (result.dropped.length > 0) setError(result.dropped.join(' '))
+    fetchWords()
+  }
+
+  // Function to find the word in the library that a new word is a form of,
+  // e.g. "run" for "running", "ran" or "runs"
+  const isWordDuplicate = (newWord: string): VocabWord | null => {
+    const language = getLanguage(selectedLanguage)
+    const keys = lemmaKeys(newWord, language)
+
+    return words.find(word =>
+      getLanguageById(word.lang_id) === language && (
+        keys.includes(word.word.toLowerCase()) ||
+        keys.includes(lemmatize(word.word, language)) ||
+        (word.forms || []).some(form => keys.includes(form))
+      )
+    ) || null
   }
 
   // Function to handle form submission (when user clicks "Add Word")
@@ -167,22 +232,56 @@ export default function Home() {
       return
     }
 
-    // Check for duplicates and word variations
-    const duplicateWord = isWordDuplicate(inputValue)
-    if (duplicateWord) {
-      setError(`"${inputValue}" is a variation of "${duplicateWord}" which already exists!`)
+    // Check for duplicates and other forms of a word already in the library
+    const language = getLanguage(selectedLanguage)
+    const typed = inputValue.trim()
+    const duplicate = isWordDuplicate(typed)
+    if (duplicate) {
+      // Remember the form, so lookups and imports recognize it too
+      const forms = mergeForms(duplicate.word, duplicate.forms, [typed])
+      if (forms && (workOffline || isLocalId(duplicate.id))) {
+        await saveOffline({ kind: 'update', id: duplicate.id, fields: { forms }, base: { forms: duplicate.forms || [] }, changedAt: new Date().toISOString() })
+      } else if (forms) {
+        const { error: formsError } = await supabase
+          .from('vocab_library')
+          .update({ forms })
+          .eq('id', duplicate.id)
+        if (!formsError) {
+          setWords(prev => prev.map(w => w.id === duplicate.id ? { ...w, forms } : w))
+        }
+      }
+      setError(duplicate.word.toLowerCase() === typed.toLowerCase()
+        ? `"${typed}" already exists in your library!`
+        : `"${typed}" is a form of "${duplicate.word}" which already exists!`)
       return
     }
 
+    // Store the dictionary form, keeping the spelling of words that are their own lemma
+    const lemma = lemmatize(typed, language)
+    const word = lemma === typed.toLowerCase() ? typed : lemma
+
     try {
       setLoading(true)
+      if (workOffline) {
+        await saveOffline({
+          kind: 'add',
+          id: localWordId(),
+          fields: { word, forms: mergeForms(word, [], [typed]) || [], lang_id: language.id },
+          changedAt: new Date().toISOString(),
+        })
+        setInputValue('')
+        return
+      }
+
       // Try to insert the word into database
       const { error: insertError } = await supabase
         .from('vocab_library')
         .insert([
           {
-            word: inputValue.trim(),
-            lang_id: selectedLanguage === 'en' ? 1 : 2, // 1=English, 2=Japanese
+            word,
+            forms: mergeForms(word, [], [typed]) || [],
+            lang_id: language.id,
+            user_id: user?.id,
           },
         ])
 
@@ -209,6 +308,11 @@ export default function Home() {
   // Function to delete a word (optional)
   const handleDeleteWord = async (id: number) => {
     try {
+      if (workOffline || isLocalId(id)) {
+        await saveOffline({ kind: 'delete', id, changedAt: new Date().toISOString() })
+        return
+      }
+
       const { error: deleteError } = await supabase
         .from('vocab_library')
         .delete()
@@ -224,11 +328,13 @@ export default function Home() {
   // Function to start editing a word
   const handleEditWord = (word: VocabWord) => {
     setEditingWord(word)
+    setEditSenses(null)
     setEditFormData({
       word: word.word,
       part_of_speech: word.part_of_speech || '',
       cefr_level: word.cefr_level || '',
       meaning_primary: word.meaning_primary || '',
+      meaning_native: word.native_lang === settings.nativeLanguage ? word.meaning_native || '' : '',
       usage_tips: word.usage_tips || ''
     })
     setError(null)
@@ -241,18 +347,37 @@ export default function Home() {
 
     try {
       setLoading(true)
+      const changes: WordFields = {
+        word: editFormData.word.trim(),
+        part_of_speech: editFormData.part_of_speech.trim() || null,
+        cefr_level: editFormData.cefr_level.trim() || null,
+        meaning_primary: editFormData.meaning_primary.trim() || null,
+        usage_tips: editFormData.usage_tips.trim() || null,
+        // The gloss field only shows the gloss in the current native language
+        ...(settings.nativeLanguage && {
+          meaning_native: editFormData.meaning_native.trim() || null,
+          native_lang: editFormData.meaning_native.trim() ? settings.nativeLanguage : null
+        })
+      }
+
+      if (workOffline || isLocalId(editingWord.id)) {
+        if (editSenses) throw new Error('Senses can only be changed online')
+        const base = Object.fromEntries(Object.keys(changes).map(field => [field, editingWord[field as keyof VocabWord] ?? null]))
+        await saveOffline({ kind: 'update', id: editingWord.id, fields: changes, base, changedAt: new Date().toISOString() })
+        setEditingWord(null)
+        return
+      }
+
       const { error: updateError } = await supabase
         .from('vocab_library')
-        .update({
-          word: editFormData.word.trim(),
-          part_of_speech: editFormData.part_of_speech.trim() || null,
-          cefr_level: editFormData.cefr_level.trim() || null,
-          meaning_primary: editFormData.meaning_primary.trim() || null,
-          usage_tips: editFormData.usage_tips.trim() || null
-        })
+        .update(changes)
         .eq('id', editingWord.id)
 
       if (updateError) throw updateError
+
+      if (editSenses) {
+        await saveSenses(supabase, editingWord.id, editSenses)
+      }
       
       setEditingWord(null)
       await fetchWords()
@@ -263,6 +388,33 @@ export default function Home() {
     }
   }
 
+  // Senses shown in the edit form: the changed list, or the saved one
+  const currentEditSenses: VocabSense[] = editSenses ?? sortSenses(editingWord?.senses)
+
+  // Makes a sense the primary one and shows it as the word's meaning
+  const handleMakePrimarySense = (index: number) => {
+    const sense = currentEditSenses[index]
+    setEditSenses(currentEditSenses.map((s, i) => ({ ...s, is_primary: i === index })))
+    setEditFormData({
+      ...editFormData,
+      meaning_primary: sense.definition,
+      part_of_speech: sense.part_of_speech || editFormData.part_of_speech,
+    })
+  }
+
+  // Moves a sense up (-1) or down (1) in the list
+  const handleMoveSense = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= currentEditSenses.length) return
+    const reordered = [...currentEditSenses]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setEditSenses(reordered)
+  }
+
+  const handleRemoveSense = (index: number) => {
+    setEditSenses(currentEditSenses.filter((_, i) => i !== index))
+  }
+
   // Function to cancel editing
   const handleCancelEdit = () => {
     setEditingWord(null)
@@ -280,12 +432,17 @@ export default function Home() {
       setFetchingDictionary(true)
       setError(null)
 
-      const response = await fetch('/api/fetch-dictionary', {
+      const response = await apiFetch('/api/fetch-dictionary', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ word: editFormData.word.trim() }),
+        body: JSON.stringify({
+          word: editFormData.word.trim(),
+          dictionary: settings.defaultDictionary,
+          language: getLanguageById(editingWord?.lang_id).code,
+          maxDefinitions: settings.maxDefinitions,
+        }),
       })
 
       const result = await response.json()
@@ -303,6 +460,9 @@ export default function Home() {
           meaning_primary: result.data.meaning_primary || editFormData.meaning_primary,
           usage_tips: result.data.usage_tips || editFormData.usage_tips,
         })
+        if (result.data.senses?.length > 0) {
+          setEditSenses(result.data.senses)
+        }
       } else {
         throw new Error('Invalid response from dictionary service')
       }
@@ -313,7 +473,7 @@ export default function Home() {
     }
   }
 
-  // Function to fetch dictionary data for all incomplete words in batch
+  // Function to fetch dictionary data for all incomplete words in a background job
   const handleBatchFetch = async () => {
     const incompleteWords = words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech))
     
@@ -322,132 +482,233 @@ export default function Home() {
       return
     }
 
-    const CHUNK_SIZE = 100
-    const totalChunks = Math.ceil(incompleteWords.length / CHUNK_SIZE)
+    try {
+      setError(null)
+      console.log(`🚀 Starting background job for ${incompleteWords.length} words...`)
+
+      await startEnrichmentJob({
+        wordIds: incompleteWords.map(w => w.id),
+        dictionary: settings.defaultDictionary,
+        deleteNotFound: true,
+        maxDefinitions: settings.maxDefinitions,
+      })
+    } catch (err) {
+      console.error('Batch fetch error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to batch fetch dictionary data')
+    }
+  }
+
+  // Called once the background job finishes
+  const handleBatchFetchFinished = async (job: EnrichmentJobProgress) => {
+    // Refresh the word list
+    await fetchWords()
+
+    if (job.status === 'failed') {
+      setError(job.error || 'Failed to batch fetch dictionary data')
+      return
+    }
+
+    let message = job.status === 'cancelled'
+      ? `⏹️ Stopped after ${job.processed} of ${job.total} words:\n\n`
+      : `✅ Successfully processed ${job.total} words:\n\n`
+    message += `• ${job.updated} words found and updated from the dictionaries\n`
+    if (job.notFound > 0) {
+      message += `• ${job.notFound} invalid words deleted (not found in dictionary)\n`
+    }
+    if (job.unavailable > 0) {
+      message += `• ${job.unavailable} words could not be looked up (dictionaries unavailable) and can be retried\n`
+    }
+    if (job.failed > 0) {
+      message += `• ${job.failed} words failed and can be retried\n`
+    }
+    if (job.notFoundWords.length > 0 && job.notFound <= 10) {
+      message += `\nDeleted words: ${job.notFoundWords.join(', ')}`
+    } else if (job.notFound > 10) {
+      message += `\nDeleted ${job.notFound} invalid words`
+    }
+    
+    alert(message)
+  }
+
+  // Function to delete all incomplete words
+  // Closes the incomplete words modal; a running live fill keeps going in the background
+  const closeIncompleteList = () => {
+    setShowIncompleteList(false)
+    if (!liveFilling) setLiveFill({})
+  }
+
+  // Fills incomplete words while streaming per-word progress from the batch route
+  const handleLiveFill = async () => {
+    const incompleteWords = words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech))
+
+    if (incompleteWords.length === 0) {
+      setError('All words already have complete information!')
+      return
+    }
+
+    const setStatus = (word: string, status: LiveFillStatus) => {
+      setLiveFill(prev => ({ ...prev, [word]: status }))
+    }
 
     try {
-      setBatchFetching(true)
-      setBatchProgress({ current: 0, total: incompleteWords.length })
+      setLiveFilling(true)
       setError(null)
+      setLiveFill(Object.fromEntries(incompleteWords.map(w => [w.word, { status: 'pending' } as LiveFillStatus])))
+
+      // The batch route handles one language at a time
+      for (const language of LANGUAGES) {
+        const inLanguage = incompleteWords.filter(w => getLanguageById(w.lang_id) === language)
+
+        // The route fills at most 100 words per request
+        for (let i = 0; i < inLanguage.length; i += 100) {
+          const group = inLanguage.slice(i, i + 100)
+
+          const response = await apiFetch('/api/fetch-dictionary-batch', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Accept': 'text/event-stream',
+            },
+            body: JSON.stringify({
+              words: group.map(w => w.word),
+              dictionary: settings.defaultDictionary,
+              language: language.code,
+              maxDefinitions: settings.maxDefinitions,
+              stream: true,
+            }),
+          })
 
-      console.log(`🚀 Starting batch fetch for ${incompleteWords.length} words in ${totalChunks} chunk(s)...`)
+          if (!response.ok) {
+            const result = await response.json().catch(() => ({}))
+            throw new Error(result.error || 'Failed to fetch batch dictionary data')
+          }
 
-      let totalUpdated = 0
-      let totalDeleted = 0
-      const allFailedWords: string[] = []
+          await readEventStream<BatchEvent>(response, async (event) => {
+            switch (event.type) {
+              case 'scraped':
+                setStatus(event.word, { status: 'scraped', detail: event.source })
+                break
+              case 'failed':
+                setStatus(event.word, { status: 'failed', detail: event.reason })
+                break
+              case 'enriched': {
+                const wordToUpdate = group.find(w => w.word === event.word)
+                if (!wordToUpdate) break
+
+                const fields = {
+                  part_of_speech: event.data.part_of_speech || null,
+                  cefr_level: event.data.cefr_level || null,
+                  meaning_primary: event.data.meaning_primary || null,
+                  usage_tips: event.data.usage_tips || null
+                }
+
+                // A word added offline and not synced yet only exists in this browser's copy,
+                // so its fields are queued like an edit; senses can only be saved online
+                if (workOffline || isLocalId(wordToUpdate.id)) {
+                  const base = Object.fromEntries(Object.keys(fields).map(field => [field, wordToUpdate[field as keyof VocabWord] ?? null]))
+                  try {
+                    await saveOffline({ kind: 'update', id: wordToUpdate.id, fields, base, changedAt: new Date().toISOString() })
+                  } catch (err) {
+                    console.error(err)
+                    setStatus(event.word, { status: 'failed', detail: 'Could not save to this browser' })
+                    break
+                  }
+                  setStatus(event.word, { status: 'enriched', detail: event.data.meaning_primary })
+                  break
+                }
+
+                const { error: updateError } = await supabase
+                  .from('vocab_library')
+                  .update(fields)
+                  .eq('id', wordToUpdate.id)
+
+                if (updateError) {
+                  setStatus(event.word, { status: 'failed', detail: 'Could not save to database' })
+                  break
+                }
+
+                // Senses add to the fields; the word counts as enriched even if they cannot be saved
+                const senses = await saveSenses(supabase, wordToUpdate.id, event.data.senses).catch(err => {
+                  console.error(err)
+                  return wordToUpdate.senses
+                })
 
-      // Process in chunks of 100
-      for (let i = 0; i < incompleteWords.length; i += CHUNK_SIZE) {
-        const chunk = incompleteWords.slice(i, i + CHUNK_SIZE)
-        const chunkNum = Math.floor(i / CHUNK_SIZE) + 1
-        
-        console.log(`\n📦 Processing chunk ${chunkNum}/${totalChunks} (${chunk.length} words)...`)
+                // Show the partial result in the word list right away
+                setWords(prev => prev.map(w => w.id === wordToUpdate.id ? { ...w, ...fields, senses } as VocabWord : w))
+                setStatus(event.word, { status: 'enriched', detail: event.data.meaning_primary })
+                break
+              }
+              case 'error':
+                throw new Error(event.error)
+            }
+          })
+        }
+      }
+    } catch (err) {
+      console.error('Live fill error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to batch fetch dictionary data')
+    } finally {
+      setLiveFilling(false)
+    }
+  }
+
+  // Words with a meaning but no gloss in the learner's native language
+  const wordsWithoutGloss = settings.nativeLanguage
+    ? words.filter(w =>
+        hasContent(w.meaning_primary) &&
+        getLanguageById(w.lang_id).code !== settings.nativeLanguage &&
+        (w.native_lang !== settings.nativeLanguage || !hasContent(w.meaning_native))
+      )
+    : []
+
+  // Function to translate meanings into the learner's native language
+  const handleTranslateGlosses = async () => {
+    if (wordsWithoutGloss.length === 0) return
+
+    try {
+      setGlossing(true)
+      setError(null)
+
+      const ids = wordsWithoutGloss.map(w => w.id)
+      let translated = 0
 
-        const response = await fetch('/api/fetch-dictionary-batch', {
+      // The route glosses at most 200 words per request
+      for (let i = 0; i < ids.length; i += 200) {
+        const response = await apiFetch('/api/translate-glosses', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ words: chunk.map(w => w.word) }),
+          body: JSON.stringify({
+            ids: ids.slice(i, i + 200),
+            target: settings.nativeLanguage,
+          }),
         })
 
         const result = await response.json()
 
         if (!response.ok) {
-          throw new Error(result.error || 'Failed to fetch batch dictionary data')
+          throw new Error(result.error || 'Failed to translate meanings')
         }
 
-        if (result.success && result.data) {
-          console.log(`✅ Received data for ${result.data.length} words in chunk ${chunkNum}...`)
-          
-          // Get list of words that failed (not found in Cambridge Dictionary)
-          const failedWords = result.failed || []
-          allFailedWords.push(...failedWords)
-          const wordsToDelete = chunk.filter(w => 
-            failedWords.includes(w.word) || 
-            !result.data.find((d: any) => d.word.toLowerCase() === w.word.toLowerCase())
-          )
-          
-          // Delete invalid words using batch delete
-          if (wordsToDelete.length > 0) {
-            console.log(`🗑️  Deleting ${wordsToDelete.length} invalid words from chunk ${chunkNum}...`)
-            const idsToDelete = wordsToDelete.map(w => w.id)
-            
-            const { error: deleteError } = await supabase
-              .from('vocab_library')
-              .delete()
-              .in('id', idsToDelete)
-
-            if (!deleteError) {
-              totalDeleted += wordsToDelete.length
-              console.log(`  ✅ Deleted ${wordsToDelete.length} words`)
-            } else {
-              console.error(`  ❌ Failed to delete words:`, deleteError)
-            }
-          }
-          
-          // Batch update words found in Cambridge Dictionary
-          if (result.data.length > 0) {
-            for (const wordData of result.data) {
-              const wordToUpdate = chunk.find(w => w.word.toLowerCase() === wordData.word.toLowerCase())
-              if (!wordToUpdate) continue
-
-              const { error: updateError } = await supabase
-                .from('vocab_library')
-                .update({
-                  part_of_speech: wordData.part_of_speech || null,
-                  cefr_level: wordData.cefr_level || null,
-                  meaning_primary: wordData.meaning_primary || null,
-                  usage_tips: wordData.usage_tips || null
-                })
-                .eq('id', wordToUpdate.id)
-
-              if (!updateError) {
-                totalUpdated++
-              }
-            }
-            console.log(`  ✅ Updated ${result.data.length} words from chunk ${chunkNum}`)
-          }
-        }
-
-        // Update progress
-        setBatchProgress({ current: i + chunk.length, total: incompleteWords.length })
-        
-        // Small delay between chunks to avoid overwhelming the server
-        if (chunkNum < totalChunks) {
-          await new Promise(resolve => setTimeout(resolve, 1000))
-        }
+        const glosses = new Map<number, string>(result.data.map((item: { id: number, meaning_native: string }) => [item.id, item.meaning_native]))
+        setWords(prev => prev.map(w => glosses.has(w.id)
+          ? { ...w, meaning_native: glosses.get(w.id), native_lang: settings.nativeLanguage }
+          : w
+        ))
+        translated += result.translated
       }
 
-      console.log(`\n✅ Batch update complete: ${totalUpdated} words updated, ${totalDeleted} invalid words deleted`)
-      
-      // Refresh the word list
-      await fetchWords()
-      
-      setError(null)
-      
-      let message = `✅ Successfully processed ${incompleteWords.length} words:\n\n`
-      message += `• ${totalUpdated} words found and updated from Cambridge Dictionary\n`
-      if (totalDeleted > 0) {
-        message += `• ${totalDeleted} invalid words deleted (not found in dictionary)\n`
-      }
-      if (allFailedWords.length > 0 && allFailedWords.length <= 10) {
-        message += `\nDeleted words: ${allFailedWords.join(', ')}`
-      } else if (allFailedWords.length > 10) {
-        message += `\nDeleted ${allFailedWords.length} invalid words`
+      if (translated < ids.length) {
+        setError(`Translated ${translated} of ${ids.length} meanings. Check the server logs for the rest.`)
       }
-      
-      alert(message)
     } catch (err) {
-      console.error('Batch fetch error:', err)
-      setError(err instanceof Error ? err.message : 'Failed to batch fetch dictionary data')
+      setError(err instanceof Error ? err.message : 'Failed to translate meanings')
     } finally {
-      setBatchFetching(false)
-      setBatchProgress({ current: 0, total: 0 })
+      setGlossing(false)
     }
   }
 
-  // Function to delete all incomplete words
   const handleDeleteIncomplete = async () => {
     const incompleteWords = words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech))
     
@@ -495,11 +756,12 @@ export default function Home() {
   // Function to normalize CEFR levels in database
   const handleNormalizeCEFR = async () => {
     try {
+      // Levels are checked against the scale of the word's language (CEFR, JLPT, ...)
       const wordsToFix = words.filter(w => {
         if (!w.cefr_level || w.cefr_level.trim() === '') return false
-        const level = w.cefr_level.toUpperCase().trim()
+        const level = getLanguageById(w.lang_id).levels.normalize(w.cefr_level)
         // Check if it needs normalization (not already in correct format)
-        return w.cefr_level !== level && ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'].includes(level)
+        return level !== undefined && w.cefr_level !== level
       })
 
       if (wordsToFix.length === 0) {
@@ -510,7 +772,7 @@ export default function Home() {
       console.log(`🔧 Normalizing ${wordsToFix.length} CEFR levels...`)
 
       for (const word of wordsToFix) {
-        const normalizedLevel = word.cefr_level!.toUpperCase().trim()
+        const normalizedLevel = getLanguageById(word.lang_id).levels.normalize(word.cefr_level)
         await supabase
           .from('vocab_library')
           .update({ cefr_level: normalizedLevel })
@@ -571,27 +833,20 @@ export default function Home() {
     }
   }
 
-  // Function to handle PDF file upload
-  const handlePDFUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    // Verify it's a PDF
-    if (file.type !== 'application/pdf') {
-      setError('Please upload a PDF file')
-      return
-    }
-
+  // Sends a document or a link to the import route and shows the words found for review
+  const importDocument = async (source: { file: File } | { url: string }) => {
     try {
-      setUploadingPDF(true)
+      setUploadingDocument(true)
       setError(null)
       setPdfUploadResult(null)
 
       const formData = new FormData()
-      formData.append('file', file)
+      if ('file' in source) formData.append('file', source.file)
+      else formData.append('url', source.url)
       formData.append('preview', 'true') // Enable preview mode
+      formData.append('language', selectedLanguage)
 
-      const response = await fetch('/api/upload-pdf', {
+      const response = await apiFetch('/api/upload-document', {
         method: 'POST',
         body: formData
       })
@@ -599,42 +854,91 @@ export default function Home() {
       const result = await response.json()
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to process PDF')
+        throw new Error(result.error || 'Failed to process document')
       }
 
       // Show preview modal with extracted words
       setPdfPreviewWords(result.words || [])
+      setPdfPreviewForms(result.forms || {})
+      setPdfPreviewDetails(result.details || {})
+      setPdfProperNouns(result.proper_nouns || [])
       setShowPdfPreview(true)
       setPdfUploadResult({
         message: result.message,
         total_extracted: result.total_extracted,
         already_exists: result.already_exists,
-        new_words: result.new_words
+        new_words: result.new_words,
+        title: result.title || null
       })
-
-      // Clear the file input
-      event.target.value = ''
-      
+      return true
     } catch (err) {
-      console.error('PDF upload error:', err)
-      setError(err instanceof Error ? err.message : 'Failed to upload PDF')
+      console.error('Document import error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import document')
+      return false
     } finally {
-      setUploadingPDF(false)
+      setUploadingDocument(false)
     }
   }
 
+  // Function to handle document file upload
+  const handleDocumentUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    // Verify it's a format we can read
+    if (!detectFormat(file.name, file.type)) {
+      setError(`Please upload a ${DOCUMENT_FORMATS.map(f => f.name).join(', ')} file`)
+      event.target.value = ''
+      return
+    }
+
+    await importDocument({ file })
+
+    // Clear the file input
+    event.target.value = ''
+  }
+
+  // Import a web page or online document from a link
+  const handleUrlImport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!documentUrl.trim()) return
+    if (await importDocument({ url: documentUrl.trim() })) setDocumentUrl('')
+  }
+
+  // With the level cutoff on, the preview hides words at or below the learner's level and
+  // they are not imported. Words without an estimated level are always kept.
+  const previewLanguage = getLanguage(selectedLanguage)
+  const previewLevel = learnerLevel(
+    previewLanguage.levels,
+    settings.difficultyLevel,
+    words.filter(w => getLanguageById(w.lang_id) === previewLanguage).map(w => w.cefr_level)
+  )
+  const visiblePreviewWords = pdfPreviewWords
+    .map((word, index) => ({ word, index, details: pdfPreviewDetails[word] as PdfWordDetails | undefined }))
+    .filter(({ details }) => {
+      if (!pdfAboveLevelOnly || !previewLevel) return true
+      const level = levelIndex(previewLanguage.levels, details?.level)
+      return level === -1 || level > levelIndex(previewLanguage.levels, previewLevel)
+    })
+
   // Confirm and insert preview words into database
   const handleConfirmPdfWords = async () => {
-    if (pdfPreviewWords.length === 0) return
+    if (visiblePreviewWords.length === 0) return
 
     try {
-      setUploadingPDF(true)
+      setUploadingDocument(true)
       setError(null)
 
-      const response = await fetch('/api/confirm-pdf-words', {
+      const response = await apiFetch('/api/confirm-document-words', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ words: pdfPreviewWords })
+        body: JSON.stringify({
+          words: visiblePreviewWords.map(w => w.word),
+          forms: pdfPreviewForms,
+          contexts: Object.fromEntries(visiblePreviewWords.map(w => [w.word, w.details?.contexts || []])),
+          title: pdfUploadResult?.title,
+          language: selectedLanguage
+        })
       })
 
       const result = await response.json()
@@ -646,6 +950,9 @@ export default function Home() {
       // Close preview and refresh word list
       setShowPdfPreview(false)
       setPdfPreviewWords([])
+      setPdfPreviewForms({})
+      setPdfPreviewDetails({})
+      setPdfProperNouns([])
       await fetchWords()
 
       // Show success message
@@ -659,7 +966,7 @@ export default function Home() {
       console.error('Error confirming words:', err)
       setError(err instanceof Error ? err.message : 'Failed to add words')
     } finally {
-      setUploadingPDF(false)
+      setUploadingDocument(false)
     }
   }
 
@@ -679,6 +986,9 @@ export default function Home() {
   const handleCancelPdfPreview = () => {
     setShowPdfPreview(false)
     setPdfPreviewWords([])
+    setPdfPreviewForms({})
+    setPdfPreviewDetails({})
+    setPdfProperNouns([])
     setPdfUploadResult(null)
   }
 
@@ -701,6 +1011,9 @@ export default function Home() {
     a.word.toLowerCase().localeCompare(b.word.toLowerCase())
   )
 
+  // Card size and content follow the appearance settings
+  const layout = wordListLayout(settings)
+
   // Calculate statistics
   const stats = {
     total: words.length,
@@ -733,7 +1046,7 @@ export default function Home() {
 
   return (
     <main className="min-h-screen bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100 p-4 md:p-8 transition-colors duration-500">
-      {/* PDF Preview Modal */}
+      {/* Import Preview Modal */}
       {showPdfPreview && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden border border-slate-200 dark:border-slate-700">
@@ -743,8 +1056,24 @@ export default function Home() {
                 <div>
                   <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Review Imported Words</h2>
                   <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-                    {pdfPreviewWords.length} words • Edit or remove words before adding to your library
+                    {visiblePreviewWords.length} words • Edit or remove words before adding to your library
                   </p>
+                  {pdfProperNouns.length > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-500 mt-1" title={pdfProperNouns.join(', ')}>
+                      {pdfProperNouns.length} names and acronyms left out
+                    </p>
+                  )}
+                  {previewLevel && (
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mt-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={pdfAboveLevelOnly}
+                        onChange={(e) => setPdfAboveLevelOnly(e.target.checked)}
+                        className="rounded"
+                      />
+                      Only words above my level ({previewLevel})
+                    </label>
+                  )}
                 </div>
                 <button
                   onClick={handleCancelPdfPreview}
@@ -760,13 +1089,15 @@ export default function Home() {
 
             {/* Words List */}
             <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)]">
-              {pdfPreviewWords.length === 0 ? (
+              {visiblePreviewWords.length === 0 ? (
                 <p className="text-center text-slate-500 dark:text-slate-400 py-8">
-                  No words to display. All extracted words already exist in your library.
+                  {pdfPreviewWords.length === 0
+                    ? 'No words to display. All extracted words already exist in your library.'
+                    : 'No words above your level. Turn off the level filter to see every word.'}
                 </p>
               ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
-                  {pdfPreviewWords.map((word, index) => (
+                  {visiblePreviewWords.map(({ word, index, details }) => (
                     <div
                       key={index}
                       className="group flex items-center gap-2 p-3 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-all"
@@ -787,6 +1118,12 @@ export default function Home() {
                       ) : (
                         <>
                           <span className="flex-1 text-sm font-medium text-slate-700 dark:text-slate-300">{word}</span>
+                          {details && (
+                            <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap" title={details.rank ? `Rank ${details.rank} in the frequency list` : undefined}>
+                              {details.phrase ? 'phrase' : details.level}
+                              {details.count > 1 && ` ×${details.count}`}
+                            </span>
+                          )}
                           <button
                             onClick={() => setEditingPreviewWord({ index, value: word })}
                             className="opacity-0 group-hover:opacity-100 p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded transition-all"
@@ -825,10 +1162,10 @@ export default function Home() {
               </button>
               <button
                 onClick={handleConfirmPdfWords}
-                disabled={pdfPreviewWords.length === 0 || uploadingPDF}
+                disabled={visiblePreviewWords.length === 0 || uploadingDocument}
                 className="px-6 py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center gap-2"
               >
-                {uploadingPDF ? (
+                {uploadingDocument ? (
                   <>
                     <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"></circle>
@@ -841,7 +1178,7 @@ export default function Home() {
                     <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                       <polyline points="20 6 9 17 4 12"></polyline>
                     </svg>
-                    Add {pdfPreviewWords.length} Words to Library
+                    Add {visiblePreviewWords.length} Words to Library
                   </>
                 )}
               </button>
@@ -889,10 +1226,10 @@ export default function Home() {
                   <span className="absolute -top-1 -right-1 bg-amber-600 dark:bg-amber-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">{words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech)).length}</span>
                 </button>
                 <button
-                  onClick={handleBatchFetch}
-                  disabled={batchFetching || words.length === 0}
+                  onClick={batchFetching ? cancelEnrichmentJob : handleBatchFetch}
+                  disabled={words.length === 0}
                   className="px-4 py-2.5 bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 text-slate-700 dark:text-slate-300 rounded-full hover:bg-slate-50 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center gap-2"
-                  title={`Fill info for ${words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech)).length} incomplete words`}
+                  title={batchFetching ? 'Click to stop the auto-fill job' : `Fill info for ${words.filter(w => !hasContent(w.meaning_primary) || !hasContent(w.part_of_speech)).length} incomplete words`}
                 >
                 {batchFetching ? (
                   <>
@@ -900,7 +1237,7 @@ export default function Home() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>{batchProgress.current}/{batchProgress.total}</span>
+                    <span>{batchJob?.processed ?? 0}/{batchJob?.total ?? 0}</span>
                   </>
                 ) : (
                   <>
@@ -914,6 +1251,33 @@ export default function Home() {
               </button>
             </>
           )}
+
+            {/* Gloss Button */}
+            {wordsWithoutGloss.length > 0 && (
+              <button
+                onClick={handleTranslateGlosses}
+                disabled={glossing}
+                className="px-4 py-2.5 bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 text-slate-700 dark:text-slate-300 rounded-full hover:bg-slate-50 dark:hover:bg-slate-800 hover:border-slate-300 dark:hover:border-slate-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center gap-2"
+                title={`Translate ${wordsWithoutGloss.length} meanings into your native language`}
+              >
+                {glossing ? (
+                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                ) : (
+                  <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="m5 8 6 6"/>
+                    <path d="m4 14 6-6 2-3"/>
+                    <path d="M2 5h12"/>
+                    <path d="M7 2h1"/>
+                    <path d="m22 22-5-10-5 10"/>
+                    <path d="M14 18h6"/>
+                  </svg>
+                )}
+                <span>Translate ({wordsWithoutGloss.length})</span>
+              </button>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -929,6 +1293,19 @@ export default function Home() {
               )}
             </button>
 
+            <a
+              href="/stats"
+              className="p-3 rounded-full bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 text-slate-600 dark:text-slate-400 hover:text-blue-500 transition-all duration-300 shadow-sm cursor-pointer"
+              aria-label="Statistics"
+              title="Statistics"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <line x1="18" y1="20" x2="18" y2="10"/>
+                <line x1="12" y1="20" x2="12" y2="4"/>
+                <line x1="6" y1="20" x2="6" y2="14"/>
+              </svg>
+            </a>
+
             <a
               href="/settings"
               className="p-3 rounded-full bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 text-slate-600 dark:text-slate-400 hover:text-blue-500 transition-all duration-300 shadow-sm cursor-pointer"
@@ -972,29 +1349,45 @@ export default function Home() {
         {/* Language Selector */}
         <div className="mb-8 flex justify-center">
           <div className="inline-flex bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm rounded-full p-1.5 shadow-sm border border-slate-200/50 dark:border-slate-700/50">
-            <button
-              onClick={() => setSelectedLanguage('en')}
-              className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 ${
-                selectedLanguage === 'en'
-                  ? 'bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 shadow-md'
-                  : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
-              }`}
-            >
-              English
-            </button>
-            <button
-              onClick={() => setSelectedLanguage('ja')}
-              className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 ${
-                selectedLanguage === 'ja'
-                  ? 'bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 shadow-md'
-                  : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
-              }`}
-            >
-              日本語
-            </button>
+            {LANGUAGES.map(language => (
+              <button
+                key={language.code}
+                onClick={() => setSelectedLanguage(language.code)}
+                className={`px-6 py-2.5 rounded-full text-sm font-medium transition-all duration-300 ${
+                  selectedLanguage === language.code
+                    ? 'bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 shadow-md'
+                    : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+                }`}
+              >
+                {language.nativeName}
+              </button>
+            ))}
           </div>
         </div>
 
+        {/* Offline Status */}
+        {settings.offlineMode && (!offline.online || offline.pending > 0) && (
+          <div className="mb-8 mx-auto max-w-2xl">
+            <div className="p-4 bg-amber-50/80 dark:bg-amber-900/20 backdrop-blur-sm border border-amber-100 dark:border-amber-900/30 rounded-2xl text-amber-700 dark:text-amber-400 text-sm flex items-center justify-between gap-4">
+              <span>
+                {!offline.online
+                  ? `📴 You're offline. Words you add, edit or delete are kept on this device${offline.pending > 0 ? ` (${offline.pending} change${offline.pending > 1 ? 's' : ''} to sync)` : ''}.`
+                  : offline.syncing
+                    ? `🔄 Syncing ${offline.pending} offline change${offline.pending > 1 ? 's' : ''}...`
+                    : `⏳ ${offline.pending} offline change${offline.pending > 1 ? 's' : ''} waiting to sync`}
+              </span>
+              {offline.online && !offline.syncing && (
+                <button
+                  onClick={offline.sync}
+                  className="px-3 py-1 rounded-full bg-amber-100 dark:bg-amber-900/40 hover:bg-amber-200 dark:hover:bg-amber-900/60 font-medium transition-colors"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Error Message Display */}
         {error && (
           <div className="mb-8 mx-auto max-w-2xl">
@@ -1012,7 +1405,7 @@ export default function Home() {
                 type="text"
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
-                placeholder={selectedLanguage === 'en' ? 'Add a word...' : '単語を追加...'}
+                placeholder={getLanguage(selectedLanguage).placeholder}
                 className="flex-1 px-5 py-4 bg-transparent focus:outline-none text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500"
                 disabled={loading}
               />
@@ -1027,7 +1420,7 @@ export default function Home() {
           </div>
         </form>
 
-        {/* PDF Upload Section */}
+        {/* Document Import Section */}
         <div className="mb-8 mx-auto max-w-2xl">
           <div className="bg-white/60 dark:bg-slate-800/60 backdrop-blur-sm p-6 rounded-2xl border border-slate-200/50 dark:border-slate-700/50">
             <div className="flex items-center justify-between gap-4">
@@ -1040,28 +1433,28 @@ export default function Home() {
                     <line x1="16" y1="17" x2="8" y2="17"/>
                     <polyline points="10 9 9 9 8 9"/>
                   </svg>
-                  Import from PDF
+                  Import from a document
                 </h3>
                 <p className="text-xs text-slate-500 dark:text-slate-400">
-                  Upload a PDF document to extract vocabulary words automatically
+                  Upload a PDF, EPUB, Word, HTML, text or subtitle file to extract vocabulary words automatically
                 </p>
               </div>
               <div>
                 <input
                   type="file"
-                  accept=".pdf"
-                  onChange={handlePDFUpload}
-                  disabled={uploadingPDF}
+                  accept={ACCEPTED_FILE_TYPES}
+                  onChange={handleDocumentUpload}
+                  disabled={uploadingDocument}
                   className="hidden"
-                  id="pdf-upload"
+                  id="document-upload"
                 />
                 <label
-                  htmlFor="pdf-upload"
+                  htmlFor="document-upload"
                   className={`px-6 py-3 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 rounded-xl hover:bg-slate-800 dark:hover:bg-white transition-all duration-300 font-medium text-sm cursor-pointer inline-flex items-center gap-2 ${
-                    uploadingPDF ? 'opacity-50 cursor-not-allowed' : ''
+                    uploadingDocument ? 'opacity-50 cursor-not-allowed' : ''
                   }`}
                 >
-                  {uploadingPDF ? (
+                  {uploadingDocument ? (
                     <>
                       <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"></circle>
@@ -1076,14 +1469,33 @@ export default function Home() {
                         <polyline points="17 8 12 3 7 8"/>
                         <line x1="12" y1="3" x2="12" y2="15"/>
                       </svg>
-                      Choose PDF
+                      Choose File
                     </>
                   )}
                 </label>
               </div>
             </div>
+
+            {/* Import a web page by its link */}
+            <form onSubmit={handleUrlImport} className="mt-4 flex gap-2">
+              <input
+                type="url"
+                value={documentUrl}
+                onChange={(e) => setDocumentUrl(e.target.value)}
+                placeholder="…or paste a link to a web page"
+                disabled={uploadingDocument}
+                className="flex-1 px-4 py-2 text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-900 dark:text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-400 disabled:opacity-50"
+              />
+              <button
+                type="submit"
+                disabled={uploadingDocument || !documentUrl.trim()}
+                className="px-4 py-2 text-sm font-medium bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Import
+              </button>
+            </form>
             
-            {/* PDF Upload Result */}
+            {/* Import Result */}
             {pdfUploadResult && (
               <div className="mt-4 p-4 bg-slate-50/80 dark:bg-slate-900/50 rounded-xl border border-slate-200/50 dark:border-slate-700/50">
                 <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -1204,18 +1616,18 @@ export default function Home() {
                   <h2 className="text-sm font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wider mb-4">
                     Recently Added
                   </h2>
-                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  <div className={layout.grid}>
                     {recentWords.map((word, index) => (
                       <div
                         key={word.id}
                         onClick={() => handleEditWord(word)}
-                        className="group bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm rounded-2xl p-6 border border-slate-200/50 dark:border-slate-700/30 hover:shadow-lg dark:hover:shadow-slate-900/40 hover:border-slate-300/50 dark:hover:border-slate-600/50 hover:scale-105 hover:cursor-pointer transition-all duration-300 animate-fadeIn"
+                        className={`group bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm ${layout.card} border border-slate-200/50 dark:border-slate-700/30 hover:shadow-lg dark:hover:shadow-slate-900/40 hover:border-slate-300/50 dark:hover:border-slate-600/50 hover:scale-105 hover:cursor-pointer transition-all duration-300 animate-fadeIn`}
                         style={{ animationDelay: `${index * 0.05}s` }}
                         title="Click to edit"
                       >
                         <div className="flex items-start justify-between mb-3">
                           <h3 
-                            className="text-2xl font-brand font-medium text-slate-900 dark:text-slate-100 transition-colors"
+                            className={`${layout.title} font-brand font-medium text-slate-900 dark:text-slate-100 transition-colors`}
                           >
                             {word.word}
                             {word.part_of_speech && (
@@ -1249,6 +1661,16 @@ export default function Home() {
                             {word.meaning_primary}
                           </p>
                         )}
+                        {word.meaning_native && word.native_lang === settings.nativeLanguage && (
+                          <p className="mt-1 text-sm text-slate-500 dark:text-slate-500 italic leading-relaxed" lang={word.native_lang}>
+                            {word.meaning_native}
+                          </p>
+                        )}
+                        {layout.showExamples && word.usage_tips?.trim() && (
+                          <p className="mt-2 text-xs text-slate-400 dark:text-slate-500 leading-relaxed">
+                            💡 {word.usage_tips}
+                          </p>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1260,18 +1682,18 @@ export default function Home() {
                 <h2 className="text-sm font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wider mb-4">
                   All Vocabulary (A-Z)
                 </h2>
-                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                <div className={layout.grid}>
                   {alphabeticalWords.map((word, index) => (
                     <div
                       key={word.id}
                       onClick={() => handleEditWord(word)}
-                      className="group bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm rounded-2xl p-6 border border-slate-200/50 dark:border-slate-700/30 hover:shadow-lg dark:hover:shadow-slate-900/40 hover:border-slate-300/50 dark:hover:border-slate-600/50 hover:scale-105 hover:cursor-pointer transition-all duration-300 animate-fadeIn"
+                      className={`group bg-white/60 dark:bg-slate-800/40 backdrop-blur-sm ${layout.card} border border-slate-200/50 dark:border-slate-700/30 hover:shadow-lg dark:hover:shadow-slate-900/40 hover:border-slate-300/50 dark:hover:border-slate-600/50 hover:scale-105 hover:cursor-pointer transition-all duration-300 animate-fadeIn`}
                       style={{ animationDelay: `${index * 0.05}s` }}
                       title="Click to edit"
                     >
                       <div className="flex items-start justify-between mb-3">
                         <h3 
-                          className="text-2xl font-brand font-medium text-slate-900 dark:text-slate-100 transition-colors"
+                          className={`${layout.title} font-brand font-medium text-slate-900 dark:text-slate-100 transition-colors`}
                         >
                           {word.word}
                           {word.part_of_speech && (
@@ -1305,6 +1727,16 @@ export default function Home() {
                           {word.meaning_primary}
                         </p>
                       )}
+                      {word.meaning_native && word.native_lang === settings.nativeLanguage && (
+                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-500 italic leading-relaxed" lang={word.native_lang}>
+                          {word.meaning_native}
+                        </p>
+                      )}
+                      {layout.showExamples && word.usage_tips?.trim() && (
+                        <p className="mt-2 text-xs text-slate-400 dark:text-slate-500 leading-relaxed">
+                          💡 {word.usage_tips}
+                        </p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -1328,7 +1760,7 @@ export default function Home() {
                   Incomplete Words ({wordsWithoutMeaning.length + wordsWithoutPOS.length - words.filter(w => !hasContent(w.meaning_primary) && !hasContent(w.part_of_speech)).length})
                 </h2>
                 <button
-                  onClick={() => setShowIncompleteList(false)}
+                  onClick={closeIncompleteList}
                   className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1338,6 +1770,45 @@ export default function Home() {
                 </button>
               </div>
 
+              {Object.keys(liveFill).length > 0 ? (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-medium text-slate-900 dark:text-slate-100">
+                      {liveFilling ? 'Filling words...' : 'Fill complete'}
+                    </h3>
+                    <span className="text-sm text-slate-500 dark:text-slate-400">
+                      {Object.values(liveFill).filter(s => s.status === 'enriched' || s.status === 'failed').length}/{Object.keys(liveFill).length}
+                    </span>
+                  </div>
+                  <div className="grid gap-2 max-h-[50vh] overflow-y-auto p-1">
+                    {Object.entries(liveFill).map(([word, live]) => (
+                      <div
+                        key={word}
+                        className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+                          live.status === 'enriched'
+                            ? 'bg-green-50 dark:bg-green-950/20 border-green-100 dark:border-green-900/30'
+                            : live.status === 'failed'
+                            ? 'bg-red-50 dark:bg-red-950/20 border-red-100 dark:border-red-900/30'
+                            : 'bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-700/50'
+                        }`}
+                      >
+                        <div className="min-w-0">
+                          <span className="text-lg font-medium text-slate-900 dark:text-slate-100">{word}</span>
+                          {live.detail && (
+                            <p className="text-sm text-slate-600 dark:text-slate-400 truncate">{live.detail}</p>
+                          )}
+                        </div>
+                        <span className="text-xs font-medium text-slate-500 dark:text-slate-400 shrink-0">
+                          {live.status === 'pending' && 'Waiting'}
+                          {live.status === 'scraped' && 'Scraped, enriching...'}
+                          {live.status === 'enriched' && '✅ Updated'}
+                          {live.status === 'failed' && '❌ Failed'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
               <div className="space-y-6">
                 {wordsWithoutMeaning.length > 0 && (
                   <div>
@@ -1415,20 +1886,19 @@ export default function Home() {
                   </div>
                 )}
               </div>
+              )}
 
               <div className="mt-6 flex flex-col gap-3">
                 <div className="flex gap-3">
                   <button
-                    onClick={() => {
-                      setShowIncompleteList(false)
-                      handleBatchFetch()
-                    }}
-                    className="flex-1 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-colors font-medium"
+                    onClick={handleLiveFill}
+                    disabled={liveFilling || batchFetching}
+                    className="flex-1 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Fill All with Cambridge & Oxford
+                    {liveFilling ? 'Filling...' : 'Fill All with Cambridge & Oxford'}
                   </button>
                   <button
-                    onClick={() => setShowIncompleteList(false)}
+                    onClick={closeIncompleteList}
                     className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-xl hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors font-medium"
                   >
                     Close
@@ -1533,7 +2003,7 @@ export default function Home() {
 
                 <div>
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                    CEFR Level
+                    {getLanguageById(editingWord?.lang_id).levels.name} Level
                   </label>
                   <select
                     value={editFormData.cefr_level}
@@ -1541,12 +2011,9 @@ export default function Home() {
                     className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 focus:outline-none focus:border-slate-400 dark:focus:border-slate-500 text-slate-900 dark:text-white transition-colors"
                   >
                     <option value="">Select level</option>
-                    <option value="A1">A1 - Beginner</option>
-                    <option value="A2">A2 - Elementary</option>
-                    <option value="B1">B1 - Intermediate</option>
-                    <option value="B2">B2 - Upper Intermediate</option>
-                    <option value="C1">C1 - Advanced</option>
-                    <option value="C2">C2 - Proficient</option>
+                    {getLanguageById(editingWord?.lang_id).levels.levels.map(level => (
+                      <option key={level.code} value={level.code}>{level.code} - {level.label}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -1563,6 +2030,75 @@ export default function Home() {
                   />
                 </div>
 
+                {currentEditSenses.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Senses ({currentEditSenses.length})
+                    </label>
+                    <ol className="space-y-2 max-h-64 overflow-y-auto">
+                      {currentEditSenses.map((sense, index) => (
+                        <li
+                          key={sense.id ?? `new-${index}`}
+                          className={`p-3 rounded-xl border text-sm ${
+                            sense.is_primary
+                              ? 'border-blue-400 bg-blue-50 dark:bg-blue-950/30 dark:border-blue-500'
+                              : 'border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800'
+                          }`}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="text-slate-700 dark:text-slate-300">
+                              {sense.part_of_speech && (
+                                <span className="text-slate-400 dark:text-slate-500 mr-1">({sense.part_of_speech})</span>
+                              )}
+                              {sense.register && (
+                                <span className="mr-1 px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-xs text-slate-600 dark:text-slate-400">{sense.register}</span>
+                              )}
+                              {sense.definition}
+                              {sense.examples[0] && (
+                                <div className="mt-1 text-xs italic text-slate-500 dark:text-slate-400">{sense.examples[0]}</div>
+                              )}
+                              {sense.source && (
+                                <div className="mt-1 text-xs text-slate-400 dark:text-slate-500">{sense.source}</div>
+                              )}
+                            </div>
+                            <div className="flex shrink-0 items-center gap-1 text-slate-400 dark:text-slate-500">
+                              <button
+                                type="button"
+                                onClick={() => handleMakePrimarySense(index)}
+                                className={sense.is_primary ? 'text-blue-500' : 'hover:text-blue-500'}
+                                title={sense.is_primary ? 'Primary sense' : 'Use as the primary sense'}
+                              >
+                                {sense.is_primary ? '★' : '☆'}
+                              </button>
+                              <button type="button" onClick={() => handleMoveSense(index, -1)} disabled={index === 0} className="hover:text-slate-700 dark:hover:text-slate-300 disabled:opacity-30" title="Move up">↑</button>
+                              <button type="button" onClick={() => handleMoveSense(index, 1)} disabled={index === currentEditSenses.length - 1} className="hover:text-slate-700 dark:hover:text-slate-300 disabled:opacity-30" title="Move down">↓</button>
+                              {!sense.is_primary && (
+                                <button type="button" onClick={() => handleRemoveSense(index)} className="hover:text-red-500" title="Remove sense">✕</button>
+                              )}
+                            </div>
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                {settings.nativeLanguage && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Meaning in {getNativeLanguage(settings.nativeLanguage)?.nativeName || settings.nativeLanguage}
+                    </label>
+                    <input
+                      type="text"
+                      value={editFormData.meaning_native}
+                      onChange={(e) => setEditFormData({ ...editFormData, meaning_native: e.target.value })}
+                      placeholder="Short translation of the meaning"
+                      lang={settings.nativeLanguage}
+                      className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 focus:outline-none focus:border-slate-400 dark:focus:border-slate-500 text-slate-900 dark:text-white placeholder:text-slate-400 dark:placeholder:text-slate-500 transition-colors"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                     Usage Tips
@@ -0,0 +1,5 @@
+import StatsPage from '@/components/stats-page'
+
+export default function Stats() {
+  return <StatsPage />
+}
@@ -0,0 +1,77 @@
+/**
+ * Builds the English word frequency list (data/frequency/en.txt)
+ *
+ * Counts come from SUBTLEX-US, word counts in American film and TV subtitles, as packaged
+ * in the subtlex-word-frequencies npm package. Forms are counted under their lemma with the
+ * app's own English lemmatizer, so "running" and "ran" count for "run", and the most
+ * frequent lemmas are written out, most frequent first.
+ *
+ * Usage:
+ *   npm pack subtlex-word-frequencies@2.0.0 && tar xzf subtlex-word-frequencies-2.0.0.tgz
+ *   node build-frequency-list.mjs package/index.json [size]
+ *
+ * Runs without the app: the lemmatizer is compiled on the fly with the TypeScript compiler.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import Module from 'node:module'
+
+const ROOT = path.dirname(new URL(import.meta.url).pathname)
+const require = createRequire(import.meta.url)
+const ts = require('typescript')
+
+// Loads a TypeScript module, resolving the '@/' path alias and relative imports of .ts files
+function load(file) {
+  const source = fs.readFileSync(file, 'utf8')
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  })
+  const mod = new Module(file)
+  mod.paths = Module._nodeModulePaths(ROOT)
+  const requireDependency = mod.require.bind(mod)
+  mod.require = id => {
+    if (id.startsWith('@/')) return load(path.join(ROOT, `${id.slice(2)}.ts`))
+    if (id.startsWith('.')) return load(path.join(path.dirname(file), `${id}.ts`))
+    return requireDependency(id)
+  }
+  mod._compile(outputText, file)
+  return mod.exports
+}
+
+const [input, size = '20000'] = process.argv.slice(2)
+if (!input) {
+  console.error('Usage: node build-frequency-list.mjs <subtlex index.json> [size]')
+  process.exit(1)
+}
+
+const { getLanguage } = load(path.join(ROOT, 'lib/languages/registry.ts'))
+const { lemmatize } = load(path.join(ROOT, 'lib/languages/lemmatizers.ts'))
+const english = getLanguage('en')
+
+// SUBTLEX splits contractions: "don't" is counted as "don" and "t"
+const CONTRACTION_PARTS = new Set([
+  'don', 're', 'll', 've', 'isn', 'aren', 'wasn', 'weren', 'didn', 'doesn', 'haven', 'hasn',
+  'hadn', 'couldn', 'wouldn', 'shouldn', 'mustn', 'needn', 'ain',
+])
+
+const counts = new Map()
+for (const { word, count } of JSON.parse(fs.readFileSync(input, 'utf8'))) {
+  // Letters only, which skips numbers; single letters only for "a" and "I"
+  if (!/^[a-z]+(-[a-z]+)*$/i.test(word) || (word.length === 1 && !/^[ai]$/i.test(word))) continue
+  if (CONTRACTION_PARTS.has(word.toLowerCase())) continue
+  const lemma = lemmatize(word, english)
+  counts.set(lemma, (counts.get(lemma) || 0) + count)
+}
+
+const lemmas = [...counts].sort((a, b) => b[1] - a[1]).slice(0, Number(size)).map(([lemma]) => lemma)
+const header = [
+  `# The ${lemmas.length.toLocaleString('en-US')} most frequent English lemmas, most frequent first.`,
+  '# Counts from SUBTLEX-US (Brysbaert & New, 2009), word counts in film and TV subtitles,',
+  '# via the subtlex-word-frequencies npm package (ISC license). Forms are counted under',
+  '# their lemma. Built with build-frequency-list.mjs, see DEPLOYMENT.md.',
+]
+const output = path.join(ROOT, 'data/frequency/en.txt')
+fs.writeFileSync(output, [...header, ...lemmas, ''].join('\n'))
+console.log(`✅ Wrote ${lemmas.length} lemmas to ${path.relative(ROOT, output)}`)
@@ -0,0 +1,89 @@
+/**
+ * Builds the Japanese dictionary (data/jmdict.json)
+ *
+ * Downloads the latest jmdict-eng-common release of jmdict-simplified (JMdict words
+ * marked common, with English glosses) and keeps the fields lib/jmdict.ts reads. The
+ * repository only ships a small sample.
+ *
+ * Usage:
+ *   node build-jmdict.mjs
+ *   node build-jmdict.mjs jmdict-eng-common-3.6.1.json.tgz [output]
+ *
+ * With a file (.json or .json.tgz, e.g. downloaded by hand from
+ * https://github.com/scriptin/jmdict-simplified/releases), nothing is downloaded.
+ * JMdict is the property of the Electronic Dictionary Research and Development Group
+ * and is used under the CC BY-SA 4.0 licence.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import zlib from 'node:zlib'
+
+const ROOT = path.dirname(new URL(import.meta.url).pathname)
+const RELEASES = 'https://api.github.com/repos/scriptin/jmdict-simplified/releases/latest'
+const ASSET = /^jmdict-eng-common-[\d.]+\+\d+\.json\.tgz$/
+
+const [input, output = path.join(ROOT, 'data/jmdict.json')] = process.argv.slice(2)
+
+/**
+ * Downloads the archive of the latest release
+ */
+async function download() {
+  const response = await fetch(RELEASES, { headers: { Accept: 'application/vnd.github+json' } })
+  if (!response.ok) throw new Error(`Could not list releases: HTTP ${response.status}`)
+  const release = await response.json()
+  const asset = release.assets.find(a => ASSET.test(a.name))
+  if (!asset) throw new Error(`No jmdict-eng-common archive in release ${release.tag_name}`)
+
+  console.log(`⬇️  Downloading ${asset.name}`)
+  const file = await fetch(asset.browser_download_url)
+  if (!file.ok) throw new Error(`Could not download ${asset.name}: HTTP ${file.status}`)
+  return { name: asset.name, data: Buffer.from(await file.arrayBuffer()) }
+}
+
+/**
+ * The first .json file in a tar archive
+ */
+function jsonFromTar(tar) {
+  for (let offset = 0; offset + 512 <= tar.length;) {
+    const name = tar.toString('utf8', offset, offset + 100).replace(/\0.*$/s, '')
+    if (!name) break
+    const size = parseInt(tar.toString('ascii', offset + 124, offset + 136).replace(/\0.*$/s, '').trim() || '0', 8)
+    const start = offset + 512
+    if (name.endsWith('.json')) return tar.toString('utf8', start, start + size)
+    offset = start + Math.ceil(size / 512) * 512
+  }
+  throw new Error('The archive has no .json file')
+}
+
+function readDictionary({ name, data }) {
+  if (name.endsWith('.json')) return JSON.parse(data.toString('utf8'))
+  if (name.endsWith('.tgz') || name.endsWith('.tar.gz')) return JSON.parse(jsonFromTar(zlib.gunzipSync(data)))
+  throw new Error(`Expected a .json or .json.tgz file, got ${name}`)
+}
+
+// Only what lib/jmdict.ts reads, and English glosses only
+function trimWord(word) {
+  return {
+    id: word.id,
+    kanji: word.kanji.map(({ common, text }) => ({ common, text })),
+    kana: word.kana.map(({ common, text, appliesToKanji }) => ({ common, text, appliesToKanji })),
+    sense: word.sense.map(({ partOfSpeech, misc, gloss }) => ({
+      partOfSpeech,
+      ...(misc?.length > 0 && { misc }),
+      gloss: gloss.filter(g => g.lang === 'eng').map(({ lang, text }) => ({ lang, text })),
+    })),
+  }
+}
+
+const source = input ? { name: path.basename(input), data: fs.readFileSync(input) } : await download()
+const dictionary = readDictionary(source)
+const words = dictionary.words.map(trimWord)
+
+fs.writeFileSync(output, JSON.stringify({
+  version: dictionary.version,
+  dictDate: dictionary.dictDate,
+  languages: ['eng'],
+  words,
+}))
+console.log(`✅ Wrote ${words.length} words (JMdict ${dictionary.dictDate ?? 'unknown date'}) to ${path.relative(ROOT, output) || output}`)
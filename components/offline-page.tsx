@@ -0,0 +1,28 @@
+import Link from 'next/link'
+import { Logo } from '@/components/logo'
+
+/**
+ * Shown by the service worker when a page that was never opened is requested offline
+ */
+export default function OfflinePage() {
+  return (
+    <main className="min-h-screen bg-white dark:bg-slate-950 text-slate-900 dark:text-slate-100 p-4 md:p-8 flex items-center justify-center transition-colors duration-500">
+      <div className="max-w-md text-center">
+        <div className="flex justify-center mb-6">
+          <Logo className="w-16 h-16 text-slate-900 dark:text-slate-100" />
+        </div>
+        <h1 className="text-4xl font-brand italic mb-3">You&apos;re offline</h1>
+        <p className="text-slate-500 dark:text-slate-400 mb-8">
+          This page hasn&apos;t been saved for offline use yet. Your library and quizzes still work,
+          and words you add are sent once you&apos;re back online.
+        </p>
+        <Link
+          href="/"
+          className="inline-block px-6 py-3 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 rounded-xl hover:bg-slate-800 dark:hover:bg-white transition-colors font-medium"
+        >
+          Open my library
+        </Link>
+      </div>
+    </main>
+  )
+}
@@ -1,6 +1,19 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useSettings } from '@/lib/settings-context'
+import { useAuth } from '@/lib/auth-context'
+import { startQuizSession, recordQuizAnswer, finishQuizSession, type QuizSessionType } from '@/lib/quiz-history'
+import { answerQuality, buildDueDeck, isDueToday, newReviewState, scheduleReview, type ReviewState } from '@/lib/srs/scheduler'
+import { getReviewStates, saveReviewState } from '@/lib/srs/review-store'
+import { pickDistractors } from '@/lib/distractors'
+import { gradeMeaning, gradeTyping, isAccepted, judgeMeaning, type Grade, type Verdict } from '@/lib/grading'
+import { LANGUAGES, getLanguage, getLanguageById } from '@/lib/languages/registry'
+import type { LanguageCode } from '@/lib/languages/types'
+import { normalizeLevel } from '@/lib/llm/schema'
+import { sortSenses, type StoredSense } from '@/lib/senses'
+import { describeContextSource, sortContexts, type VocabContext } from '@/lib/word-contexts'
+import { MAX_QUESTIONS, MIN_QUESTIONS, initialQuizOptions, quizDeadline, secondsLeft } from '@/lib/quiz-settings'
 
 type VocabWord = {
   id: number
@@ -9,7 +22,12 @@ type VocabWord = {
   cefr_level?: string
   meaning_primary?: string
   usage_tips?: string
+  meaning_native?: string
+  native_lang?: string
   lang_id?: number
+  senses?: StoredSense[]
+  contexts?: VocabContext[] // Sentences the word was met in
+  sense?: { index: number; count: number } // Set when the question is about one sense of the word
 }
 
 type QuizModeProps = {
@@ -18,19 +36,54 @@ type QuizModeProps = {
 }
 
 type StudyMode = 'flashcard' | 'multiple-choice' | 'typing' | 'meaning-test'
+// Definition quizzes use meaning_primary; the other directions use the native-language gloss
+type QuizDirection = 'definition' | 'target-native' | 'native-target'
 type QuizSettings = {
   mode: StudyMode
-  filter: 'all' | 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2'
+  direction: QuizDirection
+  senses: 'primary' | 'all' // Ask about the primary meaning only, or about every sense
+  session: 'due' | 'practice' // Due Today follows the review schedule, Practice picks random words
+  language: 'all' | LanguageCode
+  filter: 'all' | string // A level code of the language's scheme, e.g. "B2" or "N3"
   count: number
 }
 
+// Result box colors and headings per grading verdict
+const VERDICT_STYLES: Record<Verdict, { box: string; label: string }> = {
+  correct: { box: 'bg-emerald-50 dark:bg-emerald-950/30 border-emerald-500', label: '✓ Correct!' },
+  close: { box: 'bg-amber-50 dark:bg-amber-950/30 border-amber-500', label: '≈ Close enough' },
+  wrong: { box: 'bg-red-50 dark:bg-red-950/30 border-red-500', label: '✗ Incorrect' },
+}
+
+// What a question shows for a word and which answer it expects
+type QuizCard = {
+  cue: string
+  answer: string
+  answerIsWord: boolean // The word is graded for spelling, meanings for sense
+}
+
+function quizCard(word: VocabWord, mode: StudyMode, direction: QuizDirection): QuizCard {
+  const meaning = (direction === 'definition' ? word.meaning_primary : word.meaning_native) || ''
+  // Typing asks for the word from its definition; native→target always asks for the word
+  const askForWord = direction === 'native-target' || (direction === 'definition' && mode === 'typing')
+  return askForWord
+    ? { cue: meaning, answer: word.word, answerIsWord: true }
+    : { cue: word.word, answer: meaning, answerIsWord: false }
+}
+
 export function QuizMode({ words, onClose }: QuizModeProps) {
   const [showSettings, setShowSettings] = useState(true)
-  const [settings, setSettings] = useState<QuizSettings>({
-    mode: 'flashcard',
+  const { settings: appSettings } = useSettings()
+  const { user } = useAuth()
+  // Mode and length start from the defaults chosen in Settings
+  const [settings, setSettings] = useState<QuizSettings>(() => ({
+    ...initialQuizOptions(appSettings),
+    direction: 'definition',
+    senses: 'primary',
+    session: 'due',
+    language: 'all',
     filter: 'all',
-    count: 10
-  })
+  }))
   const [quizWords, setQuizWords] = useState<VocabWord[]>([])
   const [currentIndex, setCurrentIndex] = useState(0)
   const [showAnswer, setShowAnswer] = useState(false)
@@ -40,59 +93,202 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null)
   const [multipleChoices, setMultipleChoices] = useState<string[]>([])
   const [mistakeWords, setMistakeWords] = useState<VocabWord[]>([])
+  const [grade, setGrade] = useState<Grade | null>(null) // Verdict for typing and meaning answers
+  const [grading, setGrading] = useState(false)
   const [startTime, setStartTime] = useState<number>(0)
   const [studyTimeSeconds, setStudyTimeSeconds] = useState(0)
+  const [deadline, setDeadline] = useState<number | null>(null) // End of a timed session
+  const [now, setNow] = useState(0)                             // Last tick of the countdown
+  const [timedOut, setTimedOut] = useState(false)
+  const [reviewStates, setReviewStates] = useState<Map<number, ReviewState>>(new Map())
+  const reviewedIds = useRef(new Set<number>()) // Words already rescheduled in this quiz, restarts included
+  const historySession = useRef<Promise<string | null> | null>(null) // Id of the saved session row
+  const questionShownAt = useRef(0) // For answer latency
+
+  // Load the review schedule
+  useEffect(() => {
+    getReviewStates()
+      .then(setReviewStates)
+      .catch(err => console.error('Review schedule error:', err))
+  }, [])
+
+  // Glosses only count in the learner's current native language
+  const hasGloss = (w: VocabWord) => !!w.meaning_native?.trim() && w.native_lang === appSettings.nativeLanguage
+  const glossedCount = appSettings.nativeLanguage ? words.filter(hasGloss).length : 0
+  const studyableWords = words.filter(w =>
+    w.meaning_primary && w.meaning_primary.trim() &&
+    (settings.direction === 'definition' || hasGloss(w))
+  )
+  // Languages with words to study, and the ones whose levels the level filter offers
+  const libraryLanguages = LANGUAGES.filter(l => studyableWords.some(w => getLanguageById(w.lang_id) === l))
+  const filterLanguages = settings.language === 'all' ? libraryLanguages : [getLanguage(settings.language)]
+  const dueCount = studyableWords.filter(w => isDueToday(reviewStates.get(w.id))).length
+  const polysemousCount = studyableWords.filter(w => (w.senses?.length ?? 0) > 1).length
+
+  const cardFor = (word: VocabWord) => quizCard(word, settings.mode, settings.direction)
+
+  // Starts a new session in the quiz history
+  const beginHistorySession = (type: QuizSessionType) => {
+    historySession.current = user ? startQuizSession(user.id, settings.mode, type) : null
+  }
 
   // Start quiz with selected settings
   const startQuiz = () => {
-    let filtered = words.filter(w => w.meaning_primary && w.meaning_primary.trim())
+    let filtered = studyableWords
     
+    if (settings.language !== 'all') {
+      filtered = filtered.filter(w => getLanguageById(w.lang_id).code === settings.language)
+    }
     if (settings.filter !== 'all') {
-      filtered = filtered.filter(w => w.cefr_level === settings.filter)
+      filtered = filtered.filter(w => normalizeLevel(w.cefr_level) === settings.filter)
     }
     
-    const shuffled = [...filtered].sort(() => Math.random() - 0.5)
-    const selected = shuffled.slice(0, Math.min(settings.count, shuffled.length))
+    let selected: VocabWord[]
+    if (settings.session === 'due') {
+      selected = buildDueDeck(filtered, reviewStates, settings.count)
+    } else {
+      const shuffled = [...filtered].sort(() => Math.random() - 0.5)
+      selected = shuffled.slice(0, Math.min(settings.count, shuffled.length))
+    }
+
+    // Every sense becomes a question of its own, tested by its definition
+    if (settings.senses === 'all' && settings.direction === 'definition') {
+      selected = selected.flatMap(w => {
+        const senses = sortSenses(w.senses)
+        if (senses.length <= 1) return [w]
+        return senses.map((sense, index) => ({
+          ...w,
+          meaning_primary: sense.definition,
+          part_of_speech: sense.part_of_speech || w.part_of_speech,
+          usage_tips: sense.examples[0] || w.usage_tips,
+          sense: { index, count: senses.length },
+        }))
+      })
+    }
     
+    // A new quiz reschedules its words afresh; Try Again and Review Mistakes do not, or
+    // a few quick restarts would push a word's next review weeks ahead
+    reviewedIds.current.clear()
+    beginHistorySession(settings.session)
     setQuizWords(selected)
+    showQuestion(selected, 0)
     setShowSettings(false)
-    setStartTime(Date.now())
+    startClock()
+  }
+
+  // The clock is read only in these callbacks, which event handlers call, never during render
+
+  // Starts the study time and, for timed quizzes, the countdown
+  const startClock = useCallback(() => {
+    const startedAt = Date.now()
+    setStartTime(startedAt)
+    setDeadline(quizDeadline(appSettings, startedAt))
+    setNow(startedAt)
+    setTimedOut(false)
+  }, [appSettings])
+
+  const elapsedSeconds = useCallback(() => Math.floor((Date.now() - startTime) / 1000), [startTime])
+
+  // Milliseconds since the question appeared
+  const answerLatency = useCallback(() => Date.now() - questionShownAt.current, [])
+
+  // Stores the answer in the quiz history and updates the review schedule
+  const recordAnswer = (word: VocabWord, correct: boolean) => {
+    const latencyMs = answerLatency()
+    historySession.current?.then(sessionId => {
+      if (sessionId && user) {
+        recordQuizAnswer(user.id, sessionId, { vocabId: word.id, mode: settings.mode, correct, latencyMs })
+      }
+    })
+    recordReview(word, correct)
+  }
+
+  // Updates the word's review schedule from the first answer it gets in this session
+  const recordReview = (word: VocabWord, correct: boolean) => {
+    if (reviewedIds.current.has(word.id)) return
+    reviewedIds.current.add(word.id)
+
+    const next = scheduleReview(
+      reviewStates.get(word.id) ?? newReviewState(),
+      answerQuality(correct, settings.mode),
+      { graduatingIntervalDays: appSettings.reviewIntervalDays }
+    )
+    setReviewStates(prev => new Map(prev).set(word.id, next))
+    saveReviewState(word.id, next).catch(err => console.error('Review schedule error:', err))
   }
 
   // Generate multiple choice options
-  useEffect(() => {
-    if (settings.mode === 'multiple-choice' && quizWords.length > 0 && currentIndex < quizWords.length) {
-      const currentWord = quizWords[currentIndex]
-      const correctAnswer = currentWord.meaning_primary!
-      
-      // Get 3 random wrong answers
-      const wrongAnswers = quizWords
-        .filter(w => w.id !== currentWord.id && w.meaning_primary)
-        .sort(() => Math.random() - 0.5)
-        .slice(0, 3)
-        .map(w => w.meaning_primary!)
-      
-      // Shuffle all answers
-      const allChoices = [correctAnswer, ...wrongAnswers].sort(() => Math.random() - 0.5)
-      setMultipleChoices(allChoices)
+  const choicesFor = (word: VocabWord) => {
+    // Wrong answers come from the whole library, not just this deck
+    const wrongAnswers = pickDistractors(word, words, {
+      answer: w => cardFor(w).answer || undefined
+    })
+
+    // Shuffle all answers
+    return [cardFor(word).answer, ...wrongAnswers].sort(() => Math.random() - 0.5)
+  }
+
+  // Moves to a question of the deck, with its choices in multiple choice mode
+  const showQuestion = (deck: VocabWord[], index: number) => {
+    setCurrentIndex(index)
+    if (settings.mode === 'multiple-choice' && index < deck.length) {
+      setMultipleChoices(choicesFor(deck[index]))
     }
-  }, [currentIndex, quizWords, settings.mode])
+  }
 
   const currentWord = quizWords[currentIndex]
 
+  // Answer latency is measured from when the question appears
+  useEffect(() => {
+    questionShownAt.current = Date.now()
+  }, [currentIndex, quizWords])
+
+  // Save the final score once the session is over
+  useEffect(() => {
+    if (!quizComplete) return
+    historySession.current?.then(sessionId => {
+      if (sessionId) {
+        finishQuizSession(sessionId, {
+          correct: score.correct,
+          total: score.total,
+          maxStreak: score.maxStreak,
+          studyTimeSeconds
+        })
+      }
+    })
+  }, [quizComplete, score, studyTimeSeconds])
+
+  // Ends the session early once the time limit is reached
+  useEffect(() => {
+    if (deadline === null || quizComplete) return
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= deadline) {
+        setTimedOut(true)
+        setQuizComplete(true)
+        setStudyTimeSeconds(Math.floor((current - startTime) / 1000))
+      }
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [deadline, quizComplete, startTime])
+
   const handleNext = () => {
+    if (quizComplete) return // Time ran out while the last answer was shown
     setShowAnswer(false)
     setUserAnswer('')
+    setGrade(null)
     setSelectedChoice(null)
     if (currentIndex + 1 >= quizWords.length) {
       setQuizComplete(true)
-      setStudyTimeSeconds(Math.floor((Date.now() - startTime) / 1000))
+      setStudyTimeSeconds(elapsedSeconds())
     } else {
-      setCurrentIndex(currentIndex + 1)
+      showQuestion(quizWords, currentIndex + 1)
     }
   }
 
   const handleKnow = () => {
+    recordAnswer(currentWord, true)
     const newStreak = score.streak + 1
     setScore({ 
       ...score, 
@@ -105,6 +301,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
   }
 
   const handleDontKnow = () => {
+    recordAnswer(currentWord, false)
     setScore({ ...score, total: score.total + 1, streak: 0 })
     setMistakeWords([...mistakeWords, currentWord])
     setShowAnswer(true)
@@ -112,7 +309,8 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
 
   const handleMultipleChoice = (choice: string) => {
     setSelectedChoice(choice)
-    const isCorrect = choice === currentWord.meaning_primary
+    const isCorrect = choice === cardFor(currentWord).answer
+    recordAnswer(currentWord, isCorrect)
     const newStreak = isCorrect ? score.streak + 1 : 0
     
     setScore({
@@ -133,7 +331,11 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
   const handleTypingSubmit = () => {
     if (!userAnswer.trim()) return
     
-    const isCorrect = userAnswer.toLowerCase().trim() === currentWord.word.toLowerCase().trim()
+    // Typos are tolerated: a close answer still counts
+    const result = gradeTyping(userAnswer, cardFor(currentWord).answer)
+    const isCorrect = isAccepted(result)
+    setGrade(result)
+    recordAnswer(currentWord, isCorrect)
     const newStreak = isCorrect ? score.streak + 1 : 0
     
     setScore({
@@ -151,17 +353,22 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
     setShowAnswer(true)
   }
 
-  const handleMeaningTestSubmit = () => {
-    if (!userAnswer.trim()) return
-    
-    // Check if the user's answer is similar to the correct meaning
-    const userAns = userAnswer.toLowerCase().trim()
-    const correctMeaning = currentWord.meaning_primary?.toLowerCase().trim() || ''
+  const handleMeaningTestSubmit = async () => {
+    if (!userAnswer.trim() || grading) return
     
-    // Simple similarity check: correct if answer contains main keywords or is very similar
-    const isCorrect = userAns === correctMeaning || 
-                     correctMeaning.includes(userAns) || 
-                     userAns.includes(correctMeaning)
+    // Score key word overlap, then let the AI judge have the final say if enabled.
+    // Asked for the word itself, the answer is graded like a typing answer.
+    const card = cardFor(currentWord)
+    const correctMeaning = card.answer
+    let result = card.answerIsWord ? gradeTyping(userAnswer, correctMeaning) : gradeMeaning(userAnswer, correctMeaning)
+    if (appSettings.aiAnswerJudge && !card.answerIsWord) {
+      setGrading(true)
+      result = await judgeMeaning(currentWord.word, correctMeaning, userAnswer) || result
+      setGrading(false)
+    }
+    const isCorrect = isAccepted(result)
+    setGrade(result)
+    recordAnswer(currentWord, isCorrect)
     
     const newStreak = isCorrect ? score.streak + 1 : 0
     
@@ -181,29 +388,34 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
   }
 
   const handleRestart = () => {
+    beginHistorySession(settings.session)
     const shuffled = [...quizWords].sort(() => Math.random() - 0.5)
     setQuizWords(shuffled)
-    setCurrentIndex(0)
+    showQuestion(shuffled, 0)
     setShowAnswer(false)
     setScore({ correct: 0, total: 0, streak: 0, maxStreak: 0 })
     setQuizComplete(false)
     setUserAnswer('')
+    setGrade(null)
     setSelectedChoice(null)
     setMistakeWords([])
-    setStartTime(Date.now())
+    startClock()
   }
 
   const handleRetryMistakes = () => {
     if (mistakeWords.length === 0) return
-    setQuizWords([...mistakeWords].sort(() => Math.random() - 0.5))
-    setCurrentIndex(0)
+    beginHistorySession('mistakes')
+    const deck = [...mistakeWords].sort(() => Math.random() - 0.5)
+    setQuizWords(deck)
+    showQuestion(deck, 0)
     setShowAnswer(false)
     setScore({ correct: 0, total: 0, streak: 0, maxStreak: 0 })
     setQuizComplete(false)
     setUserAnswer('')
+    setGrade(null)
     setSelectedChoice(null)
     setMistakeWords([])
-    setStartTime(Date.now())
+    startClock()
   }
 
   const formatTime = (seconds: number) => {
@@ -217,10 +429,12 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeIn">
         <div className="bg-white dark:bg-slate-900 rounded-3xl p-8 max-w-md w-full shadow-2xl border border-slate-200 dark:border-slate-700">
           <h2 className="text-2xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-4">
-            No Words Available
+            {settings.session === 'due' && studyableWords.length > 0 ? 'All Caught Up' : 'No Words Available'}
           </h2>
           <p className="text-slate-600 dark:text-slate-400 mb-6">
-            Add some words with meanings to start studying!
+            {settings.session === 'due' && studyableWords.length > 0
+              ? 'Nothing is due for review today. Start a Practice session to keep studying!'
+              : 'Add some words with meanings to start studying!'}
           </p>
           <button
             onClick={onClose}
@@ -234,7 +448,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
   }
 
   if (quizComplete) {
-    const percentage = Math.round((score.correct / score.total) * 100)
+    const percentage = score.total > 0 ? Math.round((score.correct / score.total) * 100) : 0
     const emoji = percentage >= 90 ? '🏆' : percentage >= 70 ? '🎉' : percentage >= 50 ? '👍' : '📚'
     const message = percentage >= 90 ? 'Outstanding!' : percentage >= 70 ? 'Great Job!' : percentage >= 50 ? 'Good Effort!' : 'Keep Practicing!'
     
@@ -246,6 +460,11 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
             <h2 className="text-3xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-2">
               {message}
             </h2>
+            {timedOut && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                ⏰ Time&apos;s up! You answered {score.total} of {quizWords.length} words.
+              </p>
+            )}
             
             <div className="grid grid-cols-2 gap-4 my-8">
               <div className="bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30 rounded-2xl p-4 border border-blue-100 dark:border-blue-900/30">
@@ -387,22 +606,121 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
               </div>
             </div>
 
+            {polysemousCount > 0 && settings.direction === 'definition' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                  Senses
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    { value: 'primary' as const, label: 'Primary Meaning', desc: 'One question per word' },
+                    { value: 'all' as const, label: 'Every Sense', desc: `One question per sense (${polysemousCount} words have several)` }
+                  ].map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSettings({ ...settings, senses: option.value })}
+                      className={`p-3 rounded-xl border-2 transition-all text-left ${
+                        settings.senses === option.value
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30 dark:border-blue-400'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'
+                      }`}
+                    >
+                      <div className="font-medium text-slate-900 dark:text-slate-100">{option.label}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{option.desc}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {glossedCount > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                  Direction
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    { value: 'definition' as const, label: 'Definitions', desc: 'Word and its meaning' },
+                    { value: 'target-native' as const, label: 'Word → Native', desc: `Translate ${glossedCount} glossed words` },
+                    { value: 'native-target' as const, label: 'Native → Word', desc: 'Recall the word from your language' }
+                  ].map(direction => (
+                    <button
+                      key={direction.value}
+                      onClick={() => setSettings({ ...settings, direction: direction.value })}
+                      className={`p-3 rounded-xl border-2 transition-all text-left ${
+                        settings.direction === direction.value
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30 dark:border-blue-400'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'
+                      }`}
+                    >
+                      <div className="font-medium text-slate-900 dark:text-slate-100">{direction.label}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{direction.desc}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                Session
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { value: 'due' as const, label: `Due Today (${dueCount})`, desc: 'Words scheduled for review' },
+                  { value: 'practice' as const, label: 'Practice', desc: 'Random words from your library' }
+                ].map(session => (
+                  <button
+                    key={session.value}
+                    onClick={() => setSettings({ ...settings, session: session.value })}
+                    className={`p-3 rounded-xl border-2 transition-all text-left ${
+                      settings.session === session.value
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30 dark:border-blue-400'
+                        : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'
+                    }`}
+                  >
+                    <div className="font-medium text-slate-900 dark:text-slate-100">{session.label}</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">{session.desc}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {libraryLanguages.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                  Language
+                </label>
+                <select
+                  value={settings.language}
+                  onChange={(e) => setSettings({ ...settings, language: e.target.value as QuizSettings['language'], filter: 'all' })}
+                  className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 focus:outline-none focus:border-blue-500 text-slate-900 dark:text-white"
+                >
+                  <option value="all">All Languages</option>
+                  {libraryLanguages.map(language => (
+                    <option key={language.code} value={language.code}>{language.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
                 Filter by Level
               </label>
               <select
                 value={settings.filter}
-                onChange={(e) => setSettings({ ...settings, filter: e.target.value as any })}
+                onChange={(e) => setSettings({ ...settings, filter: e.target.value })}
                 className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 focus:outline-none focus:border-blue-500 text-slate-900 dark:text-white"
               >
                 <option value="all">All Levels</option>
-                <option value="A1">A1 - Beginner</option>
-                <option value="A2">A2 - Elementary</option>
-                <option value="B1">B1 - Intermediate</option>
-                <option value="B2">B2 - Upper Intermediate</option>
-                <option value="C1">C1 - Advanced</option>
-                <option value="C2">C2 - Proficient</option>
+                {filterLanguages.map(language => (
+                  <optgroup key={language.code} label={`${language.name} (${language.levels.name})`}>
+                    {language.levels.levels.map(level => (
+                      <option key={level.code} value={level.code}>{level.code} - {level.label}</option>
+                    ))}
+                  </optgroup>
+                ))}
               </select>
             </div>
 
@@ -412,8 +730,8 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
               </label>
               <input
                 type="range"
-                min="5"
-                max="50"
+                min={MIN_QUESTIONS}
+                max={MAX_QUESTIONS}
                 step="5"
                 value={settings.count}
                 onChange={(e) => setSettings({ ...settings, count: parseInt(e.target.value) })}
@@ -427,7 +745,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
 
             <button
               onClick={startQuiz}
-              disabled={quizWords.length === 0 && words.filter(w => w.meaning_primary && w.meaning_primary.trim()).length === 0}
+              disabled={quizWords.length === 0 && studyableWords.length === 0}
               className="w-full px-6 py-4 bg-gradient-to-r from-blue-500 to-indigo-500 text-white rounded-xl hover:from-blue-600 hover:to-indigo-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-lg text-lg"
             >
               Start Studying
@@ -438,6 +756,10 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
     )
   }
 
+  const card = cardFor(currentWord)
+  const remaining = deadline === null ? null : secondsLeft(deadline, now)
+  const metIn = sortContexts(currentWord.contexts)[0] // Latest sentence the word was met in
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fadeIn">
       <div className="bg-white dark:bg-slate-900 rounded-3xl p-8 max-w-2xl w-full shadow-2xl border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
@@ -465,13 +787,29 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
           <div className="flex items-center justify-between mb-2">
             <div className="text-sm text-slate-500 dark:text-slate-400">
               {currentIndex + 1} of {quizWords.length}
+              {currentWord.sense && (
+                <span className="ml-2 text-xs text-slate-400 dark:text-slate-500">
+                  · sense {currentWord.sense.index + 1} of {currentWord.sense.count}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {remaining !== null && (
+                <div className={`px-3 py-1 rounded-full text-sm font-medium tabular-nums ${
+                  remaining < 30
+                    ? 'bg-red-50 dark:bg-red-950/30 text-red-600 dark:text-red-400'
+                    : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'
+                }`}>
+                  ⏱️ {formatTime(remaining)}
+                </div>
+              )}
+              {score.streak > 0 && (
+                <div className="flex items-center gap-1 px-3 py-1 bg-gradient-to-r from-orange-50 to-amber-50 dark:from-orange-950/30 dark:to-amber-950/30 border border-orange-200 dark:border-orange-900/30 rounded-full">
+                  <span className="text-sm">🔥</span>
+                  <span className="text-sm font-medium text-orange-600 dark:text-orange-400">{score.streak} streak</span>
+                </div>
+              )}
             </div>
-            {score.streak > 0 && (
-              <div className="flex items-center gap-1 px-3 py-1 bg-gradient-to-r from-orange-50 to-amber-50 dark:from-orange-950/30 dark:to-amber-950/30 border border-orange-200 dark:border-orange-900/30 rounded-full">
-                <span className="text-sm">🔥</span>
-                <span className="text-sm font-medium text-orange-600 dark:text-orange-400">{score.streak} streak</span>
-              </div>
-            )}
           </div>
           <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
             <div
@@ -494,7 +832,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
             >
               <div className="mb-4">
                 <div className="text-5xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-4">
-                  {currentWord.word}
+                  {card.cue}
                   {currentWord.part_of_speech && (
                     <span className="ml-3 text-2xl text-slate-400 dark:text-slate-500 font-normal">
                       ({currentWord.part_of_speech.toLowerCase().startsWith('n') ? 'n.' : 
@@ -514,18 +852,27 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
               {showAnswer ? (
                 <div className="mt-6 space-y-4 animate-fadeIn">
                   <div className="text-xl text-slate-700 dark:text-slate-300">
-                    {currentWord.meaning_primary}
+                    {card.answer}
                   </div>
                   {currentWord.cefr_level && (
                     <div className="inline-block px-3 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 rounded-lg text-sm">
                       Level: {currentWord.cefr_level}
                     </div>
                   )}
-                  {currentWord.usage_tips && (
+                  {appSettings.showExamples && currentWord.usage_tips && (
                     <div className="mt-4 p-4 bg-white/50 dark:bg-slate-900/50 rounded-xl text-sm text-slate-600 dark:text-slate-400">
                       💡 {currentWord.usage_tips}
                     </div>
                   )}
+                  {metIn && (
+                    <div className="p-4 bg-white/50 dark:bg-slate-900/50 rounded-xl text-sm text-slate-600 dark:text-slate-400">
+                      <div className="text-xs font-medium text-slate-400 dark:text-slate-500 mb-1">📖 As you met it</div>
+                      <div className="italic">“{metIn.sentence}”</div>
+                      {describeContextSource(metIn) && (
+                        <div className="mt-1 text-xs text-slate-400 dark:text-slate-500">— {describeContextSource(metIn)}</div>
+                      )}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="mt-6 text-slate-400 dark:text-slate-500 text-sm">
@@ -539,7 +886,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
             <div className="space-y-4">
               <div className="bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-800/50 rounded-2xl p-8 text-center border border-slate-200 dark:border-slate-700">
                 <div className="text-3xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-2">
-                  {currentWord.word}
+                  {card.cue}
                   {currentWord.part_of_speech && (
                     <span className="ml-2 text-lg text-slate-400 dark:text-slate-500 font-normal">
                       ({currentWord.part_of_speech.toLowerCase().startsWith('n') ? 'n.' : 
@@ -554,12 +901,14 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
                     </span>
                   )}
                 </div>
-                <p className="text-slate-600 dark:text-slate-400 mt-4 text-sm">Select the correct meaning:</p>
+                <p className="text-slate-600 dark:text-slate-400 mt-4 text-sm">
+                  {card.answerIsWord ? 'Select the word:' : settings.direction === 'target-native' ? 'Select the translation:' : 'Select the correct meaning:'}
+                </p>
               </div>
               
               <div className="grid gap-3">
                 {multipleChoices.map((choice, idx) => {
-                  const isCorrect = choice === currentWord.meaning_primary
+                  const isCorrect = choice === card.answer
                   const isSelected = selectedChoice === choice
                   const showResult = selectedChoice !== null
                   
@@ -593,9 +942,11 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
           {settings.mode === 'typing' && (
             <div className="space-y-4">
               <div className="bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-800/50 rounded-2xl p-8 text-center border border-slate-200 dark:border-slate-700">
-                <div className="text-lg text-slate-600 dark:text-slate-400 mb-4">Type the word for:</div>
+                <div className="text-lg text-slate-600 dark:text-slate-400 mb-4">
+                  {card.answerIsWord ? 'Type the word for:' : 'Type the translation of:'}
+                </div>
                 <div className="text-3xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-2">
-                  {currentWord.meaning_primary}
+                  {card.cue}
                   {currentWord.part_of_speech && (
                     <span className="ml-2 text-lg text-slate-400 dark:text-slate-500 font-normal">
                       ({currentWord.part_of_speech.toLowerCase().startsWith('n') ? 'n.' : 
@@ -623,18 +974,17 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
                   autoFocus
                 />
                 
-                {showAnswer && (
-                  <div className={`p-4 rounded-xl ${
-                    userAnswer.toLowerCase().trim() === currentWord.word.toLowerCase().trim()
-                      ? 'bg-emerald-50 dark:bg-emerald-950/30 border-2 border-emerald-500'
-                      : 'bg-red-50 dark:bg-red-950/30 border-2 border-red-500'
-                  }`}>
+                {showAnswer && grade && (
+                  <div className={`p-4 rounded-xl border-2 ${VERDICT_STYLES[grade.verdict].box}`}>
                     <div className="font-medium text-slate-900 dark:text-slate-100 mb-1">
-                      {userAnswer.toLowerCase().trim() === currentWord.word.toLowerCase().trim() ? '✓ Correct!' : '✗ Incorrect'}
+                      {VERDICT_STYLES[grade.verdict].label}
                     </div>
-                    {userAnswer.toLowerCase().trim() !== currentWord.word.toLowerCase().trim() && (
+                    <div className="text-sm text-slate-600 dark:text-slate-400">
+                      {grade.explanation}
+                    </div>
+                    {grade.verdict === 'wrong' && (
                       <div className="text-sm text-slate-600 dark:text-slate-400">
-                        Correct answer: <span className="font-medium">{currentWord.word}</span>
+                        Correct answer: <span className="font-medium">{card.answer}</span>
                       </div>
                     )}
                   </div>
@@ -646,9 +996,11 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
           {settings.mode === 'meaning-test' && (
             <div className="space-y-4">
               <div className="bg-gradient-to-br from-purple-50 to-violet-100 dark:from-purple-900/30 dark:to-violet-900/30 rounded-2xl p-8 text-center border border-purple-200 dark:border-purple-800">
-                <div className="text-lg text-purple-600 dark:text-purple-400 mb-4">What does this word mean?</div>
+                <div className="text-lg text-purple-600 dark:text-purple-400 mb-4">
+                  {card.answerIsWord ? 'Which word means this?' : 'What does this word mean?'}
+                </div>
                 <div className="text-5xl font-brand font-medium text-slate-900 dark:text-slate-100 mb-2">
-                  {currentWord.word}
+                  {card.cue}
                   {currentWord.part_of_speech && (
                     <span className="ml-3 text-2xl text-slate-400 dark:text-slate-500 font-normal">
                       ({currentWord.part_of_speech.toLowerCase().startsWith('n') ? 'n.' : 
@@ -674,29 +1026,29 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
                 <textarea
                   value={userAnswer}
                   onChange={(e) => setUserAnswer(e.target.value)}
-                  placeholder="Type the meaning..."
-                  disabled={showAnswer}
+                  placeholder={card.answerIsWord ? 'Type the word...' : 'Type the meaning...'}
+                  disabled={showAnswer || grading}
                   rows={3}
                   className="w-full px-6 py-4 text-lg bg-white dark:bg-slate-800 rounded-xl border-2 border-slate-200 dark:border-slate-700 focus:outline-none focus:border-purple-500 text-slate-900 dark:text-white placeholder:text-slate-400 disabled:opacity-50 resize-none"
                   autoFocus
                 />
                 
-                {showAnswer && (
-                  <div className={`p-4 rounded-xl ${
-                    userAnswer.toLowerCase().trim() === currentWord.meaning_primary?.toLowerCase().trim() ||
-                    currentWord.meaning_primary?.toLowerCase().includes(userAnswer.toLowerCase().trim()) ||
-                    userAnswer.toLowerCase().trim().includes(currentWord.meaning_primary?.toLowerCase().trim() || '')
-                      ? 'bg-emerald-50 dark:bg-emerald-950/30 border-2 border-emerald-500'
-                      : 'bg-amber-50 dark:bg-amber-950/30 border-2 border-amber-500'
-                  }`}>
-                    <div className="font-medium text-slate-900 dark:text-slate-100 mb-2">
-                      {userAnswer.toLowerCase().trim() === currentWord.meaning_primary?.toLowerCase().trim() ||
-                       currentWord.meaning_primary?.toLowerCase().includes(userAnswer.toLowerCase().trim()) ||
-                       userAnswer.toLowerCase().trim().includes(currentWord.meaning_primary?.toLowerCase().trim() || '')
-                        ? '✓ Correct!' : '⚠ Check the correct meaning:'}
+                {grading && (
+                  <div className="p-4 rounded-xl bg-purple-50 dark:bg-purple-950/30 text-sm text-purple-700 dark:text-purple-300">
+                    🤖 Checking your answer...
+                  </div>
+                )}
+
+                {showAnswer && grade && (
+                  <div className={`p-4 rounded-xl border-2 ${VERDICT_STYLES[grade.verdict].box}`}>
+                    <div className="font-medium text-slate-900 dark:text-slate-100 mb-1">
+                      {VERDICT_STYLES[grade.verdict].label}
+                    </div>
+                    <div className="text-sm text-slate-600 dark:text-slate-400 mb-2">
+                      {grade.explanation}
                     </div>
                     <div className="text-sm text-slate-700 dark:text-slate-300 mb-1">
-                      <strong>Correct meaning:</strong> {currentWord.meaning_primary}
+                      <strong>{card.answerIsWord ? 'Correct word:' : 'Correct meaning:'}</strong> {card.answer}
                     </div>
                     {userAnswer.trim() && (
                       <div className="text-sm text-slate-600 dark:text-slate-400 mt-2">
@@ -759,7 +1111,7 @@ export function QuizMode({ words, onClose }: QuizModeProps) {
           {settings.mode === 'meaning-test' && !showAnswer && (
             <button
               onClick={handleMeaningTestSubmit}
-              disabled={!userAnswer.trim()}
+              disabled={!userAnswer.trim() || grading}
               className="w-full px-6 py-4 bg-purple-500 hover:bg-purple-600 text-white rounded-xl transition-colors font-medium shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Check Answer
@@ -1,22 +1,57 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
+import { useAuth } from '@/lib/auth-context'
+import { useSettings } from '@/lib/settings-context'
+import { getReviewStates } from '@/lib/srs/review-store'
 
+/**
+ * Sends a message to the active service worker (public/sw.js), if there is one
+ */
+function tellServiceWorker(message: Record<string, unknown>) {
+  navigator.serviceWorker?.ready.then(registration => registration.active?.postMessage(message))
+}
+
+/**
+ * Registers the service worker and keeps it informed
+ * On sign-out the worker drops the library snapshot it keeps. With Auto-Download on, the
+ * other pages and the review schedule the quiz needs are downloaded ahead of time.
+ */
 export function ServiceWorkerRegistration() {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  const wasSignedIn = useRef(false)
+
+  // In development the worker would serve stale builds, so it only runs in production
   useEffect(() => {
-    if ('serviceWorker' in navigator) {
-      window.addEventListener('load', () => {
-        navigator.serviceWorker
-          .register('/sw.js')
-          .then((registration) => {
-            console.log('✅ Service Worker registered:', registration)
-          })
-          .catch((error) => {
-            console.log('❌ Service Worker registration failed:', error)
-          })
+    if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') return
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then((registration) => {
+        console.log('✅ Service Worker registered:', registration)
+      })
+      .catch((error) => {
+        console.log('❌ Service Worker registration failed:', error)
       })
-    }
   }, [])
 
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+    if (user) {
+      wasSignedIn.current = true
+    } else if (wasSignedIn.current) {
+      wasSignedIn.current = false
+      tellServiceWorker({ type: 'sign-out' })
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator) || !user?.id || !settings.autoDownload || !navigator.onLine) return
+    tellServiceWorker({ type: 'prefetch' })
+    // Loaded through the worker, which keeps the response for quizzes taken offline
+    getReviewStates().catch(err => console.error('Review schedule prefetch error:', err))
+  }, [user?.id, settings.autoDownload])
+
   return null
 }
@@ -1,10 +1,12 @@
 'use client'
 
-import { useState } from 'react'
-import { useSettings } from '@/lib/settings-context'
+import { useEffect, useState } from 'react'
+import { useSettings, type SyncConflicts } from '@/lib/settings-context'
 import { useTheme } from 'next-themes'
 import { useAuth } from '@/lib/auth-context'
-import { getOfflineVocabs } from '@/lib/offline-storage'
+import { clearOfflineData, offlineDataUsage } from '@/lib/offline/local-store'
+import { useEnrichmentJob } from '@/lib/use-enrichment-job'
+import { NATIVE_LANGUAGES } from '@/lib/translation/languages'
 
 export default function SettingsPage() {
   const { settings, updateSettings, resetSettings, exportSettings, importSettings } = useSettings()
@@ -14,8 +16,18 @@ export default function SettingsPage() {
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [showClearDataConfirm, setShowClearDataConfirm] = useState(false)
   const [importSuccess, setImportSuccess] = useState<boolean | null>(null)
-  const [refetching, setRefetching] = useState(false)
   const [refetchSuccess, setRefetchSuccess] = useState<string | null>(null)
+  const [offlineUsage, setOfflineUsage] = useState<{ words: number; pending: number; bytes: number } | null>(null)
+  const { job: refetchJob, isActive: refetching, start: startRefetchJob, cancel: cancelRefetchJob } = useEnrichmentJob(job => {
+    if (job.status === 'failed') {
+      setRefetchSuccess(`❌ ${job.error || 'Failed to refetch all words'}`)
+    } else if (job.status === 'cancelled') {
+      setRefetchSuccess(`✅ Stopped after updating ${job.updated} of ${job.total} words`)
+    } else {
+      setRefetchSuccess(`✅ Successfully refetched and updated ${job.updated} words!`)
+    }
+    setTimeout(() => setRefetchSuccess(null), 5000)
+  })
 
   const sections = [
     { 
@@ -93,50 +105,42 @@ export default function SettingsPage() {
     input.click()
   }
 
-  const handleClearOfflineData = () => {
-    localStorage.removeItem('verba_offline_vocabs')
+  // Size of the library copy kept in this browser
+  useEffect(() => {
+    if (activeSection !== 'offline' || !user) return
+    offlineDataUsage(user.id)
+      .then(setOfflineUsage)
+      .catch(err => console.error('Offline storage error:', err))
+  }, [activeSection, user])
+
+  const handleClearOfflineData = async () => {
+    if (user) {
+      await clearOfflineData(user.id).catch(err => console.error('Offline storage error:', err))
+    }
+    setOfflineUsage({ words: 0, pending: 0, bytes: 0 })
     setShowClearDataConfirm(false)
   }
 
   const getStorageSize = () => {
-    const vocabs = getOfflineVocabs()
-    const sizeBytes = new Blob([JSON.stringify(vocabs)]).size
-    const sizeKB = (sizeBytes / 1024).toFixed(2)
+    const sizeKB = ((offlineUsage?.bytes ?? 0) / 1024).toFixed(2)
     return `${sizeKB} KB`
   }
 
   const handleRefetchAll = async () => {
     const confirmed = confirm(
       '🔄 This will refetch all words from the dictionary to update their definitions.\n\n' +
-      'This might take a few minutes. Continue?'
+      'This runs in the background and might take a few minutes. Continue?'
     )
 
     if (!confirmed) return
 
     try {
-      setRefetching(true)
       setRefetchSuccess(null)
-
-      const response = await fetch('/api/refetch-all', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      const result = await response.json()
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to refetch all words')
-      }
-
-      setRefetchSuccess(`✅ Successfully refetched and updated ${result.updated} words!`)
-      setTimeout(() => setRefetchSuccess(null), 5000)
+      // Runs in the background; progress is polled until the job finishes
+      await startRefetchJob({ dictionary: settings.defaultDictionary, maxDefinitions: settings.maxDefinitions })
     } catch (err) {
       setRefetchSuccess(`❌ ${err instanceof Error ? err.message : 'Failed to refetch all words'}`)
       setTimeout(() => setRefetchSuccess(null), 5000)
-    } finally {
-      setRefetching(false)
     }
   }
 
@@ -299,11 +303,32 @@ export default function SettingsPage() {
                       <option value="auto">Auto (Best Match)</option>
                       <option value="cambridge">Cambridge Dictionary</option>
                       <option value="oxford">Oxford Dictionary</option>
+                      <option value="jmdict">JMdict (Japanese)</option>
                       <option value="google">Google Translate</option>
                       <option value="urban">Urban Dictionary</option>
                     </select>
                   </div>
 
+                  {/* Native Language */}
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+                      Native Language
+                    </label>
+                    <select
+                      value={settings.nativeLanguage}
+                      onChange={(e) => updateSettings({ nativeLanguage: e.target.value })}
+                      className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                    >
+                      <option value="">None (definitions only)</option>
+                      {NATIVE_LANGUAGES.map(l => (
+                        <option key={l.code} value={l.code}>{l.nativeName} ({l.name})</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                      Words get a short translation of their meaning in this language, and quizzes can ask in both directions
+                    </p>
+                  </div>
+
                   {/* Max Definitions */}
                   <div className="mb-6">
                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
@@ -489,6 +514,26 @@ export default function SettingsPage() {
                     </div>
                   )}
 
+                  {/* AI Answer Judge */}
+                  <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-xl mb-6">
+                    <div>
+                      <div className="font-medium text-slate-900 dark:text-white">AI Answer Judge</div>
+                      <div className="text-sm text-slate-500 dark:text-slate-400">Let the AI grade written meanings in the Meaning Test</div>
+                    </div>
+                    <button
+                      onClick={() => updateSettings({ aiAnswerJudge: !settings.aiAnswerJudge })}
+                      className={`relative w-12 h-6 rounded-full transition-colors ${
+                        settings.aiAnswerJudge ? 'bg-slate-900 dark:bg-white' : 'bg-slate-300 dark:bg-slate-600'
+                      }`}
+                    >
+                      <div
+                        className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${
+                          settings.aiAnswerJudge ? 'translate-x-6' : ''
+                        }`}
+                      />
+                    </button>
+                  </div>
+
                   {/* Review Interval */}
                   <div className="mb-6">
                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
@@ -520,7 +565,7 @@ export default function SettingsPage() {
                   <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-xl mb-3">
                     <div>
                       <div className="font-medium text-slate-900 dark:text-white">Offline Mode</div>
-                      <div className="text-sm text-slate-500 dark:text-slate-400">Save data locally for offline access</div>
+                      <div className="text-sm text-slate-500 dark:text-slate-400">Keep a copy of your library on this device and save changes offline</div>
                     </div>
                     <button
                       onClick={() => updateSettings({ offlineMode: !settings.offlineMode })}
@@ -536,11 +581,29 @@ export default function SettingsPage() {
                     </button>
                   </div>
 
+                  {/* Sync Conflicts */}
+                  <div className="p-4 bg-slate-50 dark:bg-slate-800 rounded-xl mb-3">
+                    <label className="block font-medium text-slate-900 dark:text-white mb-2">
+                      When a Word Changed on Two Devices
+                    </label>
+                    <select
+                      value={settings.syncConflicts}
+                      onChange={(e) => updateSettings({ syncConflicts: e.target.value as SyncConflicts })}
+                      className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                    >
+                      <option value="latest">Keep the latest change</option>
+                      <option value="ask">Ask me</option>
+                    </select>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                      Offline edits are merged field by field when you reconnect; this decides fields that were also changed elsewhere
+                    </p>
+                  </div>
+
                   {/* Auto Download */}
                   <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-xl mb-6">
                     <div>
                       <div className="font-medium text-slate-900 dark:text-white">Auto-Download Content</div>
-                      <div className="text-sm text-slate-500 dark:text-slate-400">Automatically cache definitions offline</div>
+                      <div className="text-sm text-slate-500 dark:text-slate-400">Download all pages and your review schedule for offline study</div>
                     </div>
                     <button
                       onClick={() => updateSettings({ autoDownload: !settings.autoDownload })}
@@ -561,7 +624,11 @@ export default function SettingsPage() {
                     <div className="flex items-center justify-between">
                       <div>
                         <div className="font-medium text-slate-900 dark:text-white">Storage Used</div>
-                        <div className="text-sm text-slate-500 dark:text-slate-400">Offline vocabulary data</div>
+                        <div className="text-sm text-slate-500 dark:text-slate-400">
+                          {offlineUsage
+                            ? `${offlineUsage.words} words${offlineUsage.pending > 0 ? `, ${offlineUsage.pending} changes waiting to sync` : ''}`
+                            : 'Offline vocabulary data'}
+                        </div>
                       </div>
                       <div className="text-xl font-bold text-slate-900 dark:text-white">
                         {getStorageSize()}
@@ -597,8 +664,8 @@ export default function SettingsPage() {
 
                   {/* Refetch All Data */}
                   <button
-                    onClick={handleRefetchAll}
-                    disabled={refetching}
+                    onClick={refetching ? cancelRefetchJob : handleRefetchAll}
+                    title={refetching ? 'Click to stop refetching' : undefined}
                     className="w-full px-4 py-3 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400 rounded-xl font-medium hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 mb-4"
                   >
                     {refetching ? (
@@ -607,7 +674,7 @@ export default function SettingsPage() {
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        Refetching All Words...
+                        Refetching All Words... {refetchJob?.processed ?? 0}/{refetchJob?.total ?? 0}
                       </>
                     ) : (
                       <>
@@ -640,7 +707,7 @@ export default function SettingsPage() {
                   ) : (
                     <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-xl border-2 border-red-200 dark:border-red-800">
                       <p className="text-red-700 dark:text-red-400 mb-3 font-medium">
-                        Are you sure? This will delete all offline vocabulary data.
+                        Are you sure? This deletes the copy of your library on this device, including offline changes not yet synced.
                       </p>
                       <div className="grid grid-cols-2 gap-3">
                         <button
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/lib/auth-context'
+import { getQuizStats, type QuizStats } from '@/lib/quiz-history'
+
+const formatStudyTime = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
+}
+
+const percent = (correct: number, total: number) => total > 0 ? Math.round((correct / total) * 100) : 0
+
+export default function StatsPage() {
+  const { user, loading: authLoading } = useAuth()
+  const [stats, setStats] = useState<QuizStats | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+    getQuizStats(user.id)
+      .then(setStats)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load statistics'))
+  }, [user])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-800">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white mb-4 transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M19 12H5M12 19l-7-7 7-7"/>
+            </svg>
+            Back to App
+          </Link>
+          <h1 className="text-4xl font-brand font-bold text-slate-900 dark:text-white mb-2">
+            Statistics
+          </h1>
+          <p className="text-slate-600 dark:text-slate-400">
+            Your quiz history at a glance
+          </p>
+        </div>
+
+        {!authLoading && !user && (
+          <p className="text-slate-600 dark:text-slate-400">Sign in to see your statistics.</p>
+        )}
+
+        {error && (
+          <div className="p-4 mb-6 rounded-xl bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+            ❌ {error}
+          </div>
+        )}
+
+        {user && !stats && !error && (
+          <p className="text-slate-600 dark:text-slate-400">Loading statistics...</p>
+        )}
+
+        {stats && (
+          <div className="space-y-6">
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Sessions', value: stats.sessions, color: 'text-blue-600 dark:text-blue-400' },
+                { label: 'Answers', value: stats.answers, color: 'text-violet-600 dark:text-violet-400' },
+                { label: 'Accuracy', value: `${stats.accuracy}%`, color: 'text-emerald-600 dark:text-emerald-400' },
+                { label: 'Study Time', value: formatStudyTime(stats.studyTimeSeconds), color: 'text-amber-600 dark:text-amber-400' },
+              ].map(card => (
+                <div key={card.label} className="bg-white dark:bg-slate-900 rounded-2xl p-5 shadow-lg border border-slate-200 dark:border-slate-800">
+                  <div className={`text-3xl font-brand font-semibold ${card.color}`}>{card.value}</div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">{card.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Accuracy over time */}
+            <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 shadow-lg border border-slate-200 dark:border-slate-800">
+              <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">
+                Accuracy (Last 30 Days)
+              </h2>
+              <div className="flex items-end gap-1 h-40">
+                {stats.accuracyByDay.map(day => (
+                  <div
+                    key={day.date}
+                    className="flex-1 h-full flex items-end"
+                    title={day.total > 0 ? `${day.date}: ${percent(day.correct, day.total)}% of ${day.total}` : `${day.date}: no answers`}
+                  >
+                    <div
+                      className={`w-full rounded-t ${day.total > 0 ? 'bg-gradient-to-t from-blue-500 to-indigo-400' : 'bg-slate-100 dark:bg-slate-800'}`}
+                      style={{ height: day.total > 0 ? `${Math.max(4, percent(day.correct, day.total))}%` : '4%' }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 mt-2">
+                <span>{stats.accuracyByDay[0]?.date}</span>
+                <span>Today</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Most missed words */}
+              <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 shadow-lg border border-slate-200 dark:border-slate-800">
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">
+                  Most Missed Words
+                </h2>
+                {stats.mostMissed.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">No mistakes yet. 🎉</p>
+                ) : (
+                  <div className="space-y-2">
+                    {stats.mostMissed.map(word => (
+                      <div key={word.vocabId} className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-slate-900 dark:text-slate-100">{word.word}</span>
+                        <span className="text-red-600 dark:text-red-400">
+                          {word.misses} of {word.attempts} missed
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Accuracy by CEFR or JLPT level */}
+              <div className="bg-white dark:bg-slate-900 rounded-2xl p-6 shadow-lg border border-slate-200 dark:border-slate-800">
+                <h2 className="text-xl font-semibold text-slate-900 dark:text-white mb-4">
+                  Accuracy by Level
+                </h2>
+                {stats.accuracyByCefr.length === 0 ? (
+                  <p className="text-sm text-slate-500 dark:text-slate-400">Take a quiz to see your accuracy per level.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {stats.accuracyByCefr.map(level => (
+                      <div key={level.level}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="font-medium text-slate-900 dark:text-slate-100">{level.level}</span>
+                          <span className="text-slate-500 dark:text-slate-400">
+                            {percent(level.correct, level.total)}% ({level.total})
+                          </span>
+                        </div>
+                        <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-emerald-500 to-teal-400"
+                            style={{ width: `${percent(level.correct, level.total)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, type RequestAuth } from './supabase-server'
+
+/**
+ * Authentication guard for API routes
+ * Wrap a route handler with withAuth() and it only runs for signed-in users; everyone
+ * else gets a 401 or 403 with the same JSON shape on every route:
+ *   { error: 'Human readable message', code: 'unauthorized' | 'forbidden' }
+ */
+
+export type AuthErrorCode = 'unauthorized' | 'forbidden'
+
+export interface AuthErrorBody {
+  error: string
+  code: AuthErrorCode
+}
+
+type RouteContext = { params: Promise<Record<string, string>> }
+
+export type AuthenticatedHandler<C> = (request: NextRequest, auth: RequestAuth, context: C) => Promise<Response>
+
+/**
+ * Builds a 401 (no valid session) or 403 (signed in, but not allowed) response
+ */
+export function authErrorResponse(code: AuthErrorCode, message: string): NextResponse<AuthErrorBody> {
+  return NextResponse.json(
+    { error: message, code },
+    {
+      status: code === 'unauthorized' ? 401 : 403,
+      headers: code === 'unauthorized' ? { 'WWW-Authenticate': 'Bearer' } : undefined,
+    }
+  )
+}
+
+/**
+ * Runs the handler only for requests with a valid Supabase access token
+ * Guest (anonymous) accounts are refused with a 403: every route reads or writes a
+ * user's library or spends scraping and AI calls, which needs a registered account.
+ */
+export function withAuth<C = RouteContext>(handler: AuthenticatedHandler<C>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const auth = await authenticateRequest(request)
+    if (!auth) {
+      return authErrorResponse('unauthorized', 'Sign in required')
+    }
+    if (auth.user.is_anonymous) {
+      return authErrorResponse('forbidden', 'This action requires a registered account')
+    }
+    return handler(request, auth, context)
+  }
+}
@@ -0,0 +1,15 @@
+import { supabase } from './supabase'
+
+/**
+ * fetch() for the app's own API routes
+ * Adds the signed-in user's access token so routes can act on their behalf
+ * (see lib/supabase-server.ts).
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const headers = new Headers(init.headers)
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.access_token}`)
+  }
+  return fetch(input, { ...init, headers })
+}
@@ -1,4 +1,6 @@
 import * as cheerio from 'cheerio'
+import type { DictionarySense } from '@/lib/definition-ranker'
+import { scraperFetch, SourceUnavailableError } from '@/lib/scraper-http'
 
 export interface CambridgeData {
   word: string
@@ -7,13 +9,18 @@ export interface CambridgeData {
   definition?: string
   examples?: string[]
   pronunciation?: string
+  senses?: DictionarySense[] // Every sense on the page, the first one matching definition and examples
   found: boolean
 }
 
+// Senses kept per word; long entries like "set" list dozens
+const MAX_SENSES = 12
+
 /**
  * Scrapes vocabulary information from Cambridge Dictionary
  * @param word - The word to look up
  * @returns Scraped data from Cambridge Dictionary
+ * @throws SourceUnavailableError if Cambridge could not be reached
  */
 export async function scrapeCambridgeDictionary(word: string): Promise<CambridgeData> {
   const result: CambridgeData = {
@@ -25,17 +32,16 @@ export async function scrapeCambridgeDictionary(word: string): Promise<Cambridge
     // Cambridge Dictionary URLs
     const url = `https://dictionary.cambridge.org/dictionary/english/${encodeURIComponent(word.toLowerCase())}`
     
-    // Fetch the page with proper headers to avoid blocks
-    const response = await fetch(url, {
+    const response = await scraperFetch(url, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.5',
       },
     })
 
+    // No page for the word (the client throws when the site is down or refusing requests)
     if (!response.ok) {
-      console.log(`Cambridge Dictionary returned status ${response.status} for word: ${word}`)
+      console.log(`Cambridge Dictionary has no page for word: ${word}`)
       return result
     }
 
@@ -68,25 +74,53 @@ export async function scrapeCambridgeDictionary(word: string): Promise<Cambridge
       }
     }
 
-    // Extract the first definition
-    const defBlock = $('.def-block').first()
-    const definition = defBlock.find('.def').first()
-    if (definition.length > 0) {
-      result.definition = definition.text().trim().replace(/:$/, '') // Remove trailing colon
-    }
+    // Extract every sense, with the part of speech of the entry it belongs to
+    // ("bank" has a noun entry and a verb entry, each with several senses)
+    const senses: DictionarySense[] = []
+    entryBody.find('.entry-body__el').each((_, entryElem) => {
+      const entry = $(entryElem)
+      const partOfSpeech = entry.find('.pos-header .pos').first().text().trim() || undefined
+
+      entry.find('.def-block').each((_, blockElem) => {
+        const defBlock = $(blockElem)
+        const definition = defBlock.find('.def').first().text().trim().replace(/:$/, '') // Remove trailing colon
+        if (!definition) return
 
-    // Extract example sentences
-    const examples: string[] = []
-    defBlock.find('.examp').each((i, elem) => {
-      if (i < 2) { // Limit to 2 examples
-        const exampleText = $(elem).text().trim()
-        if (exampleText) {
-          examples.push(exampleText)
+        const sense: DictionarySense = { definition, partOfSpeech }
+
+        // Usage labels such as "formal" or "UK informal"
+        const register = defBlock.find('.def-info .lab, .def-info .usage').first().text().trim()
+        if (register) {
+          sense.register = register
         }
-      }
+
+        const cefrMatch = defBlock.find('.def-info .epp-xref').first().text().match(/([ABC][12])/i)
+        if (cefrMatch) {
+          sense.cefrLevel = cefrMatch[1].toUpperCase()
+        }
+
+        // Extract example sentences
+        const examples: string[] = []
+        defBlock.find('.examp').each((i, elem) => {
+          if (i < 2) { // Limit to 2 examples
+            const exampleText = $(elem).text().trim()
+            if (exampleText) {
+              examples.push(exampleText)
+            }
+          }
+        })
+        if (examples.length > 0) {
+          sense.examples = examples
+        }
+
+        senses.push(sense)
+      })
     })
-    if (examples.length > 0) {
-      result.examples = examples
+
+    if (senses.length > 0) {
+      result.definition = senses[0].definition
+      result.examples = senses[0].examples
+      result.senses = senses.slice(0, MAX_SENSES)
     }
 
     // Extract pronunciation (IPA)
@@ -96,6 +130,8 @@ export async function scrapeCambridgeDictionary(word: string): Promise<Cambridge
     }
 
   } catch (error) {
+    // Unavailable is not the same as not found: let the lookup report it
+    if (error instanceof SourceUnavailableError) throw error
     console.error('Error scraping Cambridge Dictionary:', error)
   }
 
@@ -2,15 +2,33 @@
  * Utilities for ranking and selecting the best definition from multiple sources
  */
 
+/**
+ * One meaning of a word, as a dictionary lists it
+ */
+export interface DictionarySense {
+  definition: string
+  partOfSpeech?: string
+  register?: string     // Usage label, e.g. "formal", "informal", "specialized"
+  examples?: string[]
+  cefrLevel?: string
+  source?: string       // Set when senses of several sources are merged
+}
+
 export interface DefinitionSource {
   source: string
   definition: string
   partOfSpeech?: string
   examples?: string[]
   cefrLevel?: string
+  jlptLevel?: string    // Japanese words: N5-N1
   pronunciation?: string
+  furigana?: string     // Japanese words: reading per kanji, e.g. "勉[べん]強[きょう]"
+  senses?: DictionarySense[] // Every sense the source lists; the first one is `definition`
 }
 
+// Senses kept when the senses of several sources are merged
+const MAX_MERGED_SENSES = 12
+
 /**
  * Patterns that indicate a definition is just describing a word form/tense change
  * These are considered low-quality definitions
@@ -152,6 +170,36 @@ export function getHighestQualityScore(sources: DefinitionSource[]): number {
   return Math.max(...scores)
 }
 
+/**
+ * Collects the senses of all sources, those of the best source first
+ * Sources without a sense list count as one sense. Senses with the same definition
+ * are only kept once.
+ * @param sources - Array of definition sources
+ * @param best - The source the merged definition comes from
+ */
+export function mergeSenses(sources: DefinitionSource[], best: DefinitionSource): DictionarySense[] {
+  const ordered = [best, ...sources.filter(s => s !== best)]
+  const seen = new Set<string>()
+  const senses: DictionarySense[] = []
+
+  for (const source of ordered) {
+    if (!source.definition || source.definition.trim().length === 0) continue
+
+    const list = source.senses && source.senses.length > 0
+      ? source.senses
+      : [{ definition: source.definition, partOfSpeech: source.partOfSpeech, examples: source.examples, cefrLevel: source.cefrLevel }]
+
+    for (const sense of list) {
+      const key = sense.definition.trim().toLowerCase()
+      if (!key || seen.has(key)) continue
+      seen.add(key)
+      senses.push({ ...sense, source: sense.source || source.source })
+    }
+  }
+
+  return senses.slice(0, MAX_MERGED_SENSES)
+}
+
 /**
  * Merges data from multiple sources, prioritizing quality
  * @param sources - Array of definition sources
@@ -170,6 +218,7 @@ export function mergeDefinitionSources(sources: DefinitionSource[]): DefinitionS
   
   // Start with the best definition as base
   const merged: DefinitionSource & { needsAIEnhancement?: boolean } = { ...bestDef }
+  merged.senses = mergeSenses(sources, bestDef)
   
   // Check if AI enhancement is needed
   const highestScore = getHighestQualityScore(sources)
@@ -182,10 +231,18 @@ export function mergeDefinitionSources(sources: DefinitionSource[]): DefinitionS
       merged.cefrLevel = source.cefrLevel
     }
     
+    if (!merged.jlptLevel && source.jlptLevel) {
+      merged.jlptLevel = source.jlptLevel
+    }
+
     // Use pronunciation from any source that has it
     if (!merged.pronunciation && source.pronunciation) {
       merged.pronunciation = source.pronunciation
     }
+
+    if (!merged.furigana && source.furigana) {
+      merged.furigana = source.furigana
+    }
     
     // Combine examples from all sources (limit to 3)
     if (source.examples && source.examples.length > 0) {
@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/supabase-server'
+import type { DefinitionSource } from '@/lib/definition-ranker'
+import type { ProviderId } from './types'
+
+/**
+ * Persistent cache for scraped dictionary entries
+ *
+ * Entries are keyed by (provider, normalized word, language). "Not found" results
+ * are cached too, with a shorter TTL, so a refetch does not ask every provider again
+ * about words it has no entry for.
+ *
+ * Backend is chosen with LOOKUP_CACHE_BACKEND:
+ *   - 'file' (default): JSON file at LOOKUP_CACHE_PATH (default .cache/dictionary-cache.json)
+ *   - 'supabase': the dictionary_cache table (see DEPLOYMENT.md), written with the service
+ *     role key (SUPABASE_SERVICE_ROLE_KEY) so browsers cannot change what everyone is served
+ *   - 'none': caching disabled
+ */
+
+export interface CacheKey {
+  provider: ProviderId
+  word: string
+  lang: string
+}
+
+export interface CacheHit {
+  entry: DefinitionSource | null // null means the provider had no entry for the word
+}
+
+export interface LookupCacheStore {
+  get(key: CacheKey): Promise<CacheHit | undefined>
+  set(key: CacheKey, entry: DefinitionSource | null): Promise<void>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const FOUND_TTL_MS = Number(process.env.LOOKUP_CACHE_TTL_DAYS || 30) * DAY_MS
+const NOT_FOUND_TTL_MS = Number(process.env.LOOKUP_CACHE_NOT_FOUND_TTL_DAYS || 1) * DAY_MS
+
+/**
+ * Normalizes a word for use in a cache key
+ */
+export function normalizeCacheWord(word: string): string {
+  return word.normalize('NFKC').trim().toLowerCase()
+}
+
+function ttlFor(entry: DefinitionSource | null): number {
+  return entry ? FOUND_TTL_MS : NOT_FOUND_TTL_MS
+}
+
+interface FileCacheRecord {
+  entry: DefinitionSource | null
+  expiresAt: number
+}
+
+/**
+ * Local JSON file store, for development and single-server deployments
+ * The file is loaded once and written back at most once per second
+ */
+function createFileCache(filePath: string): LookupCacheStore {
+  let records: Map<string, FileCacheRecord> | null = null
+  let writeTimer: ReturnType<typeof setTimeout> | null = null
+
+  const keyOf = (key: CacheKey) => `${key.provider}:${key.lang}:${normalizeCacheWord(key.word)}`
+
+  const load = async (): Promise<Map<string, FileCacheRecord>> => {
+    if (records) return records
+    try {
+      const raw = await fs.readFile(filePath, 'utf8')
+      records = new Map(Object.entries(JSON.parse(raw)))
+    } catch {
+      records = new Map()
+    }
+    return records
+  }
+
+  const flush = async () => {
+    writeTimer = null
+    if (!records) return
+
+    const now = Date.now()
+    for (const [key, record] of records) {
+      if (record.expiresAt < now) records.delete(key)
+    }
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      const tmpPath = `${filePath}.tmp`
+      await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(records)))
+      await fs.rename(tmpPath, filePath)
+    } catch (error) {
+      console.error('Failed to write lookup cache:', error)
+    }
+  }
+
+  return {
+    async get(key) {
+      const record = (await load()).get(keyOf(key))
+      if (!record || record.expiresAt < Date.now()) return undefined
+      return { entry: record.entry }
+    },
+    async set(key, entry) {
+      const store = await load()
+      store.set(keyOf(key), { entry, expiresAt: Date.now() + ttlFor(entry) })
+      if (!writeTimer) writeTimer = setTimeout(flush, 1000)
+    },
+  }
+}
+
+/**
+ * Supabase store, shared by every server instance
+ * @param supabase - Service role client; the table has no policies for other roles
+ */
+function createSupabaseCache(supabase: SupabaseClient): LookupCacheStore {
+  return {
+    async get(key) {
+      const { data, error } = await supabase
+        .from('dictionary_cache')
+        .select('entry, expires_at')
+        .eq('provider', key.provider)
+        .eq('word', normalizeCacheWord(key.word))
+        .eq('lang', key.lang)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Failed to read lookup cache:', error.message)
+        return undefined
+      }
+      if (!data || new Date(data.expires_at).getTime() < Date.now()) return undefined
+      return { entry: data.entry }
+    },
+    async set(key, entry) {
+      const { error } = await supabase
+        .from('dictionary_cache')
+        .upsert({
+          provider: key.provider,
+          word: normalizeCacheWord(key.word),
+          lang: key.lang,
+          entry,
+          expires_at: new Date(Date.now() + ttlFor(entry)).toISOString(),
+        }, { onConflict: 'provider,word,lang' })
+
+      if (error) {
+        console.error('Failed to write lookup cache:', error.message)
+      }
+    },
+  }
+}
+
+const noCache: LookupCacheStore = {
+  async get() { return undefined },
+  async set() {},
+}
+
+let cacheStore: LookupCacheStore | null = null
+
+/**
+ * Gets the configured lookup cache (created on first use)
+ */
+export function getLookupCache(): LookupCacheStore {
+  if (cacheStore) return cacheStore
+
+  const backend = process.env.LOOKUP_CACHE_BACKEND || 'file'
+  if (backend === 'supabase') {
+    const serviceClient = createServiceClient()
+    if (serviceClient) {
+      cacheStore = createSupabaseCache(serviceClient)
+    } else {
+      console.error('LOOKUP_CACHE_BACKEND=supabase needs SUPABASE_SERVICE_ROLE_KEY; lookup cache disabled')
+      cacheStore = noCache
+    }
+  } else if (backend === 'none') {
+    cacheStore = noCache
+  } else {
+    const filePath = process.env.LOOKUP_CACHE_PATH || path.join(process.cwd(), '.cache', 'dictionary-cache.json')
+    cacheStore = createFileCache(filePath)
+  }
+
+  return cacheStore
+}
@@ -0,0 +1,209 @@
+import type { DefinitionSource } from '@/lib/definition-ranker'
+import { completeJSON, LLMError } from '@/lib/llm/client'
+import { repairWordEntry, type WordEntry } from '@/lib/llm/schema'
+import type { LLMConfig } from '@/lib/llm/types'
+import { DEFAULT_LANGUAGE } from '@/lib/languages/registry'
+import type { Language } from '@/lib/languages/types'
+import { limitSenses, sensesFromDictionary, type VocabSense } from '@/lib/senses'
+import { formatDictionaryEntry, type CacheStats } from './lookup'
+
+/**
+ * A word with its merged dictionary entry, ready for AI processing
+ */
+export type ScrapedWord = DefinitionSource & {
+  word: string
+  lemma: string  // Form the entry was found under, e.g. "run" for "running"
+  needsAIEnhancement?: boolean
+}
+
+/**
+ * The structured fields stored in vocab_library, and the senses stored in vocab_senses
+ */
+export interface EnrichedWord {
+  word: string
+  lemma: string
+  part_of_speech: string
+  cefr_level: string
+  meaning_primary: string
+  usage_tips: string
+  senses: VocabSense[]
+}
+
+/**
+ * How a batch was enriched
+ * - ai: the AI response was used
+ * - unavailable: the AI request failed, scraped data was used
+ * - fallback: the AI returned nothing usable, scraped data was used
+ */
+export type EnrichmentStatus = 'ai' | 'unavailable' | 'fallback'
+
+/**
+ * Events sent by the streaming mode of /api/fetch-dictionary-batch, one per word and step
+ */
+export type BatchEvent =
+  | { type: 'start'; total: number }
+  | { type: 'scraped'; word: string; lemma: string; source: string }
+  | { type: 'enriched'; word: string; data: EnrichedWord; status: EnrichmentStatus }
+  | { type: 'failed'; word: string; reason: string }
+  | { type: 'done'; total: number; enriched: number; failed: number; cache: CacheStats }
+  | { type: 'error'; error: string }
+
+// Helper function to truncate definition to max 20 words
+export function truncateDefinition(text: string, maxWords: number = 20): string {
+  if (!text) return text
+  const words = text.trim().split(/\s+/)
+  if (words.length <= maxWords) return text
+  return words.slice(0, maxWords).join(' ') + '...'
+}
+
+/**
+ * Builds the stored fields straight from scraped data (used when the AI is unavailable)
+ */
+function fromScraped(scraped: ScrapedWord[], maxSenses?: number): EnrichedWord[] {
+  return scraped.map(data => ({
+    word: data.word,
+    lemma: data.lemma,
+    part_of_speech: data.partOfSpeech || '',
+    cefr_level: data.cefrLevel || data.jlptLevel || 'n.a.',
+    meaning_primary: truncateDefinition(data.definition || ''),
+    usage_tips: data.examples?.[0] || '',
+    senses: limitSenses(sensesFromDictionary(data.senses, data.definition || '', data.partOfSpeech), maxSenses)
+  }))
+}
+
+/**
+ * The level codes the AI may choose from, formatted for a JSON template
+ */
+export function levelChoices(language: Language): string {
+  return language.levels.levels.map(l => `"${l.code}"`).join(' | ')
+}
+
+/**
+ * Prompt rules for the language of the words: which level scale to use and, for
+ * languages other than English, that definitions are still written in English
+ */
+export function languageRules(language: Language): string {
+  const rules = [`- For cefr_level: give the ${language.levels.name} level; use the exact level if provided, otherwise estimate based on complexity`]
+  if (language.code !== DEFAULT_LANGUAGE.code) {
+    rules.push(`- The words are ${language.name}: write meaning_primary in English and usage_tips as an example sentence in ${language.name}`)
+  }
+  return rules.join('\n')
+}
+
+function batchSystemPrompt(language: Language): string {
+  return `You are an intelligent dictionary assistant processing MULTIPLE words. Some words may only have grammatical definitions (like "past tense of X"), but you should provide ACTUAL CONTEXTUAL MEANINGS.
+
+Return ONLY a valid JSON array with this exact structure:
+[
+  {
+    "word": "the word",
+    "part_of_speech": "noun" | "verb" | "adjective" | "adverb" | "preposition" | "conjunction" | "pronoun" | "interjection",
+    "cefr_level": ${levelChoices(language)},
+    "meaning_primary": "the actual contextual meaning or definition",
+    "usage_tips": "example sentence showing real-world usage"
+  },
+  ... (more words)
+]
+
+CRITICAL Rules:
+- Return a JSON ARRAY with one object per word
+- For part_of_speech: convert to lowercase full word (e.g., "noun" not "n.")
+${languageRules(language)}
+- For meaning_primary: If the dictionary only says "past participle of X" or similar, IGNORE that and provide the REAL CONTEXTUAL MEANING instead
+  * Example: "cramming" should be "studying intensively in a short time before an exam" NOT "present participle of cram"
+  * Example: "vetted" should be "examined or investigated carefully" NOT "past tense of vet"
+- For usage_tips: use scraped examples if available, or create a practical example sentence
+- Return ONLY the JSON array, no markdown code blocks or additional text
+- Process ALL words provided`
+}
+
+/**
+ * Fallback values for a word's fields, taken from its scraped entry
+ */
+export function scrapedFields(data: DefinitionSource): Partial<WordEntry> {
+  return {
+    part_of_speech: data.partOfSpeech,
+    cefr_level: data.cefrLevel || data.jlptLevel,
+    meaning_primary: data.definition,
+    usage_tips: data.examples?.[0],
+  }
+}
+
+// The batch response must be an array of objects; bad fields are repaired per word
+function validateBatch(value: unknown): string[] {
+  if (!Array.isArray(value)) return ['Expected a JSON array']
+  if (value.some(item => !item || typeof item !== 'object' || typeof item.word !== 'string')) {
+    return ['Every array item must be an object with a "word" string']
+  }
+  return []
+}
+
+/**
+ * Uses AI to turn a batch of scraped entries into the stored fields
+ * Falls back to the scraped data when the AI fails or returns something unusable
+ * @param scraped - Words found in at least one dictionary
+ * @param llm - The LLM backend to use (see getLLMConfig)
+ * @param language - Language of the words
+ * @param maxSenses - The learner's maxDefinitions setting; every sense is kept when omitted
+ * @returns One result per word, and how the batch was processed
+ */
+export async function enrichBatch(
+  scraped: ScrapedWord[],
+  llm: LLMConfig,
+  language: Language = DEFAULT_LANGUAGE,
+  maxSenses?: number
+): Promise<{ data: EnrichedWord[]; status: EnrichmentStatus }> {
+  const batchScrapedData = scraped.map((data, index) => {
+    return `\n--- Word ${index + 1}: ${data.word} (from ${data.source}) ---\n${formatDictionaryEntry(data.word, data)}`
+  }).join('\n')
+
+  console.log(`\n🤖 Sending ${scraped.length} words to ${llm.name} for batch processing...`)
+
+  // Check if any words need AI enhancement
+  const wordsNeedingEnhancement = scraped.filter(r => r.needsAIEnhancement)
+  if (wordsNeedingEnhancement.length > 0) {
+    console.log(`   ⚡ ${wordsNeedingEnhancement.length} word(s) need AI enhancement for better definitions`)
+  }
+
+  const userPrompt = `Here is the data scraped from dictionaries for ${scraped.length} words:\n${batchScrapedData}\n\nConvert ALL of these words to the required JSON array format.`
+
+  let response: { value: unknown; issues: string[] }
+  try {
+    response = await completeJSON(llm, [
+      { role: 'system', content: batchSystemPrompt(language) },
+      { role: 'user', content: userPrompt }
+    ], validateBatch, { maxTokens: 3000 }) // Increased for batch processing
+  } catch (error) {
+    if (!(error instanceof LLMError)) throw error
+    console.error(`❌ ${error.message}`)
+    console.log('📝 Using scraped data as fallback (no AI processing)')
+    return { data: fromScraped(scraped, maxSenses), status: error.status === undefined || error.status >= 400 ? 'unavailable' : 'fallback' }
+  }
+
+  if (response.issues.length > 0) {
+    console.error('Failed to parse AI response, using scraped data as fallback')
+    return { data: fromScraped(scraped, maxSenses), status: 'fallback' }
+  }
+
+  console.log('🤖 AI processed batch response received')
+
+  // Validate each word, repairing bad fields from the original scraped data
+  const results = (response.value as Record<string, unknown>[]).map(item => {
+    const word = String(item.word)
+    const original = scraped.find(s => s.word.toLowerCase() === word.toLowerCase())
+    const { entry, repaired } = repairWordEntry(item, original && scrapedFields(original), language.levels)
+    if (repaired.length > 0) {
+      console.log(`   🔧 "${word}": used scraped data for ${repaired.join(', ')}`)
+    }
+
+    return {
+      word: original?.word || word,
+      lemma: original?.lemma || word,
+      ...entry,
+      meaning_primary: truncateDefinition(entry.meaning_primary),
+      senses: limitSenses(sensesFromDictionary(original?.senses, entry.meaning_primary, entry.part_of_speech), maxSenses)
+    }
+  })
+
+  return { data: results, status: 'ai' }
+}
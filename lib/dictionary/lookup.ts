@@ -0,0 +1,241 @@
+import type { DictionarySource } from '@/lib/settings-context'
+import { mergeDefinitionSources, type DefinitionSource } from '@/lib/definition-ranker'
+import { getLanguage } from '@/lib/languages/registry'
+import type { Language, LanguageCode } from '@/lib/languages/types'
+import { resolveProviderOrder } from './registry'
+import type { DictionaryProvider } from './types'
+import { getLookupCache } from './cache'
+
+/**
+ * Default time a single provider may take before it is skipped
+ * Leaves room for lib/scraper-http.ts to wait for its turn on a busy host and retry.
+ */
+const DEFAULT_PROVIDER_TIMEOUT_MS = 20000
+
+export interface LookupOptions {
+  preferred?: DictionarySource  // The user's defaultDictionary setting
+  timeoutMs?: number            // Per-provider timeout
+  language?: LanguageCode       // Language of the word, decides which providers are asked
+}
+
+export interface CacheStats {
+  hits: number   // Provider results served from the lookup cache
+  misses: number // Provider results that had to be scraped
+}
+
+export interface LookupResult {
+  word: string
+  lemma: string               // Form the entry was found under, e.g. "run" for "running"
+  entry: (DefinitionSource & { needsAIEnhancement?: boolean }) | null // Merged best definition
+  sources: DefinitionSource[] // Every provider result that had a definition
+  tried: string[]             // Names of the providers that were queried
+  unavailable: string[]       // Names of the providers that could not be asked (down, timed out, failing)
+  cache: CacheStats
+}
+
+/**
+ * Rejects if a promise does not settle within the given time
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms)
+    promise.then(
+      value => { clearTimeout(timer); resolve(value) },
+      error => { clearTimeout(timer); reject(error) }
+    )
+  })
+}
+
+/**
+ * Queries a set of providers in parallel, serving results from the lookup cache when possible
+ * Local providers are always queried directly. Failures and timeouts are logged, added to
+ * `unavailable` and never cached
+ * @returns Definitions found, in the same order as the providers
+ */
+async function queryProviders(
+  providers: DictionaryProvider[],
+  word: string,
+  language: LanguageCode,
+  timeoutMs: number,
+  cache: CacheStats,
+  unavailable: Set<string>
+): Promise<DefinitionSource[]> {
+  const store = getLookupCache()
+
+  const settled = await Promise.allSettled(
+    providers.map(async provider => {
+      if (provider.local) {
+        return withTimeout(provider.lookup(word, language), timeoutMs, provider.name)
+      }
+
+      const key = { provider: provider.id, word, lang: language }
+      const cached = await store.get(key)
+      if (cached) {
+        cache.hits++
+        return cached.entry
+      }
+
+      cache.misses++
+      const entry = await withTimeout(provider.lookup(word, language), timeoutMs, provider.name)
+      await store.set(key, entry)
+      return entry
+    })
+  )
+
+  const found: DefinitionSource[] = []
+  settled.forEach((result, i) => {
+    const name = providers[i].name
+    if (result.status === 'rejected') {
+      console.error(`   ❌ ${name} lookup failed:`, result.reason instanceof Error ? result.reason.message : result.reason)
+      unavailable.add(name)
+    } else if (result.value) {
+      console.log(`   ✅ Found in ${name}`)
+      found.push(result.value)
+    } else {
+      console.log(`   ➖ Not found in ${name}`)
+    }
+  })
+
+  return found
+}
+
+/**
+ * Forms to look a word up under, in order: its candidate lemmas, then the word as typed
+ * A word that is its own lemma keeps its original spelling, e.g. "London".
+ */
+function lookupForms(word: string, language: Language): string[] {
+  const normalized = word.trim().toLowerCase()
+  const lemmas = language.lemmatize(normalized)
+  return lemmas.includes(normalized)
+    ? [word, ...lemmas.filter(lemma => lemma !== normalized)]
+    : [...lemmas, word]
+}
+
+/**
+ * Looks a word up across dictionary providers
+ * Inflected forms are looked up under their lemma, so "running" gets the entry for
+ * "run" instead of "present participle of run". Other candidate lemmas and the word
+ * itself are tried in turn when nothing is found.
+ * All primary providers are queried in parallel and their definitions are merged
+ * by quality (see lib/definition-ranker.ts). Fallback providers are only queried
+ * when no primary provider has a definition.
+ * A word with no entry is only "not found" when `unavailable` is empty; otherwise a
+ * provider that could not be asked may have it.
+ * @param word - The word to look up
+ * @param options - Provider preference, language and timeout
+ * @returns The merged definition, the raw sources, and the providers that were tried
+ */
+export async function lookupWord(word: string, options: LookupOptions = {}): Promise<LookupResult> {
+  const { preferred = 'auto', timeoutMs = DEFAULT_PROVIDER_TIMEOUT_MS } = options
+  const language = getLanguage(options.language)
+  const cache: CacheStats = { hits: 0, misses: 0 }
+  const unavailable = new Set<string>()
+
+  // Keep the preferred order: the ranker breaks ties in favour of earlier sources
+  const ordered = resolveProviderOrder(preferred, language)
+  const primary = ordered.filter(p => !p.fallback || p.id === preferred)
+  const fallback = ordered.filter(p => !primary.includes(p))
+
+  const forms = lookupForms(word, language)
+  const tried = primary.map(p => p.name)
+  let sources: DefinitionSource[] = []
+  let lemma = word
+
+  for (const providers of fallback.length > 0 ? [primary, fallback] : [primary]) {
+    if (providers === fallback) tried.push(...fallback.map(p => p.name))
+
+    for (const form of forms) {
+      if (form !== word) console.log(`   🔤 Looking up "${word}" as "${form}"`)
+      sources = await queryProviders(providers, form, language.code, timeoutMs, cache, unavailable)
+      if (sources.length > 0) {
+        lemma = form
+        break
+      }
+    }
+    if (sources.length > 0) break
+  }
+
+  if (sources.length === 0) {
+    return { word, lemma, entry: null, sources, tried, unavailable: [...unavailable], cache }
+  }
+
+  return { word, lemma, entry: mergeDefinitionSources(sources), sources, tried, unavailable: [...unavailable], cache }
+}
+
+/**
+ * Formats a dictionary entry for AI processing
+ * @param word - The word that was looked up
+ * @param entry - The normalized dictionary entry
+ * @returns Formatted string for AI
+ */
+export function formatDictionaryEntry(word: string, entry: DefinitionSource & { needsAIEnhancement?: boolean }): string {
+  let formatted = `Word: ${word}\n`
+  formatted += `Source: ${entry.source}\n`
+
+  if (entry.pronunciation) {
+    formatted += `Pronunciation: ${entry.pronunciation}\n`
+  }
+
+  if (entry.furigana) {
+    formatted += `Furigana: ${entry.furigana}\n`
+  }
+
+  if (entry.partOfSpeech) {
+    formatted += `Part of Speech: ${entry.partOfSpeech}\n`
+  }
+
+  if (entry.cefrLevel) {
+    formatted += `CEFR Level: ${entry.cefrLevel}\n`
+  }
+
+  if (entry.jlptLevel) {
+    formatted += `JLPT Level: ${entry.jlptLevel}\n`
+  }
+
+  formatted += `Definition: ${entry.definition}\n`
+
+  // Other senses, so a polysemous word's meaning can be told apart from the rest
+  const otherSenses = (entry.senses || []).filter(s => s.definition !== entry.definition)
+  if (otherSenses.length > 0) {
+    formatted += `Other senses:\n`
+    otherSenses.slice(0, 5).forEach(sense => {
+      formatted += `  - ${sense.partOfSpeech ? `(${sense.partOfSpeech}) ` : ''}${sense.definition}\n`
+    })
+  }
+
+  if (entry.examples && entry.examples.length > 0) {
+    formatted += `Examples:\n`
+    entry.examples.forEach((ex, i) => {
+      formatted += `  ${i + 1}. ${ex}\n`
+    })
+  }
+
+  if (entry.needsAIEnhancement) {
+    formatted += `Note: The dictionaries only describe a word form (e.g. "past tense of ..."). Provide the real contextual meaning.\n`
+  }
+
+  return formatted
+}
+
+/**
+ * Builds the cache headers sent with lookup responses
+ * X-Cache is HIT when nothing had to be scraped, MISS when nothing came from the cache
+ */
+export function cacheHeaders(cache: CacheStats): Record<string, string> {
+  const status = cache.misses === 0 ? 'HIT' : cache.hits === 0 ? 'MISS' : 'PARTIAL'
+  return {
+    'X-Cache': status,
+    'X-Cache-Hits': cache.hits.toString(),
+    'X-Cache-Misses': cache.misses.toString(),
+  }
+}
+
+/**
+ * Builds a human-readable list of provider names, e.g. "Cambridge, Oxford, or Urban Dictionary"
+ */
+export function describeProviders(names: string[]): string {
+  const short = names.map(n => n.replace(/ Dictionary$/, ''))
+  if (short.length <= 1) return names.join('')
+  if (short.length === 2) return `${short[0]} or ${names[1]}`
+  return `${short.slice(0, -1).join(', ')}, or ${names[names.length - 1]}`
+}
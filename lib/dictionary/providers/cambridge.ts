@@ -0,0 +1,21 @@
+import { scrapeCambridgeDictionary } from '@/lib/cambridge-scraper'
+import type { DictionaryProvider } from '../types'
+
+export const cambridgeProvider: DictionaryProvider = {
+  id: 'cambridge',
+  name: 'Cambridge Dictionary',
+  async lookup(word) {
+    const data = await scrapeCambridgeDictionary(word)
+    if (!data.found || !data.definition) return null
+
+    return {
+      source: 'Cambridge Dictionary',
+      definition: data.definition,
+      partOfSpeech: data.partOfSpeech,
+      cefrLevel: data.cefrLevel,
+      examples: data.examples,
+      pronunciation: data.pronunciation,
+      senses: data.senses,
+    }
+  },
+}
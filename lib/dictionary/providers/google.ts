@@ -0,0 +1,19 @@
+import { scrapeGoogleTranslate } from '@/lib/google-translate-scraper'
+import type { DictionaryProvider } from '../types'
+
+export const googleProvider: DictionaryProvider = {
+  id: 'google',
+  name: 'Google Translate',
+  async lookup(word, language) {
+    const data = await scrapeGoogleTranslate(word, language)
+    if (!data.found || !data.definition) return null
+
+    return {
+      source: 'Google Translate',
+      definition: data.definition,
+      partOfSpeech: data.partOfSpeech,
+      examples: data.examples,
+      senses: data.senses,
+    }
+  },
+}
@@ -0,0 +1,22 @@
+import { lookupJMdict } from '@/lib/jmdict'
+import type { DictionaryProvider } from '../types'
+
+export const jmdictProvider: DictionaryProvider = {
+  id: 'jmdict',
+  name: 'JMdict',
+  local: true,
+  async lookup(word) {
+    const data = await lookupJMdict(word)
+    if (!data.found || !data.definition) return null
+
+    return {
+      source: 'JMdict',
+      definition: data.definition,
+      partOfSpeech: data.partOfSpeech,
+      jlptLevel: data.jlptLevel,
+      pronunciation: data.reading,
+      furigana: data.furigana,
+      senses: data.senses,
+    }
+  },
+}
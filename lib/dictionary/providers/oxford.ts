@@ -0,0 +1,21 @@
+import { scrapeOxfordDictionary } from '@/lib/oxford-scraper'
+import type { DictionaryProvider } from '../types'
+
+export const oxfordProvider: DictionaryProvider = {
+  id: 'oxford',
+  name: 'Oxford Dictionary',
+  async lookup(word) {
+    const data = await scrapeOxfordDictionary(word)
+    if (!data.found || !data.definition) return null
+
+    return {
+      source: 'Oxford Dictionary',
+      definition: data.definition,
+      partOfSpeech: data.partOfSpeech,
+      cefrLevel: data.cefrLevel,
+      examples: data.examples,
+      pronunciation: data.pronunciation,
+      senses: data.senses,
+    }
+  },
+}
@@ -0,0 +1,20 @@
+import { scrapeUrbanDictionary } from '@/lib/urban-dictionary-scraper'
+import type { DictionaryProvider } from '../types'
+
+export const urbanProvider: DictionaryProvider = {
+  id: 'urban',
+  name: 'Urban Dictionary',
+  fallback: true,
+  async lookup(word) {
+    const data = await scrapeUrbanDictionary(word)
+    if (!data.found || !data.definition) return null
+
+    return {
+      source: 'Urban Dictionary',
+      definition: data.definition,
+      // Urban Dictionary has no word classes, its entries are colloquial by nature
+      partOfSpeech: 'informal',
+      examples: data.examples,
+    }
+  },
+}
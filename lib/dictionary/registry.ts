@@ -0,0 +1,56 @@
+import type { DictionarySource } from '@/lib/settings-context'
+import type { Language } from '@/lib/languages/types'
+import { DEFAULT_LANGUAGE } from '@/lib/languages/registry'
+import type { DictionaryProvider, ProviderId } from './types'
+import { cambridgeProvider } from './providers/cambridge'
+import { oxfordProvider } from './providers/oxford'
+import { jmdictProvider } from './providers/jmdict'
+import { googleProvider } from './providers/google'
+import { urbanProvider } from './providers/urban'
+
+/**
+ * All available providers, in the order used for 'auto'
+ * Urban Dictionary stays last: it is a fallback for slang, not a learner's dictionary
+ */
+const PROVIDERS: DictionaryProvider[] = [
+  cambridgeProvider,
+  oxfordProvider,
+  jmdictProvider,
+  googleProvider,
+  urbanProvider,
+]
+
+/**
+ * Checks whether a value is a valid dictionary preference
+ * @param value - Untrusted value, e.g. from a request body
+ */
+export function isDictionarySource(value: unknown): value is DictionarySource {
+  return value === 'auto' || PROVIDERS.some(p => p.id === value)
+}
+
+/**
+ * Gets a provider by id
+ * @param id - The provider id
+ * @returns The provider, or undefined if no such provider is registered
+ */
+export function getProvider(id: ProviderId): DictionaryProvider | undefined {
+  return PROVIDERS.find(p => p.id === id)
+}
+
+/**
+ * Resolves the order in which providers should be queried
+ * Only providers listed for the language are used. The preferred provider goes first,
+ * the rest keep their default order; a preference the language has no provider for is ignored.
+ * @param preferred - The user's defaultDictionary setting
+ * @param language - Language of the word being looked up
+ * @returns Providers in query order
+ */
+export function resolveProviderOrder(preferred: DictionarySource = 'auto', language: Language = DEFAULT_LANGUAGE): DictionaryProvider[] {
+  const available = PROVIDERS.filter(p => language.providers.includes(p.id))
+  if (preferred === 'auto') return available
+
+  const first = available.find(p => p.id === preferred)
+  if (!first) return available
+
+  return [first, ...available.filter(p => p !== first)]
+}
@@ -0,0 +1,33 @@
+import type { DictionarySource } from '@/lib/settings-context'
+import type { DefinitionSource } from '@/lib/definition-ranker'
+import type { LanguageCode } from '@/lib/languages/types'
+
+/**
+ * Identifier of a concrete dictionary provider ('auto' is a preference, not a provider)
+ */
+export type ProviderId = Exclude<DictionarySource, 'auto'>
+
+/**
+ * Common interface every dictionary source implements
+ * Providers wrap a scraper and normalize its output to a DefinitionSource
+ */
+export interface DictionaryProvider {
+  id: ProviderId
+  name: string
+  /**
+   * Fallback providers are only queried when no other provider has a definition,
+   * unless the user picked them as their preferred source
+   */
+  fallback?: boolean
+  /**
+   * Local providers read data shipped with the app; their results skip the lookup cache
+   */
+  local?: boolean
+  /**
+   * Looks up a word
+   * @param word - The word to look up
+   * @param language - Language of the word, one the provider is listed for in lib/languages
+   * @returns Normalized definition, or null if the word was not found
+   */
+  lookup(word: string, language: LanguageCode): Promise<DefinitionSource | null>
+}
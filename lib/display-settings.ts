@@ -0,0 +1,34 @@
+import type { AppSettings } from '@/lib/settings-context'
+
+/**
+ * How the appearance and accessibility settings change the page
+ * Font size, contrast and motion are set as data attributes on <html> and styled in
+ * app/globals.css, so they reach every page; the word list takes its layout from here.
+ */
+
+/**
+ * Data attributes for the <html> element
+ */
+export function displayAttributes(settings: Pick<AppSettings, 'fontSize' | 'highContrast' | 'reduceAnimations'>): Record<string, string> {
+  return {
+    'data-font-size': settings.fontSize,
+    'data-contrast': settings.highContrast ? 'high' : 'normal',
+    'data-motion': settings.reduceAnimations ? 'reduced' : 'full',
+  }
+}
+
+export interface WordListLayout {
+  grid: string          // Classes of the grid holding the word cards
+  card: string          // Spacing classes of a card
+  title: string         // Size of the word on a card
+  showExamples: boolean // Show the example sentence under the meaning
+}
+
+/**
+ * Layout of the word list: compact view fits more, smaller cards on a row
+ */
+export function wordListLayout(settings: Pick<AppSettings, 'compactView' | 'showExamples'>): WordListLayout {
+  return settings.compactView
+    ? { grid: 'grid gap-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4', card: 'rounded-xl p-3', title: 'text-lg', showExamples: settings.showExamples }
+    : { grid: 'grid gap-4 md:grid-cols-2 lg:grid-cols-3', card: 'rounded-2xl p-6', title: 'text-2xl', showExamples: settings.showExamples }
+}
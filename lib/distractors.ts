@@ -0,0 +1,95 @@
+import { normalizePartOfSpeech } from './llm/schema'
+import { getLanguageById } from './languages/registry'
+import { levelIndex } from './languages/levels'
+import { keywordSimilarity, normalizeText } from './text-similarity'
+
+/**
+ * Picks wrong answers for multiple-choice questions
+ * Distractors come from the whole library and are ranked by how plausible they are:
+ * same language, same part of speech, same or nearby level and answers that share words.
+ * Answers are definitions unless the caller asks for another field, e.g. glosses or the words.
+ */
+
+export interface DistractorCandidate {
+  id: number
+  part_of_speech?: string
+  cefr_level?: string
+  meaning_primary?: string
+  lang_id?: number
+}
+
+export interface DistractorOptions<T extends DistractorCandidate> {
+  count?: number
+  answer?: (candidate: T) => string | undefined // Text shown as an option (default: meaning_primary)
+  random?: () => number // Injectable for deterministic results
+}
+
+// Definitions this similar are likely synonyms and would make the question ambiguous
+const NEAR_DUPLICATE_SIMILARITY = 0.8
+
+// Random noise added to scores so repeated quizzes do not always show the same options
+const JITTER = 0.5
+
+function plausibility(target: DistractorCandidate, candidate: DistractorCandidate, correct: string, option: string, similarity: number): number {
+  let score = similarity * 4
+
+  const targetPos = normalizePartOfSpeech(target.part_of_speech)
+  if (targetPos && targetPos === normalizePartOfSpeech(candidate.part_of_speech)) {
+    score += 3
+  }
+
+  // Levels are only comparable within a language's scheme
+  const language = getLanguageById(target.lang_id)
+  if (language === getLanguageById(candidate.lang_id)) {
+    score += 1
+
+    const targetLevel = levelIndex(language.levels, target.cefr_level)
+    const candidateLevel = levelIndex(language.levels, candidate.cefr_level)
+    if (targetLevel !== -1 && candidateLevel !== -1) {
+      score += Math.max(0, 2 - Math.abs(targetLevel - candidateLevel))
+    }
+  }
+
+  // Similar length keeps the right answer from standing out
+  score += Math.min(correct.length, option.length) / Math.max(correct.length, option.length)
+
+  return score
+}
+
+/**
+ * Picks distractor answers for a word
+ * Every returned answer is different from the correct one and from each other. With a
+ * small library fewer than `count` distractors may be returned.
+ * @param target - The word being asked about
+ * @param library - All words the distractors may come from
+ */
+export function pickDistractors<T extends DistractorCandidate>(
+  target: T,
+  library: T[],
+  { count = 3, answer = c => c.meaning_primary, random = Math.random }: DistractorOptions<T> = {}
+): string[] {
+  const correct = answer(target)?.trim()
+  if (!correct) return []
+
+  const seen = new Set([normalizeText(correct)])
+  const ranked: { option: string; score: number }[] = []
+
+  for (const candidate of library) {
+    const option = answer(candidate)?.trim()
+    if (candidate.id === target.id || !option) continue
+
+    const key = normalizeText(option)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+
+    const similarity = keywordSimilarity(correct, option)
+    if (similarity >= NEAR_DUPLICATE_SIMILARITY) continue
+
+    ranked.push({ option, score: plausibility(target, candidate, correct, option, similarity) + random() * JITTER })
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(r => r.option)
+}
@@ -0,0 +1,11 @@
+/**
+ * Error for a document that cannot be imported: an unsupported format, a damaged file,
+ * or a page that could not be fetched
+ * The message is meant for the user.
+ */
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DocumentError'
+  }
+}
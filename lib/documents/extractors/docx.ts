@@ -0,0 +1,35 @@
+import * as cheerio from 'cheerio'
+import { DocumentError } from '../errors'
+import type { DocumentExtractor } from '../types'
+import { openZip } from '../zip'
+
+/**
+ * Reads the body text of a Word (DOCX) document, one paragraph per line
+ * Text runs (w:t), tabs and line breaks are read from word/document.xml; the title comes
+ * from the document properties. Word documents have no fixed pages.
+ */
+export const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  async extract(data) {
+    const zip = openZip(data)
+    const document = zip.read('word/document.xml')
+    if (!document) throw new DocumentError('The Word document has no body')
+
+    const $ = cheerio.load(document.toString('utf8'), { xml: true })
+    const paragraphs: string[] = []
+    $('w\\:body w\\:p').each((_, paragraph) => {
+      let text = ''
+      $(paragraph).find('w\\:t, w\\:tab, w\\:br, w\\:cr').each((_, run) => {
+        if ($(run).closest('w\\:p')[0] !== paragraph) return // Text box paragraphs are read on their own
+        if (run.tagName === 'w:t') text += $(run).text()
+        else text += run.tagName === 'w:tab' ? '\t' : '\n'
+      })
+      paragraphs.push(text)
+    })
+
+    const properties = zip.read('docProps/core.xml')
+    const title = properties ? cheerio.load(properties.toString('utf8'), { xml: true })('dc\\:title').text().trim() || null : null
+
+    return { title, sections: [{ text: paragraphs.join('\n\n'), page: null }] }
+  },
+}
@@ -0,0 +1,55 @@
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { DocumentError } from '../errors'
+import type { DocumentExtractor, DocumentSection } from '../types'
+import { openZip } from '../zip'
+import { htmlToText } from './html'
+
+/**
+ * Reads the chapters of an EPUB book in reading order
+ * The package file named in META-INF/container.xml lists the book's files (manifest) and
+ * their reading order (spine). Every chapter becomes a section; books have no fixed pages.
+ */
+export const epubExtractor: DocumentExtractor = {
+  format: 'epub',
+  async extract(data) {
+    const zip = openZip(data)
+
+    const container = zip.read('META-INF/container.xml')
+    const packagePath = container && cheerio.load(container.toString('utf8'), { xml: true })('rootfile').attr('full-path')
+    const packageFile = packagePath && zip.read(packagePath)
+    if (!packageFile) throw new DocumentError('The EPUB file has no package document')
+
+    const $ = cheerio.load(packageFile.toString('utf8'), { xml: true })
+    const title = $('metadata').children().filter((_, el) => el.tagName === 'dc:title' || el.tagName === 'title').first().text().trim() || null
+
+    const manifest = new Map<string, { href: string; type: string }>()
+    $('manifest > item').each((_, item) => {
+      const { id, href, 'media-type': type } = item.attribs
+      if (id && href) manifest.set(id, { href, type: type || '' })
+    })
+
+    const sections: DocumentSection[] = []
+    $('spine > itemref').each((_, itemref) => {
+      const item = manifest.get(itemref.attribs.idref)
+      if (!item || !/html/.test(item.type)) return
+
+      // Paths in the manifest are relative to the package file and URL-encoded
+      let href: string
+      try {
+        href = decodeURIComponent(item.href.split('#')[0])
+      } catch {
+        throw new DocumentError('The EPUB file is damaged')
+      }
+      const file = path.posix.join(path.posix.dirname(packagePath), href)
+      const chapter = zip.read(file)
+      if (!chapter) return
+
+      const { text } = htmlToText(chapter.toString('utf8'))
+      if (text) sections.push({ text, page: null })
+    })
+
+    if (sections.length === 0) throw new DocumentError('The EPUB file has no readable chapters')
+    return { title, sections }
+  },
+}
@@ -0,0 +1,58 @@
+import * as cheerio from 'cheerio'
+import type { DocumentExtractor } from '../types'
+import { decodeText } from './text'
+
+// Elements that never hold the prose of a page
+const SKIPPED = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, button, figure > img'
+
+// Elements that start a new block of text
+const BLOCKS = 'p, div, section, article, main, li, dt, dd, h1, h2, h3, h4, h5, h6, blockquote, pre, tr, td, th, figcaption, caption'
+
+// Private-use characters standing for line and paragraph breaks while whitespace is collapsed
+const PARAGRAPH_BREAK = '\uE000'
+const LINE_BREAK = '\uE001'
+
+/**
+ * Reads the readable text of an HTML page, one paragraph per block element
+ * Navigation, headers, footers and sidebars are left out; a page with an <article> or
+ * <main> element is reduced to it.
+ */
+export function htmlToText(html: string): { title: string | null; text: string } {
+  const $ = cheerio.load(html)
+  const title = $('meta[property="og:title"]').attr('content')?.trim()
+    || $('title').first().text().trim()
+    || $('h1').first().text().trim()
+    || null
+
+  $(SKIPPED).remove()
+  // Line breaks in the source are only formatting: mark the real ones, then collapse whitespace
+  $('br').replaceWith(LINE_BREAK)
+  $(BLOCKS).each((_, element) => {
+    $(element).prepend(PARAGRAPH_BREAK).append(PARAGRAPH_BREAK)
+  })
+
+  const root = $('article').length === 1 ? $('article') : $('main').length === 1 ? $('main') : $('body')
+  const text = root.text()
+    .replace(/\s+/g, ' ')
+    .replace(/ *\uE000[\uE000 ]*/g, '\n\n')
+    .replace(/ *\uE001 */g, '\n')
+    .trim()
+
+  return { title, text }
+}
+
+/**
+ * Finds the character set a page declares in a meta tag
+ */
+function declaredCharset(data: Buffer): string | undefined {
+  const head = data.subarray(0, 2048).toString('latin1')
+  return head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  format: 'html',
+  async extract(data, charset) {
+    const { title, text } = htmlToText(decodeText(data, charset || declaredCharset(data)))
+    return { title, sections: [{ text, page: null }] }
+  },
+}
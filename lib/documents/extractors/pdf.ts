@@ -0,0 +1,21 @@
+// The PDF parser is a CommonJS module (pdf-parse doesn't work with Edge runtime)
+import { parsePDF } from '@/lib/pdf-parser'
+import { DocumentError } from '../errors'
+import type { DocumentExtractor } from '../types'
+
+/**
+ * Reads the text of a PDF, one section per page
+ */
+export const pdfExtractor: DocumentExtractor = {
+  format: 'pdf',
+  async extract(data) {
+    const result = await parsePDF(data)
+    if (!result.success) {
+      throw new DocumentError(`Failed to parse PDF file: ${result.error || 'unknown error'}`)
+    }
+
+    const pages: string[] = result.pageTexts?.length ? result.pageTexts : [result.text]
+    const title = typeof result.info?.Title === 'string' && result.info.Title.trim() ? result.info.Title.trim() : null
+    return { title, sections: pages.map((text, i) => ({ text, page: i + 1 })) }
+  },
+}
@@ -0,0 +1,36 @@
+import type { DocumentExtractor } from '../types'
+import { decodeText } from './text'
+
+// "00:01:02,500 --> 00:01:05,000" in SRT, "01:02.500 --> 01:05.000 line:90%" in WebVTT
+const TIMING = /^\s*(\d+:)?\d+:\d+[,.]\d+\s*-->/
+
+/**
+ * Reads the dialogue of an SRT or WebVTT file
+ * Cue numbers, timings, styling and WebVTT NOTE/STYLE/REGION blocks are dropped. Cues are
+ * joined line by line, so a sentence spoken across several cues stays one sentence.
+ */
+export const subtitlesExtractor: DocumentExtractor = {
+  format: 'subtitles',
+  async extract(data, charset) {
+    const blocks = decodeText(data, charset).replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+    const lines: string[] = []
+
+    for (const block of blocks) {
+      const blockLines = block.split('\n')
+      const timing = blockLines.findIndex(line => TIMING.test(line))
+      if (timing === -1) continue // Header, note, style or region block
+
+      for (const line of blockLines.slice(timing + 1)) {
+        const text = line
+          .replace(/<[^>]+>/g, '')      // <i>, <b>, <c.yellow>, <v Speaker>, timestamps
+          .replace(/\{\\[^}]*\}/g, '')  // SSA overrides like {\an8}
+          .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ')
+          .replace(/^\s*-\s*/, '')      // Dialogue dashes
+          .trim()
+        if (text) lines.push(text)
+      }
+    }
+
+    return { title: null, sections: [{ text: lines.join('\n'), page: null }] }
+  },
+}
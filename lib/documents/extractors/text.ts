@@ -0,0 +1,59 @@
+import type { DocumentExtractor } from '../types'
+
+/**
+ * Decodes a text file
+ * A byte order mark wins over the given character set; without either, UTF-8 is assumed.
+ * @param charset - Character set from a Content-Type header or meta tag, if any
+ */
+export function decodeText(data: Buffer, charset?: string): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return new TextDecoder('utf-8').decode(data.subarray(3))
+  if (data[0] === 0xff && data[1] === 0xfe) return new TextDecoder('utf-16le').decode(data.subarray(2))
+  if (data[0] === 0xfe && data[1] === 0xff) return new TextDecoder('utf-16be').decode(data.subarray(2))
+
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data)
+  } catch {
+    return new TextDecoder('utf-8').decode(data) // Unknown character set
+  }
+}
+
+export const textExtractor: DocumentExtractor = {
+  format: 'text',
+  async extract(data, charset) {
+    return { title: null, sections: [{ text: decodeText(data, charset), page: null }] }
+  },
+}
+
+/**
+ * Reduces Markdown to its prose: code, link targets, images and markup are dropped
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '')                              // Front matter
+    .replace(/^(```|~~~)[\s\S]*?^\1.*$/gm, '')                          // Fenced code blocks
+    .replace(/`[^`\n]*`/g, '')                                          // Inline code
+    .replace(/<!--[\s\S]*?-->|<[^>\n]+>/g, '')                          // Comments and HTML tags
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')                               // Images
+    .replace(/\[([^\]]*)\]\([^)]*\)|\[([^\]]*)\]\[[^\]]*\]/g, '$1$2')   // Links keep their text
+    .replace(/^[ \t]*\[[^\]]+\]:.*$/gm, '')                             // Link definitions
+    .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t]*#*$/gm, '$1\n')             // Headings stand alone
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')                    // List markers
+    .replace(/^[ \t]*>[ \t]?/gm, '')                                    // Block quotes
+    .replace(/^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*$/gm, '') // Rules and table separators
+    .replace(/\|/g, ' ')                                                // Table cells
+    .replace(/(\*\*|\*|~~)(?=\S)([^*~\n]+?)(?<=\S)\1/g, '$2')           // Emphasis
+    .replace(/(?<!\w)(__|_)(?=\S)([^_\n]+?)(?<=\S)\1(?!\w)/g, '$2')     // Emphasis, but not snake_case
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  format: 'markdown',
+  async extract(data, charset) {
+    const markdown = decodeText(data, charset).replace(/\r\n?/g, '\n')
+    // Title from the front matter, else from the first top-level heading
+    const frontMatter = markdown.match(/^---\n([\s\S]*?)\n---\n/)?.[1]
+    const title = frontMatter?.match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1]
+      ?? markdown.match(/^ {0,3}#\s+(.+?)\s*#*$/m)?.[1]
+      ?? null
+    return { title, sections: [{ text: markdownToText(markdown), page: null }] }
+  },
+}
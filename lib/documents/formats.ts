@@ -0,0 +1,48 @@
+import type { DocumentFormat } from './types'
+
+/**
+ * File types each document format is recognized by
+ * Kept apart from the extractors so the upload form can use it in the browser.
+ */
+export const DOCUMENT_FORMATS: { format: DocumentFormat; name: string; extensions: string[]; mimeTypes: string[] }[] = [
+  { format: 'pdf', name: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  { format: 'epub', name: 'EPUB', extensions: ['.epub'], mimeTypes: ['application/epub+zip'] },
+  {
+    format: 'docx',
+    name: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  { format: 'html', name: 'HTML', extensions: ['.html', '.htm', '.xhtml'], mimeTypes: ['text/html', 'application/xhtml+xml'] },
+  { format: 'markdown', name: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown'] },
+  { format: 'subtitles', name: 'Subtitles', extensions: ['.srt', '.vtt'], mimeTypes: ['application/x-subrip', 'text/vtt'] },
+  { format: 'text', name: 'Text', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+]
+
+/**
+ * Value for the accept attribute of the upload form's file input
+ */
+export const ACCEPTED_FILE_TYPES = DOCUMENT_FORMATS.flatMap(f => f.extensions).join(',')
+
+/**
+ * Finds the format of a file, by extension first since browsers and servers often send
+ * a generic type (subtitles and Markdown usually come as text/plain or no type at all)
+ * @param name - File name or URL path
+ * @param mimeType - Content type, parameters such as charset are ignored
+ * @returns The format, or null if it is not one that can be imported
+ */
+export function detectFormat(name: string, mimeType?: string | null): DocumentFormat | null {
+  const extension = name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0]
+  const byExtension = DOCUMENT_FORMATS.find(f => extension && f.extensions.includes(extension))
+  if (byExtension) return byExtension.format
+
+  const type = mimeType?.split(';')[0].trim().toLowerCase()
+  return DOCUMENT_FORMATS.find(f => type && f.mimeTypes.includes(type))?.format ?? null
+}
+
+/**
+ * The file name without its extension, used as title when the document has none
+ */
+export function titleFromFileName(name: string): string {
+  return name.replace(/\.[a-z0-9]+$/i, '').trim() || name
+}
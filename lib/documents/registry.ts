@@ -0,0 +1,42 @@
+import { DocumentError } from './errors'
+import { DOCUMENT_FORMATS, detectFormat } from './formats'
+import type { DocumentExtractor, DocumentFormat, ParsedDocument } from './types'
+import { pdfExtractor } from './extractors/pdf'
+import { epubExtractor } from './extractors/epub'
+import { docxExtractor } from './extractors/docx'
+import { htmlExtractor } from './extractors/html'
+import { markdownExtractor, textExtractor } from './extractors/text'
+import { subtitlesExtractor } from './extractors/subtitles'
+
+const EXTRACTORS: Record<DocumentFormat, DocumentExtractor> = {
+  pdf: pdfExtractor,
+  epub: epubExtractor,
+  docx: docxExtractor,
+  html: htmlExtractor,
+  text: textExtractor,
+  markdown: markdownExtractor,
+  subtitles: subtitlesExtractor,
+}
+
+/**
+ * Reads the text of a document with the extractor for its format
+ * @param name - File name or URL, used to recognize the format
+ * @param mimeType - Content type sent with the file, if any
+ * @param charset - Character set given by the server the document was fetched from, if any
+ * @throws DocumentError if the format is not supported, the file cannot be read or it has no text
+ */
+export async function parseDocument(data: Buffer, name: string, mimeType?: string | null, charset?: string): Promise<ParsedDocument> {
+  const format = detectFormat(name, mimeType)
+  if (!format) {
+    const supported = DOCUMENT_FORMATS.map(f => f.name).join(', ')
+    throw new DocumentError(`Unsupported file type. Supported formats: ${supported}`)
+  }
+
+  const { title, sections } = await EXTRACTORS[format].extract(data, charset)
+  const withText = sections.filter(section => section.text.trim().length > 0)
+  if (withText.length === 0) {
+    throw new DocumentError(`No text found in ${DOCUMENT_FORMATS.find(f => f.format === format)!.name} file`)
+  }
+
+  return { format, title, sections: withText }
+}
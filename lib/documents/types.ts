@@ -0,0 +1,35 @@
+/**
+ * Document formats vocabulary can be imported from
+ */
+export type DocumentFormat = 'pdf' | 'epub' | 'docx' | 'html' | 'text' | 'markdown' | 'subtitles'
+
+/**
+ * A part of a document: a page of a PDF, a chapter of a book, or the whole text
+ */
+export interface DocumentSection {
+  text: string
+  page: number | null // Page number, for formats that have pages
+}
+
+/**
+ * Text of a document, ready for vocabulary extraction
+ */
+export interface ParsedDocument {
+  format: DocumentFormat
+  title: string | null // Title from the document's metadata, if it has one
+  sections: DocumentSection[]
+}
+
+/**
+ * Common interface every document extractor implements
+ */
+export interface DocumentExtractor {
+  format: DocumentFormat
+  /**
+   * Reads the text of a document
+   * @param data - The file's bytes
+   * @param charset - Character set given by the server the document was fetched from, if any
+   * @throws DocumentError if the file is not a valid document of this format
+   */
+  extract(data: Buffer, charset?: string): Promise<Omit<ParsedDocument, 'format'>>
+}
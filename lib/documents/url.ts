@@ -0,0 +1,195 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns'
+import { isIP } from 'net'
+import { Agent, fetch, type Response } from 'undici'
+import { DocumentError } from './errors'
+
+/**
+ * Fetches a web page or online document to import it, as a snapshot of what it says now
+ *
+ * Requests come from the server, so only public http(s) addresses are allowed: hosts that
+ * are or resolve to loopback, private or link-local addresses are refused, including
+ * after redirects. The check runs when the connection is made, on the addresses it
+ * connects to, so a host cannot resolve to a public address first and a private one next.
+ * Downloads are capped in time and size.
+ */
+
+const TIMEOUT_MS = Number(process.env.DOCUMENT_FETCH_TIMEOUT_MS) || 15000
+const MAX_BYTES = (Number(process.env.DOCUMENT_FETCH_MAX_MB) || 20) * 1024 * 1024
+const MAX_REDIRECTS = 5
+
+export interface FetchedDocument {
+  data: Buffer
+  url: string              // After redirects
+  mimeType: string | null
+  charset?: string
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, with "::" and a dotted IPv4 tail expanded
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '') // Zone index, e.g. "%eth0"
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number)
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : [])
+  const [head, tail] = text.split('::')
+  const high = parse(head)
+  const low = tail === undefined ? [] : parse(tail)
+  return [...high, ...new Array(8 - high.length - low.length).fill(0), ...low]
+}
+
+/**
+ * Checks whether an IP address is loopback, private, link-local or otherwise not public
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const groups = ipv6Groups(address)
+    const embedded = () => [groups[6] >> 8, groups[6] & 255, groups[7] >> 8, groups[7] & 255].join('.')
+    const zeros = (from: number, to: number) => groups.slice(from, to).every(group => group === 0)
+
+    // IPv4-compatible ("::127.0.0.1", which covers "::" and "::1") and IPv4-mapped
+    // ("::ffff:127.0.0.1") addresses reach the IPv4 address they carry
+    if (zeros(0, 5) && (groups[5] === 0 || groups[5] === 0xffff)) return isPrivateAddress(embedded())
+    // NAT64 ("64:ff9b::127.0.0.1") reaches it through a translator; its local-use range
+    // (64:ff9b:1::/48) is private
+    if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+      return zeros(2, 6) ? isPrivateAddress(embedded()) : groups[2] === 1
+    }
+    return (groups[0] & 0xfe00) === 0xfc00 // Unique local
+      || (groups[0] & 0xffc0) === 0xfe80   // Link-local
+      || groups[0] >= 0xff00               // Multicast
+  }
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+
+/**
+ * DNS lookup for the download's connections: refuses the host if any of its addresses is
+ * not public, and hands the connection the very addresses it checked
+ */
+function publicLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new DocumentError('Links to local addresses cannot be imported'), [])
+    }
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const agent = new Agent({ connect: { lookup: publicLookup } })
+
+/**
+ * Refuses URLs the server should not fetch on a user's behalf
+ * Host names are checked again by publicLookup when the connection is made; addresses
+ * written in the URL are connected to without a lookup, so they are checked here.
+ * @throws DocumentError if the URL is not a public http(s) address
+ */
+function checkUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new DocumentError('Only http and https links can be imported')
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    throw new DocumentError('Links to local addresses cannot be imported')
+  }
+
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new DocumentError('Links to local addresses cannot be imported')
+  }
+}
+
+/**
+ * Reads a response body, stopping at the size limit
+ */
+async function readBody(response: Response): Promise<Buffer> {
+  if (Number(response.headers.get('content-length')) > MAX_BYTES) {
+    throw new DocumentError(`The document is larger than ${MAX_BYTES / 1024 / 1024} MB`)
+  }
+  if (!response.body) return Buffer.alloc(0)
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > MAX_BYTES) {
+      await reader.cancel()
+      throw new DocumentError(`The document is larger than ${MAX_BYTES / 1024 / 1024} MB`)
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Downloads a document from a link
+ * @param link - Untrusted URL, e.g. from a request body
+ * @throws DocumentError if the link is refused, cannot be reached or does not answer with a document
+ */
+export async function fetchDocument(link: string): Promise<FetchedDocument> {
+  let url: URL
+  try {
+    url = new URL(link.trim())
+  } catch {
+    throw new DocumentError('Invalid link')
+  }
+
+  const signal = AbortSignal.timeout(TIMEOUT_MS)
+  for (let redirects = 0; ; redirects++) {
+    checkUrl(url)
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        redirect: 'manual', // Every hop is checked before it is followed
+        dispatcher: agent,
+        signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': 'text/html,application/xhtml+xml,application/pdf,application/epub+zip,text/plain;q=0.9,*/*;q=0.8',
+        },
+      })
+    } catch (error) {
+      // fetch wraps connection errors, including the ones publicLookup raises
+      const cause = error instanceof Error ? error.cause : undefined
+      if (cause instanceof DocumentError) throw cause
+      if ((cause as NodeJS.ErrnoException | undefined)?.code === 'ENOTFOUND') {
+        throw new DocumentError(`Could not find ${url.hostname}`)
+      }
+      const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')
+      throw new DocumentError(timedOut ? `${url.hostname} did not answer in time` : `Could not reach ${url.hostname}`)
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new DocumentError('The link redirects too many times')
+      url = new URL(location, url)
+      continue
+    }
+    if (!response.ok) {
+      throw new DocumentError(`${url.hostname} answered with status ${response.status}`)
+    }
+
+    const contentType = response.headers.get('content-type')
+    return {
+      data: await readBody(response),
+      url: url.toString(),
+      mimeType: contentType?.split(';')[0].trim().toLowerCase() || null,
+      charset: contentType?.match(/charset=["']?([\w-]+)/i)?.[1],
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { inflateRawSync } from 'zlib'
+import { DocumentError } from './errors'
+
+/**
+ * Minimal ZIP reader for EPUB and DOCX files, which are ZIP archives of XML files
+ * Supports stored and deflated entries, which is what both formats use; ZIP64 and
+ * encrypted archives are rejected.
+ */
+
+// Largest entry that is unpacked, and most unpacked from one archive in all, so a small
+// archive cannot expand into gigabytes one entry or many entries at a time
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024
+const MAX_ENTRIES = 10000
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  size: number
+  offset: number // Of the local file header
+  encrypted: boolean
+}
+
+export interface ZipArchive {
+  names: string[]
+  /**
+   * Reads an entry
+   * @returns Its content, or null if the archive has no such entry
+   * @throws DocumentError if the entry cannot be unpacked
+   */
+  read(name: string): Buffer | null
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes, followed by a comment of up to 65535 bytes
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 65535); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) return i
+  }
+  return -1
+}
+
+/**
+ * Opens a ZIP archive
+ * @throws DocumentError if the data is not a ZIP archive
+ */
+export function openZip(data: Buffer): ZipArchive {
+  const end = findEndOfCentralDirectory(data)
+  if (end === -1) throw new DocumentError('The file is not a valid archive')
+
+  const count = data.readUInt16LE(end + 10)
+  if (count > MAX_ENTRIES) throw new DocumentError('The archive has too many files to import')
+  let position = data.readUInt32LE(end + 16)
+  if (position === 0xffffffff) throw new DocumentError('Archives larger than 4 GB are not supported')
+
+  const entries = new Map<string, ZipEntry>()
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > data.length || data.readUInt32LE(position) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new DocumentError('The archive is damaged')
+    }
+    const nameLength = data.readUInt16LE(position + 28)
+    const extraLength = data.readUInt16LE(position + 30)
+    const commentLength = data.readUInt16LE(position + 32)
+    const name = data.toString('utf8', position + 46, position + 46 + nameLength)
+    entries.set(name, {
+      method: data.readUInt16LE(position + 10),
+      compressedSize: data.readUInt32LE(position + 20),
+      size: data.readUInt32LE(position + 24),
+      offset: data.readUInt32LE(position + 42),
+      encrypted: (data.readUInt16LE(position + 8) & 1) === 1,
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+
+  let unpacked = 0 // Bytes read from the archive so far
+
+  return {
+    names: [...entries.keys()],
+    read(name) {
+      const entry = entries.get(name)
+      if (!entry) return null
+      if (entry.encrypted) throw new DocumentError('Encrypted documents are not supported')
+      if (entry.size > MAX_ENTRY_BYTES) throw new DocumentError(`"${name}" is too large to import`)
+
+      const header = entry.offset
+      if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+        throw new DocumentError('The archive is damaged')
+      }
+      const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28)
+      const content = data.subarray(start, start + entry.compressedSize)
+
+      if (entry.method !== 0 && entry.method !== 8) {
+        throw new DocumentError(`"${name}" uses an unsupported compression method`)
+      }
+      if (unpacked + (entry.method === 0 ? content.length : entry.size) > MAX_TOTAL_BYTES) {
+        throw new DocumentError('The archive is too large to import')
+      }
+
+      let output = content
+      if (entry.method === 8) {
+        // The declared size may lie: the inflater stops at whatever is left of the budget
+        try {
+          output = inflateRawSync(content, { maxOutputLength: Math.max(1, Math.min(MAX_ENTRY_BYTES, MAX_TOTAL_BYTES - unpacked)) })
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new DocumentError(`"${name}" is too large to import`)
+          }
+          throw new DocumentError('The archive is damaged')
+        }
+      }
+      unpacked += output.length
+      return output
+    },
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Reads a Server-Sent Events response body and calls onEvent with each parsed `data:` payload
+ * EventSource only supports GET, so POST endpoints that stream events are read this way.
+ * Events are handled one at a time, in order; the promise resolves when the stream ends.
+ */
+export async function readEventStream<T>(
+  response: Response,
+  onEvent: (event: T) => void | Promise<void>
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const handleFrame = async (frame: string) => {
+    const data = frame
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n')
+    if (data) {
+      await onEvent(JSON.parse(data) as T)
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      await handleFrame(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+
+  if (buffer.trim()) {
+    await handleFrame(buffer)
+  }
+}
@@ -1,4 +1,6 @@
 import * as cheerio from 'cheerio'
+import type { DictionarySense } from '@/lib/definition-ranker'
+import { scraperFetch, SourceUnavailableError } from '@/lib/scraper-http'
 
 export interface GoogleTranslateData {
   word: string
@@ -6,15 +8,21 @@ export interface GoogleTranslateData {
   definition?: string
   examples?: string[]
   synonyms?: string[]
+  senses?: DictionarySense[] // Every definition listed, the first one matching definition and examples
   found: boolean
 }
 
+// Senses kept per word
+const MAX_SENSES = 12
+
 /**
  * Scrapes vocabulary information from Google Translate
  * @param word - The word to look up
+ * @param sourceLanguage - Language code of the word; definitions are always in English
  * @returns Scraped data from Google Translate
+ * @throws SourceUnavailableError if neither Google Translate nor the Dictionary API could be reached
  */
-export async function scrapeGoogleTranslate(word: string): Promise<GoogleTranslateData> {
+export async function scrapeGoogleTranslate(word: string, sourceLanguage: string = 'en'): Promise<GoogleTranslateData> {
   const result: GoogleTranslateData = {
     word,
     found: false,
@@ -22,21 +30,19 @@ export async function scrapeGoogleTranslate(word: string): Promise<GoogleTransla
 
   try {
     // Google Translate URL with dictionary features
-    const url = `https://translate.google.com/details?sl=en&tl=en&text=${encodeURIComponent(word.toLowerCase())}&op=translate`
+    const url = `https://translate.google.com/details?sl=${sourceLanguage}&tl=en&text=${encodeURIComponent(word.toLowerCase())}&op=translate`
     
-    // Fetch the page with proper headers to avoid blocks
-    const response = await fetch(url, {
+    const response = await scraperFetch(url, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.5',
       },
     })
 
     if (!response.ok) {
-      console.log(`Google Translate returned status ${response.status} for word: ${word}`)
+      console.log(`Google Translate has no details page for word: ${word}`)
       // Try alternative approach using the main translate page
-      return await scrapeGoogleTranslateAlternative(word)
+      return await scrapeGoogleTranslateAlternative(word, sourceLanguage)
     }
 
     const html = await response.text()
@@ -70,19 +76,36 @@ export async function scrapeGoogleTranslate(word: string): Promise<GoogleTransla
       result.examples = examples
     }
 
+    // Every definition is a phrase of its own
+    const senses: DictionarySense[] = []
+    $('[data-phrase-index]').each((_, elem) => {
+      const phrase = $(elem)
+      const definition = phrase.find('.fw3bVc').first().text().trim()
+      if (!definition) return
+
+      const sense: DictionarySense = {
+        definition,
+        partOfSpeech: phrase.find('.YrbPuc').first().text().trim() || undefined,
+      }
+      const phraseExamples = phrase.find('.AZAKKf').slice(0, 2).map((_, ex) => $(ex).text().trim()).get().filter(Boolean)
+      if (phraseExamples.length > 0) {
+        sense.examples = phraseExamples
+      }
+      senses.push(sense)
+    })
+    if (senses.length > 0) {
+      result.senses = senses.slice(0, MAX_SENSES)
+    }
+
     // If no data found, try alternative method
     if (!result.found) {
-      return await scrapeGoogleTranslateAlternative(word)
+      return await scrapeGoogleTranslateAlternative(word, sourceLanguage)
     }
 
   } catch (error) {
-    console.error('Error scraping Google Translate:', error)
-    // Try alternative method on error
-    try {
-      return await scrapeGoogleTranslateAlternative(word)
-    } catch (altError) {
-      console.error('Alternative Google Translate scraping also failed:', altError)
-    }
+    console.error('Error scraping Google Translate:', error instanceof SourceUnavailableError ? error.message : error)
+    // Try alternative method on error; the source only counts as unavailable if that fails too
+    return await scrapeGoogleTranslateAlternative(word, sourceLanguage)
   }
 
   return result
@@ -91,7 +114,7 @@ export async function scrapeGoogleTranslate(word: string): Promise<GoogleTransla
 /**
  * Alternative method: Use Google's Dictionary API endpoint
  */
-async function scrapeGoogleTranslateAlternative(word: string): Promise<GoogleTranslateData> {
+async function scrapeGoogleTranslateAlternative(word: string, sourceLanguage: string): Promise<GoogleTranslateData> {
   const result: GoogleTranslateData = {
     word,
     found: false,
@@ -99,16 +122,12 @@ async function scrapeGoogleTranslateAlternative(word: string): Promise<GoogleTra
 
   try {
     // Use the free Dictionary API as an alternative
-    const url = `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word.toLowerCase())}`
+    const url = `https://api.dictionaryapi.dev/api/v2/entries/${sourceLanguage}/${encodeURIComponent(word.toLowerCase())}`
     
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    })
+    const response = await scraperFetch(url)
 
     if (!response.ok) {
-      console.log(`Dictionary API returned status ${response.status} for word: ${word}`)
+      console.log(`Dictionary API has no entry for word: ${word}`)
       return result
     }
 
@@ -139,9 +158,26 @@ async function scrapeGoogleTranslateAlternative(word: string): Promise<GoogleTra
           }
         }
       }
+
+      // Every definition of every meaning (one meaning per part of speech)
+      const senses: DictionarySense[] = []
+      for (const meaning of entry.meanings || []) {
+        for (const def of meaning.definitions || []) {
+          if (!def.definition) continue
+          senses.push({
+            definition: def.definition,
+            partOfSpeech: meaning.partOfSpeech,
+            examples: def.example ? [def.example] : undefined,
+          })
+        }
+      }
+      if (senses.length > 0) {
+        result.senses = senses.slice(0, MAX_SENSES)
+      }
     }
 
   } catch (error) {
+    if (error instanceof SourceUnavailableError) throw error
     console.error('Error with Dictionary API:', error)
   }
 
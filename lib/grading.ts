@@ -0,0 +1,143 @@
+import { apiFetch } from './api-client'
+import { editDistance, keywords, normalizeText, stripDiacritics } from './text-similarity'
+
+/**
+ * Grades free-text quiz answers
+ * Typing mode tolerates typos; meaning mode scores how many of the definition's key
+ * words the answer covers, optionally with a second opinion from the LLM.
+ */
+
+export type Verdict = 'correct' | 'close' | 'wrong'
+
+export interface Grade {
+  verdict: Verdict
+  explanation: string
+}
+
+export const VERDICTS: readonly Verdict[] = ['correct', 'close', 'wrong']
+
+// Share of the definition's key words an answer needs to cover
+const MEANING_CORRECT_COVERAGE = 0.6
+const MEANING_CLOSE_COVERAGE = 0.3
+
+/**
+ * Whether a grade counts towards the score
+ * Close answers count: the point of typo tolerance is not to punish them.
+ */
+export function isAccepted(grade: Grade): boolean {
+  return grade.verdict !== 'wrong'
+}
+
+// Typos allowed for a word of this length; short words must be exact
+function typoTolerance(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 7) return 1
+  return 2
+}
+
+// "to run" and "a cat" should match "run" and "cat"
+function withoutLeadingParticle(text: string): string {
+  return text.replace(/^(to|a|an|the) /, '')
+}
+
+/**
+ * Grades a typed word against the expected one
+ */
+export function gradeTyping(answer: string, expected: string): Grade {
+  const typed = withoutLeadingParticle(normalizeText(answer))
+  const target = withoutLeadingParticle(normalizeText(expected))
+
+  if (typed === target) {
+    return { verdict: 'correct', explanation: 'Exact match.' }
+  }
+  if (stripDiacritics(typed) === stripDiacritics(target)) {
+    return { verdict: 'close', explanation: `Right word, but check the accents: "${expected.trim()}".` }
+  }
+
+  const typos = editDistance(typed, target)
+  if (typos <= typoTolerance(target.length)) {
+    return { verdict: 'close', explanation: `Almost! ${typos === 1 ? 'One typo' : `${typos} typos`}: the spelling is "${expected.trim()}".` }
+  }
+  return { verdict: 'wrong', explanation: `The answer is "${expected.trim()}".` }
+}
+
+// Whether the answer contains a key word of the definition, allowing a typo in long words
+function findMatch(word: string, answerWords: Map<string, string>): boolean {
+  if (answerWords.has(word)) return true
+  if (word.length < 5) return false
+  return [...answerWords.keys()].some(candidate => candidate.length >= 5 && editDistance(word, candidate) <= 1)
+}
+
+/**
+ * Grades a written meaning against the stored definition by key word coverage
+ */
+export function gradeMeaning(answer: string, expected: string): Grade {
+  if (normalizeText(answer) === normalizeText(expected)) {
+    return { verdict: 'correct', explanation: 'Matches the definition.' }
+  }
+
+  const expectedWords = keywords(expected)
+  const answerWords = keywords(answer)
+  if (answerWords.size === 0) {
+    return { verdict: 'wrong', explanation: 'Your answer is too short to grade. Describe the meaning in a few words.' }
+  }
+  if (expectedWords.size === 0) {
+    // The definition is all stop words ("to be about"), so only an exact answer can be judged
+    return { verdict: 'wrong', explanation: 'Compare your answer with the definition.' }
+  }
+
+  const matched: string[] = []
+  const missed: string[] = []
+  for (const [key, word] of expectedWords) {
+    (findMatch(key, answerWords) ? matched : missed).push(word)
+  }
+
+  const coverage = matched.length / expectedWords.size
+  if (coverage >= MEANING_CORRECT_COVERAGE) {
+    return { verdict: 'correct', explanation: `Covers the key ideas: ${matched.join(', ')}.` }
+  }
+  if (coverage >= MEANING_CLOSE_COVERAGE) {
+    return { verdict: 'close', explanation: `Partly right: you got ${matched.join(', ')} but missed ${missed.join(', ')}.` }
+  }
+  return { verdict: 'wrong', explanation: `Missing the key ideas: ${missed.join(', ')}.` }
+}
+
+/**
+ * Checks an LLM judge response
+ * @returns A list of problems, empty if the value is a valid Grade
+ */
+export function validateGrade(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Expected a JSON object']
+  }
+
+  const grade = value as Record<string, unknown>
+  const issues: string[] = []
+  if (!VERDICTS.includes(grade.verdict as Verdict)) {
+    issues.push(`verdict must be one of: ${VERDICTS.join(', ')}`)
+  }
+  if (typeof grade.explanation !== 'string' || !grade.explanation.trim()) {
+    issues.push('explanation must be a non-empty string')
+  }
+  return issues
+}
+
+/**
+ * Asks the LLM judge (through /api/grade-answer) to grade a meaning
+ * @returns The judge's grade, or null if it is unavailable
+ */
+export async function judgeMeaning(word: string, expected: string, answer: string): Promise<Grade | null> {
+  try {
+    const response = await apiFetch('/api/grade-answer', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ word, expected, answer }),
+    })
+    if (!response.ok) return null
+    const result = await response.json()
+    return result.data as Grade
+  } catch (error) {
+    console.error('Answer judge error:', error)
+    return null
+  }
+}
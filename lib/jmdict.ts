@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { DictionarySense } from '@/lib/definition-ranker'
+
+/**
+ * Offline Japanese-English dictionary based on JMdict
+ *
+ * Reads a JSON file in the jmdict-simplified format (https://github.com/scriptin/jmdict-simplified),
+ * either the full export or a subset. Two optional fields per word are read as well:
+ *   - jlpt: "N5" to "N1"
+ *   - furigana: reading per kanji in the JmdictFurigana format, e.g. [{ "ruby": "勉", "rt": "べん" }, ...]
+ *
+ * The file is read once per server instance from JMDICT_PATH (default data/jmdict.json).
+ */
+
+export interface JMdictData {
+  word: string
+  reading?: string      // Kana reading
+  furigana?: string     // e.g. "勉[べん]強[きょう]"
+  partOfSpeech?: string
+  definition?: string   // English glosses of the first sense
+  jlptLevel?: string
+  senses?: DictionarySense[] // Every sense with English glosses, the first one matching definition
+  found: boolean
+}
+
+interface JMdictWord {
+  id: string
+  kanji: { common: boolean; text: string }[]
+  kana: { common: boolean; text: string; appliesToKanji?: string[] }[]
+  sense: { partOfSpeech: string[]; misc?: string[]; gloss: { lang: string; text: string }[] }[]
+  jlpt?: string
+  furigana?: { ruby: string; rt?: string }[]
+}
+
+// JMdict part of speech tags (without their subtype, e.g. "adj" for "adj-na") mapped to
+// the labels the app uses. Every tag starting with "v" is a verb class.
+const PART_OF_SPEECH_TAGS: Record<string, string> = {
+  n: 'noun',
+  pn: 'pronoun',
+  adj: 'adjective',
+  adv: 'adverb',
+  conj: 'conjunction',
+  int: 'interjection',
+  prt: 'particle',
+}
+
+// JMdict usage tags mapped to register labels
+const REGISTER_TAGS: Record<string, string> = {
+  arch: 'archaic',
+  col: 'colloquial',
+  fam: 'familiar',
+  form: 'formal',
+  hon: 'honorific',
+  hum: 'humble',
+  pol: 'polite',
+  sl: 'slang',
+  vulg: 'vulgar',
+}
+
+// Glosses per sense included in its definition
+const MAX_GLOSSES = 3
+
+let index: Promise<Map<string, JMdictWord[]>> | null = null
+
+/**
+ * Folds katakana to hiragana so "ベンキョウ" finds "べんきょう"
+ */
+function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, c => String.fromCharCode(c.charCodeAt(0) - 0x60))
+}
+
+function indexKey(text: string): string {
+  return toHiragana(text.normalize('NFKC').trim())
+}
+
+/**
+ * Loads the dictionary file and indexes every word by its kanji and kana forms
+ * A missing file is logged once and leaves the dictionary empty.
+ */
+function loadIndex(): Promise<Map<string, JMdictWord[]>> {
+  if (index) return index
+
+  index = (async () => {
+    const file = process.env.JMDICT_PATH || path.join(process.cwd(), 'data', 'jmdict.json')
+    const byForm = new Map<string, JMdictWord[]>()
+
+    let words: JMdictWord[]
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf8'))
+      words = Array.isArray(data) ? data : data.words || []
+      if (data.version === 'sample') {
+        console.warn(`⚠️ ${file} is the sample of ${words.length} words; run node build-jmdict.mjs for the real dictionary`)
+      }
+    } catch (error) {
+      console.error(`⚠️ JMdict data not loaded from ${file}:`, error instanceof Error ? error.message : error)
+      return byForm
+    }
+
+    for (const word of words) {
+      const forms = new Set([...word.kanji, ...word.kana].map(form => indexKey(form.text)))
+      for (const form of forms) {
+        byForm.set(form, [...(byForm.get(form) || []), word])
+      }
+    }
+
+    console.log(`📗 JMdict loaded: ${words.length} words from ${file}`)
+    return byForm
+  })()
+
+  return index
+}
+
+function mapPartOfSpeech(tags: string[]): string | undefined {
+  for (const tag of tags) {
+    if (tag.startsWith('v')) return 'verb'
+    const label = PART_OF_SPEECH_TAGS[tag.split('-')[0]]
+    if (label) return label
+  }
+  return undefined
+}
+
+/**
+ * Picks the best entry for a word: written with the word itself over read as it,
+ * then common words first
+ */
+function bestEntry(word: string, entries: JMdictWord[]): JMdictWord {
+  const score = (entry: JMdictWord) =>
+    (entry.kanji.some(k => k.text === word) || entry.kana.some(k => k.text === word) ? 2 : 0) +
+    (entry.kanji.some(k => k.common) || entry.kana.some(k => k.common) ? 1 : 0)
+  return [...entries].sort((a, b) => score(b) - score(a))[0]
+}
+
+/**
+ * Looks up a word in the offline JMdict data
+ * @param word - The word, in kanji or kana
+ * @returns Reading, furigana, English glosses and JLPT level if the word is in the dictionary
+ */
+export async function lookupJMdict(word: string): Promise<JMdictData> {
+  const result: JMdictData = {
+    word,
+    found: false,
+  }
+
+  const entries = (await loadIndex()).get(indexKey(word))
+  if (!entries || entries.length === 0) return result
+
+  const entry = bestEntry(word.trim(), entries)
+  const kanji = entry.kanji.find(k => k.text === word.trim()) || entry.kanji[0]
+  const kana = entry.kana.find(k => !kanji || !k.appliesToKanji || k.appliesToKanji.includes('*') || k.appliesToKanji.includes(kanji.text))
+
+  // Senses with English glosses. A sense without part of speech tags has the one of the sense before it.
+  const senses: DictionarySense[] = []
+  let partOfSpeech: string | undefined
+  for (const sense of entry.sense) {
+    partOfSpeech = mapPartOfSpeech(sense.partOfSpeech) || (sense.partOfSpeech.length === 0 ? partOfSpeech : undefined)
+    const glosses = sense.gloss.filter(g => g.lang === 'eng')
+    if (glosses.length === 0) continue
+
+    const register = (sense.misc || []).map(tag => REGISTER_TAGS[tag]).filter(Boolean).join(', ')
+    senses.push({
+      definition: glosses.slice(0, MAX_GLOSSES).map(g => g.text).join('; '),
+      partOfSpeech,
+      register: register || undefined,
+    })
+  }
+  if (senses.length === 0) return result
+
+  result.found = true
+  result.definition = senses[0].definition
+  result.reading = kana?.text
+  result.partOfSpeech = senses[0].partOfSpeech
+  result.senses = senses
+  result.jlptLevel = entry.jlpt
+
+  // Furigana belongs to the first written form
+  if (entry.furigana && (!kanji || kanji === entry.kanji[0])) {
+    result.furigana = entry.furigana.map(part => part.rt ? `${part.ruby}[${part.rt}]` : part.ruby).join('')
+  }
+
+  return result
+}
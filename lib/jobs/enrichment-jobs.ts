@@ -0,0 +1,350 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DictionarySource } from '@/lib/settings-context'
+
+/**
+ * Persistent state for background dictionary enrichment jobs
+ * Jobs and their per-word items live in Supabase (see DEPLOYMENT.md), so a job
+ * can be resumed by any server instance after a crash or timeout.
+ * Every function takes the client of the user who owns the job, so row level
+ * security keeps users from seeing or touching each other's jobs.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+// unavailable: no dictionary had the word but one could not be asked, so it may be retried
+export type JobItemStatus = 'pending' | 'running' | 'updated' | 'not_found' | 'unavailable' | 'failed'
+
+export interface EnrichmentJob {
+  id: string
+  user_id: string
+  status: JobStatus
+  dictionary: DictionarySource
+  delete_not_found: boolean
+  max_definitions: number | null
+  total: number
+  error: string | null
+  heartbeat_at: string | null
+  created_at: string
+  finished_at: string | null
+}
+
+export interface EnrichmentJobItem {
+  id: number
+  job_id: string
+  vocab_id: number
+  word: string
+  status: JobItemStatus
+  error: string | null
+}
+
+/**
+ * Job state as reported to clients
+ */
+export interface EnrichmentJobProgress {
+  id: string
+  status: JobStatus
+  total: number
+  processed: number
+  updated: number
+  notFound: number
+  unavailable: number // Left after the worker's retries; a new job can try them again
+  failed: number
+  error: string | null
+  createdAt: string
+  finishedAt: string | null
+  notFoundWords: string[] // Only filled in once the job has finished
+}
+
+export interface CreateJobOptions {
+  wordIds?: number[]             // Words to enrich; all words when omitted
+  dictionary?: DictionarySource
+  deleteNotFound?: boolean       // Remove words no dictionary knows about
+  maxDefinitions?: number        // Senses kept per word; all when omitted
+}
+
+/**
+ * A running job whose heartbeat is older than this is considered dead and can be resumed
+ */
+export const HEARTBEAT_STALE_MS = 3 * 60 * 1000
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running']
+
+export function isJobActive(status: JobStatus): boolean {
+  return ACTIVE_STATUSES.includes(status)
+}
+
+// Ids sent in one filter, which goes in the request URL, and rows read or written at once
+// (Supabase returns at most 1000 rows per request by default)
+const ID_CHUNK_SIZE = 200
+const PAGE_SIZE = 1000
+
+/**
+ * The words a job covers, in id order: the given ones, or the whole library
+ */
+async function fetchJobWords(db: SupabaseClient, userId: string, wordIds?: number[]): Promise<{ id: number; word: string }[]> {
+  const words: { id: number; word: string }[] = []
+  const select = () => db.from('vocab_library').select('id, word').eq('user_id', userId)
+
+  if (wordIds) {
+    for (let i = 0; i < wordIds.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await select().in('id', wordIds.slice(i, i + ID_CHUNK_SIZE))
+      if (error) throw new Error(`Failed to fetch words: ${error.message}`)
+      words.push(...data)
+    }
+    return words.sort((a, b) => a.id - b.id)
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await select().order('id', { ascending: true }).range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to fetch words: ${error.message}`)
+    words.push(...data)
+    if (data.length < PAGE_SIZE) return words
+  }
+}
+
+/**
+ * Creates a job with one pending item per word
+ * @returns The new job, or null if there are no words to enrich
+ */
+export async function createEnrichmentJob(db: SupabaseClient, userId: string, options: CreateJobOptions): Promise<EnrichmentJob | null> {
+  const words = await fetchJobWords(db, userId, options.wordIds)
+  if (words.length === 0) return null
+
+  const { data: job, error: jobError } = await db
+    .from('enrichment_jobs')
+    .insert({
+      user_id: userId,
+      status: 'queued',
+      dictionary: options.dictionary || 'auto',
+      delete_not_found: options.deleteNotFound ?? false,
+      max_definitions: options.maxDefinitions ?? null,
+      total: words.length,
+    })
+    .select()
+    .single()
+
+  if (jobError || !job) {
+    throw new Error(`Failed to create job: ${jobError?.message}`)
+  }
+
+  for (let i = 0; i < words.length; i += PAGE_SIZE) {
+    const { error: itemsError } = await db
+      .from('enrichment_job_items')
+      .insert(words.slice(i, i + PAGE_SIZE).map(w => ({ job_id: job.id, vocab_id: w.id, word: w.word, status: 'pending' })))
+
+    if (itemsError) {
+      await db.from('enrichment_jobs').delete().eq('id', job.id)
+      throw new Error(`Failed to create job items: ${itemsError.message}`)
+    }
+  }
+
+  return job as EnrichmentJob
+}
+
+export async function getEnrichmentJob(db: SupabaseClient, id: string): Promise<EnrichmentJob | null> {
+  const { data, error } = await db
+    .from('enrichment_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch job: ${error.message}`)
+  return data as EnrichmentJob | null
+}
+
+/**
+ * Gets the most recent job that is still queued or running
+ */
+export async function getActiveEnrichmentJob(db: SupabaseClient): Promise<EnrichmentJob | null> {
+  const { data, error } = await db
+    .from('enrichment_jobs')
+    .select('*')
+    .in('status', ACTIVE_STATUSES)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch active job: ${error.message}`)
+  return data as EnrichmentJob | null
+}
+
+/**
+ * Checks whether a job needs a worker: it is queued, or running with a stale heartbeat
+ */
+export function needsWorker(job: EnrichmentJob): boolean {
+  if (job.status === 'queued') return true
+  if (job.status !== 'running') return false
+  const heartbeat = job.heartbeat_at ? new Date(job.heartbeat_at).getTime() : 0
+  return Date.now() - heartbeat > HEARTBEAT_STALE_MS
+}
+
+/**
+ * Atomically claims a job for this worker
+ * Only succeeds for queued jobs or running jobs whose worker has died
+ * @returns The claimed job, or null if another worker owns it
+ */
+export async function claimEnrichmentJob(db: SupabaseClient, id: string): Promise<EnrichmentJob | null> {
+  const staleBefore = new Date(Date.now() - HEARTBEAT_STALE_MS).toISOString()
+
+  const { data, error } = await db
+    .from('enrichment_jobs')
+    .update({ status: 'running', heartbeat_at: new Date().toISOString() })
+    .eq('id', id)
+    .or(`status.eq.queued,and(status.eq.running,heartbeat_at.lt."${staleBefore}"),and(status.eq.running,heartbeat_at.is.null)`)
+    .select()
+
+  if (error) throw new Error(`Failed to claim job: ${error.message}`)
+  return (data?.[0] as EnrichmentJob) || null
+}
+
+/**
+ * Refreshes the heartbeat of a running job
+ * @returns false if the job is no longer running (e.g. it was cancelled)
+ */
+export async function heartbeatEnrichmentJob(db: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from('enrichment_jobs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .select('id')
+
+  if (error) throw new Error(`Failed to update job heartbeat: ${error.message}`)
+  return (data?.length ?? 0) > 0
+}
+
+/**
+ * Moves a job to a final state (only if it is still running)
+ */
+export async function finishEnrichmentJob(db: SupabaseClient, id: string, status: 'completed' | 'failed', error?: string): Promise<void> {
+  const { error: updateError } = await db
+    .from('enrichment_jobs')
+    .update({ status, error: error || null, finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+
+  if (updateError) throw new Error(`Failed to finish job: ${updateError.message}`)
+}
+
+/**
+ * Cancels a queued or running job; the worker skips the words it has not started
+ * @returns false if the job had already finished
+ */
+export async function cancelEnrichmentJob(db: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from('enrichment_jobs')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ACTIVE_STATUSES)
+    .select('id')
+
+  if (error) throw new Error(`Failed to cancel job: ${error.message}`)
+  return (data?.length ?? 0) > 0
+}
+
+/**
+ * Puts items a crashed worker left half-done back in the queue
+ */
+export async function requeueRunningItems(db: SupabaseClient, jobId: string): Promise<void> {
+  const { error } = await db
+    .from('enrichment_job_items')
+    .update({ status: 'pending' })
+    .eq('job_id', jobId)
+    .eq('status', 'running')
+
+  if (error) throw new Error(`Failed to requeue job items: ${error.message}`)
+}
+
+/**
+ * Takes the next pending items of a job and marks them as running
+ */
+export async function takePendingItems(db: SupabaseClient, jobId: string, limit: number): Promise<EnrichmentJobItem[]> {
+  const { data, error } = await db
+    .from('enrichment_job_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .eq('status', 'pending')
+    .order('id', { ascending: true })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to fetch job items: ${error.message}`)
+  if (!data || data.length === 0) return []
+
+  const { error: updateError } = await db
+    .from('enrichment_job_items')
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .in('id', data.map(item => item.id))
+
+  if (updateError) throw new Error(`Failed to take job items: ${updateError.message}`)
+  return data as EnrichmentJobItem[]
+}
+
+export async function updateJobItem(db: SupabaseClient, id: number, status: JobItemStatus, error?: string): Promise<void> {
+  const { error: updateError } = await db
+    .from('enrichment_job_items')
+    .update({ status, error: error || null, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (updateError) throw new Error(`Failed to update job item: ${updateError.message}`)
+}
+
+/**
+ * Puts items whose dictionaries were unavailable back in the queue for another try
+ */
+export async function requeueUnavailableItems(db: SupabaseClient, jobId: string): Promise<void> {
+  const { error } = await db
+    .from('enrichment_job_items')
+    .update({ status: 'pending' })
+    .eq('job_id', jobId)
+    .eq('status', 'unavailable')
+
+  if (error) throw new Error(`Failed to requeue job items: ${error.message}`)
+}
+
+export async function countItems(db: SupabaseClient, jobId: string, status: JobItemStatus): Promise<number> {
+  const { count, error } = await db
+    .from('enrichment_job_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .eq('status', status)
+
+  if (error) throw new Error(`Failed to count job items: ${error.message}`)
+  return count || 0
+}
+
+/**
+ * Builds the client-facing progress report for a job
+ */
+export async function getEnrichmentJobProgress(db: SupabaseClient, job: EnrichmentJob): Promise<EnrichmentJobProgress> {
+  const [updated, notFound, unavailable, failed] = await Promise.all([
+    countItems(db, job.id, 'updated'),
+    countItems(db, job.id, 'not_found'),
+    countItems(db, job.id, 'unavailable'),
+    countItems(db, job.id, 'failed'),
+  ])
+
+  let notFoundWords: string[] = []
+  if (!isJobActive(job.status) && notFound > 0) {
+    const { data } = await db
+      .from('enrichment_job_items')
+      .select('word')
+      .eq('job_id', job.id)
+      .eq('status', 'not_found')
+      .limit(50)
+    notFoundWords = data?.map(item => item.word) || []
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    total: job.total,
+    processed: updated + notFound + unavailable + failed,
+    updated,
+    notFound,
+    unavailable,
+    failed,
+    error: job.error,
+    createdAt: job.created_at,
+    finishedAt: job.finished_at,
+    notFoundWords,
+  }
+}
@@ -0,0 +1,259 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { lookupWord } from '@/lib/dictionary/lookup'
+import { enrichBatch, type EnrichedWord, type ScrapedWord } from '@/lib/dictionary/enrich'
+import { getLLMConfig } from '@/lib/llm/config'
+import type { LLMConfig } from '@/lib/llm/types'
+import { DEFAULT_LANGUAGE, getLanguageById } from '@/lib/languages/registry'
+import type { Language } from '@/lib/languages/types'
+import { saveSenses } from '@/lib/senses'
+import {
+  HEARTBEAT_STALE_MS,
+  claimEnrichmentJob,
+  countItems,
+  heartbeatEnrichmentJob,
+  finishEnrichmentJob,
+  requeueRunningItems,
+  requeueUnavailableItems,
+  takePendingItems,
+  updateJobItem,
+  type EnrichmentJob,
+  type EnrichmentJobItem,
+} from './enrichment-jobs'
+
+/**
+ * Background worker for enrichment jobs
+ * Scrapes and enriches a job's words chunk by chunk, recording the outcome of every
+ * word so a job interrupted by a crash or timeout picks up where it stopped.
+ * The worker runs as the job's owner, with the client of the request that started
+ * or resumed it.
+ */
+
+// How many words are scraped at the same time, and how many go into one AI call
+const CONCURRENCY = Math.max(1, Number(process.env.ENRICHMENT_CONCURRENCY) || 3)
+const CHUNK_SIZE = Math.max(1, Number(process.env.ENRICHMENT_CHUNK_SIZE) || 10)
+
+// A chunk can take minutes (slow dictionaries, a slow AI), so the heartbeat is sent on a
+// timer while it runs, well within HEARTBEAT_STALE_MS
+const HEARTBEAT_INTERVAL_MS = HEARTBEAT_STALE_MS / 6
+
+// Waits before each new try of the words whose dictionaries were unavailable, long enough
+// for a rate limit or a scraper's paused host to clear
+const RETRY_DELAYS_MS = [20_000, 60_000, 180_000]
+
+// Jobs being processed by this server instance
+const runningJobs = new Set<string>()
+
+/**
+ * Runs fn over items with at most `limit` calls in flight
+ */
+async function mapWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++])
+    }
+  })
+  await Promise.all(workers)
+}
+
+/**
+ * Sends the job's heartbeat every HEARTBEAT_INTERVAL_MS until stopped
+ * `running` turns false once the job is no longer running (e.g. it was cancelled).
+ * stop() throws the error of the last heartbeat if it failed, rather than let the job go
+ * stale while it keeps running.
+ */
+function startHeartbeat(db: SupabaseClient, jobId: string) {
+  let running = true
+  let failure: unknown = null
+  const timer = setInterval(() => {
+    heartbeatEnrichmentJob(db, jobId)
+      .then(stillRunning => {
+        failure = null
+        if (!stillRunning) running = false
+      })
+      .catch(error => {
+        console.error(`⚠️ [job ${jobId}] ${error instanceof Error ? error.message : error}`)
+        failure = error
+      })
+  }, HEARTBEAT_INTERVAL_MS)
+
+  return {
+    get running() {
+      return running
+    },
+    stop() {
+      clearInterval(timer)
+      if (failure) throw failure
+    },
+  }
+}
+
+async function processChunk(db: SupabaseClient, job: EnrichmentJob, items: EnrichmentJobItem[], llm: LLMConfig): Promise<void> {
+  const heartbeat = startHeartbeat(db, job.id)
+  try {
+    await enrichChunk(db, job, items, llm, () => heartbeat.running)
+  } finally {
+    heartbeat.stop()
+  }
+}
+
+/**
+ * Scrapes, enriches and saves a chunk of words
+ * @param isRunning - false once the job was cancelled; the words left are skipped
+ */
+async function enrichChunk(
+  db: SupabaseClient,
+  job: EnrichmentJob,
+  items: EnrichmentJobItem[],
+  llm: LLMConfig,
+  isRunning: () => boolean
+): Promise<void> {
+  const scraped = new Map<Language, ScrapedWord[]>() // Grouped by language, each group gets its own AI call
+  const itemsByWord = new Map<string, EnrichmentJobItem>()
+
+  // The language of each word decides its providers and level scheme
+  const { data: rows } = await db
+    .from('vocab_library')
+    .select('id, lang_id')
+    .in('id', items.map(item => item.vocab_id))
+  const languages = new Map((rows || []).map(row => [row.id as number, getLanguageById(row.lang_id)]))
+
+  // Step 1: Scrape dictionaries for each word
+  await mapWithConcurrency(items, CONCURRENCY, async (item) => {
+    if (!isRunning()) return
+    const language = languages.get(item.vocab_id) || DEFAULT_LANGUAGE
+    try {
+      const { entry, lemma, unavailable } = await lookupWord(item.word, { preferred: job.dictionary, language: language.code })
+
+      // Left for a retry, and never deleted: a dictionary that could not be asked may have it
+      if (!entry && unavailable.length > 0) {
+        console.log(`  ⚠️ [job ${job.id}] "${item.word}" not found, ${unavailable.join(', ')} unavailable`)
+        await updateJobItem(db, item.id, 'unavailable', `${unavailable.join(', ')} unavailable`)
+      } else if (!entry) {
+        console.log(`  ❌ [job ${job.id}] "${item.word}" not found in any dictionary`)
+        if (job.delete_not_found) {
+          await db.from('vocab_library').delete().eq('id', item.vocab_id)
+        }
+        await updateJobItem(db, item.id, 'not_found')
+      } else {
+        scraped.set(language, [...(scraped.get(language) || []), { word: item.word, lemma, ...entry }])
+        itemsByWord.set(item.word, item)
+      }
+    } catch (error) {
+      console.log(`  ❌ [job ${job.id}] Error scraping "${item.word}": ${error instanceof Error ? error.message : 'Unknown error'}`)
+      await updateJobItem(db, item.id, 'failed', 'Scraping failed')
+    }
+  })
+
+  // Step 2: Process the chunk with AI and save the results
+  if (!isRunning()) return
+  const data: EnrichedWord[] = []
+  for (const [language, group] of scraped) {
+    data.push(...(await enrichBatch(group, llm, language, job.max_definitions ?? undefined)).data)
+  }
+
+  for (const result of data) {
+    const item = itemsByWord.get(result.word)
+    if (!item) continue
+    itemsByWord.delete(result.word)
+
+    const { error } = await db
+      .from('vocab_library')
+      .update({
+        part_of_speech: result.part_of_speech,
+        cefr_level: result.cefr_level,
+        meaning_primary: result.meaning_primary,
+        usage_tips: result.usage_tips,
+      })
+      .eq('id', item.vocab_id)
+
+    // Senses add to the stored fields; a word is still updated if they cannot be saved
+    if (!error) {
+      await saveSenses(db, item.vocab_id, result.senses).catch(sensesError => {
+        console.error(`  ⚠️ [job ${job.id}] ${sensesError.message} for "${result.word}"`)
+      })
+    }
+
+    await updateJobItem(db, item.id, error ? 'failed' : 'updated', error?.message)
+  }
+
+  // Words the AI left out of its response
+  for (const item of itemsByWord.values()) {
+    await updateJobItem(db, item.id, 'failed', 'No AI result')
+  }
+}
+
+/**
+ * Waits before retrying, keeping the job's heartbeat going
+ * @returns false if the job is no longer running
+ */
+async function waitForRetry(db: SupabaseClient, jobId: string, ms: number): Promise<boolean> {
+  const heartbeat = startHeartbeat(db, jobId)
+  try {
+    await new Promise(resolve => setTimeout(resolve, ms))
+  } finally {
+    heartbeat.stop()
+  }
+  return heartbeat.running
+}
+
+/**
+ * Processes an enrichment job until it is done, cancelled or this instance dies
+ * Safe to call for any job: it returns immediately if another worker owns the job.
+ */
+export async function runEnrichmentJob(db: SupabaseClient, jobId: string): Promise<void> {
+  if (runningJobs.has(jobId)) return
+  runningJobs.add(jobId)
+
+  try {
+    const job = await claimEnrichmentJob(db, jobId)
+    if (!job) return
+
+    console.log(`🚀 [job ${jobId}] Starting enrichment of ${job.total} words (preference: ${job.dictionary})`)
+    await requeueRunningItems(db, jobId)
+
+    const llm = getLLMConfig()
+    if ('error' in llm) {
+      await finishEnrichmentJob(db, jobId, 'failed', llm.error)
+      return
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      while (true) {
+        const items = await takePendingItems(db, jobId, CHUNK_SIZE)
+        if (items.length === 0) break
+
+        await processChunk(db, job, items, llm.config)
+
+        // Stop if the job was cancelled in the meantime
+        if (!(await heartbeatEnrichmentJob(db, jobId))) {
+          console.log(`⏹️ [job ${jobId}] Stopped (no longer running)`)
+          return
+        }
+      }
+
+      // Words whose dictionaries could not be asked get a few more tries, with backoff;
+      // those still left are reported as unavailable, for a later job to retry
+      const unavailable = await countItems(db, jobId, 'unavailable')
+      if (unavailable === 0 || attempt >= RETRY_DELAYS_MS.length) break
+
+      console.log(`⏳ [job ${jobId}] Retrying ${unavailable} words in ${RETRY_DELAYS_MS[attempt] / 1000}s (dictionaries unavailable)`)
+      if (!(await waitForRetry(db, jobId, RETRY_DELAYS_MS[attempt]))) {
+        console.log(`⏹️ [job ${jobId}] Stopped (no longer running)`)
+        return
+      }
+      await requeueUnavailableItems(db, jobId)
+    }
+
+    await finishEnrichmentJob(db, jobId, 'completed')
+    console.log(`✅ [job ${jobId}] Completed`)
+  } catch (error) {
+    console.error(`❌ [job ${jobId}] Failed:`, error)
+    await finishEnrichmentJob(db, jobId, 'failed', error instanceof Error ? error.message : 'Unknown error').catch(finishError => {
+      // The job goes stale and is resumed by the next status request
+      console.error(`❌ [job ${jobId}] ${finishError.message}`)
+    })
+  } finally {
+    runningJobs.delete(jobId)
+  }
+}
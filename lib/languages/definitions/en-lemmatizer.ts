@@ -0,0 +1,169 @@
+import type { Lemmatizer } from '../types'
+
+/**
+ * Rule-based English lemmatizer
+ *
+ * Inflections are undone with suffix rules ("studies" → "study", "stopped" → "stop",
+ * "making" → "make"). Irregular forms and words that only look inflected come from the
+ * exception lists below. Without a dictionary the rules sometimes guess wrong, which is
+ * why candidates are returned in order: lookups fall back to the next one.
+ */
+
+// Irregular forms mapped to their lemma. Forms that are also common words of their own
+// ("left", "saw", "rose", "found"…) are left out on purpose.
+const IRREGULAR_FORMS: Record<string, string> = {
+  // be, have, do, go
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', having: 'have',
+  does: 'do', did: 'do', done: 'do', doing: 'do',
+  goes: 'go', went: 'go', gone: 'go',
+
+  // Irregular verbs
+  arose: 'arise', arisen: 'arise', awoke: 'awake', awoken: 'awake',
+  became: 'become', began: 'begin', begun: 'begin', bent: 'bend', bitten: 'bite',
+  bled: 'bleed', blew: 'blow', blown: 'blow', broke: 'break', broken: 'break',
+  bred: 'breed', brought: 'bring', built: 'build', burnt: 'burn', bought: 'buy',
+  caught: 'catch', chose: 'choose', chosen: 'choose', clung: 'cling', came: 'come',
+  crept: 'creep', dealt: 'deal', dug: 'dig', drew: 'draw', drawn: 'draw',
+  dreamt: 'dream', drank: 'drink', drunk: 'drink', drove: 'drive', driven: 'drive',
+  ate: 'eat', eaten: 'eat', fell: 'fall', fallen: 'fall', fed: 'feed', felt: 'feel',
+  fought: 'fight', fled: 'flee', flung: 'fling', flew: 'fly', flown: 'fly',
+  forbade: 'forbid', forbidden: 'forbid', forgot: 'forget', forgotten: 'forget',
+  forgave: 'forgive', forgiven: 'forgive', froze: 'freeze', frozen: 'freeze',
+  got: 'get', gotten: 'get', gave: 'give', given: 'give', grew: 'grow', grown: 'grow',
+  hung: 'hang', heard: 'hear', hid: 'hide', hidden: 'hide', held: 'hold',
+  kept: 'keep', knelt: 'kneel', knew: 'know', known: 'know', laid: 'lay', led: 'lead',
+  leant: 'lean', leapt: 'leap', learnt: 'learn', lent: 'lend', lain: 'lie',
+  lost: 'lose', made: 'make', meant: 'mean', met: 'meet', mistook: 'mistake',
+  mistaken: 'mistake', overcame: 'overcome', paid: 'pay', proven: 'prove',
+  rode: 'ride', ridden: 'ride', rang: 'ring', rung: 'ring', risen: 'rise', ran: 'run',
+  said: 'say', seen: 'see', sought: 'seek', sold: 'sell', sent: 'send', sewn: 'sew',
+  shook: 'shake', shaken: 'shake', shone: 'shine', shot: 'shoot', shown: 'show',
+  shrank: 'shrink', shrunk: 'shrink', sang: 'sing', sung: 'sing', sank: 'sink',
+  sunk: 'sink', sat: 'sit', slept: 'sleep', slid: 'slide', spoke: 'speak',
+  spoken: 'speak', sped: 'speed', spent: 'spend', spun: 'spin', spat: 'spit',
+  sprang: 'spring', sprung: 'spring', stood: 'stand', stole: 'steal', stolen: 'steal',
+  stuck: 'stick', stung: 'sting', stank: 'stink', stunk: 'stink', struck: 'strike',
+  stricken: 'strike', strove: 'strive', striven: 'strive', swore: 'swear',
+  sworn: 'swear', swept: 'sweep', swam: 'swim', swum: 'swim', swung: 'swing',
+  took: 'take', taken: 'take', taught: 'teach', tore: 'tear', torn: 'tear',
+  told: 'tell', thought: 'think', threw: 'throw', thrown: 'throw', trod: 'tread',
+  trodden: 'tread', understood: 'understand', undertook: 'undertake',
+  undertaken: 'undertake', woke: 'wake', woken: 'wake', wore: 'wear', worn: 'wear',
+  wove: 'weave', woven: 'weave', wept: 'weep', withdrew: 'withdraw',
+  withdrawn: 'withdraw', won: 'win', wrote: 'write', written: 'write',
+
+  // Regular verbs the suffix rules get wrong
+  dying: 'die', died: 'die', lying: 'lie', lied: 'lie', tying: 'tie', tied: 'tie',
+  freed: 'free', created: 'create', creating: 'create', united: 'unite', uniting: 'unite',
+  completed: 'complete', completing: 'complete', deleted: 'delete', deleting: 'delete',
+  competed: 'compete', competing: 'compete', invited: 'invite', inviting: 'invite',
+  ignited: 'ignite', igniting: 'ignite', promoted: 'promote', promoting: 'promote',
+  quoted: 'quote', quoting: 'quote', accused: 'accuse', accusing: 'accuse',
+  changed: 'change', changing: 'change', escaped: 'escape', escaping: 'escape',
+
+  // Irregular plurals
+  men: 'man', women: 'woman', children: 'child', people: 'person', feet: 'foot',
+  teeth: 'tooth', mice: 'mouse', geese: 'goose', oxen: 'ox', wolves: 'wolf',
+  knives: 'knife', wives: 'wife', halves: 'half', shelves: 'shelf', thieves: 'thief',
+  selves: 'self', calves: 'calf', loaves: 'loaf', phenomena: 'phenomenon',
+  criteria: 'criterion', analyses: 'analysis', crises: 'crisis', theses: 'thesis',
+  hypotheses: 'hypothesis', diagnoses: 'diagnosis', emphases: 'emphasis',
+  buses: 'bus', gases: 'gas', quizzes: 'quiz', movies: 'movie', cookies: 'cookie',
+  zombies: 'zombie', calories: 'calorie', selfies: 'selfie', rookies: 'rookie',
+  brownies: 'brownie', shoes: 'shoe', toes: 'toe', canoes: 'canoe',
+
+  // Irregular comparison
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad',
+}
+
+// Words that end like an inflection but are lemmas themselves
+const UNINFLECTED = new Set([
+  'always', 'perhaps', 'news', 'series', 'species', 'thus', 'lens', 'canvas', 'atlas',
+  'chaos', 'bias', 'whereas', 'overseas', 'towards', 'afterwards', 'besides', 'sometimes',
+  'nowadays', 'physics', 'mathematics', 'economics', 'politics', 'ethics', 'athletics',
+  'measles', 'diabetes', 'indeed', 'hundred', 'naked', 'wicked', 'sacred', 'beloved',
+  'morning', 'evening', 'during', 'nothing', 'something', 'anything', 'everything',
+  'ceiling', 'wedding', 'pudding', 'darling', 'sibling', 'lightning',
+  // Participles that are adjectives with a dictionary entry of their own
+  'interesting', 'boring', 'amazing', 'exciting', 'surprising', 'amusing', 'charming',
+  'annoying', 'confusing', 'disappointing', 'embarrassing', 'frightening', 'shocking',
+  'tired', 'interested', 'excited', 'bored', 'confused', 'worried', 'scared', 'pleased',
+  'surprised', 'amazed', 'annoyed', 'ashamed',
+])
+
+// Shorter words are never treated as inflected: "is", "bus", "red"
+const MIN_LENGTH = 4
+
+// Stem endings that drop a silent "e" before -ed/-ing: "giving", "produced", "judging",
+// "organized", "troubled", "causing", "required", "included", "computed"…
+const SILENT_E_ENDING = /(v|c|u|dg|[^z]z|rg|lg|[^aeiou]{2}ang|eng|eath|[^aeiourlw]l|[^c]us|aus|os|is|eas|ais|ois|[nrpl]s|(qu|[^aeiou])(ir|ur|ar)|(gn|pl|st|d)or|[^aeiou](id|ud|od|ad)|[^aeiou]in|sum|com)$/
+
+// One-syllable stems ending in a single consonant after a single vowel take an "e":
+// "making", "hoped", "typing". Doubled ones ("hopped") are caught before this.
+const SHORT_SILENT_E_STEM = /^[^aeiouy]*[aeiouy][^aeiouwxy]$/
+
+// Stems with a doubled final consonant after a short vowel: "stopped", "running", "beginning"
+const DOUBLED_CONSONANT = /[^aeiou][aeiou]([bdgkmnprt])\1$/
+
+// Final "ll" doubled in British spelling: "travelled", "cancelling", "controlled"
+const DOUBLED_L = /[aeiouy][^aeiouy]+[eo]ll$/
+
+/**
+ * Candidate verbs for the stem left after removing -ed or -ing, most likely first
+ */
+function verbCandidates(stem: string): string[] {
+  if (!/[aeiouy]/.test(stem)) return [] // "thing", "shed", "string"
+  if (stem.endsWith('e')) return [stem] // "seeing", "agreeing"
+
+  if (DOUBLED_CONSONANT.test(stem) || DOUBLED_L.test(stem)) {
+    return [stem.slice(0, -1), stem]
+  }
+
+  const needsE = SHORT_SILENT_E_STEM.test(stem)
+    || SILENT_E_ENDING.test(stem)
+    || (stem.length >= 5 && /([^aeiou]|i)at$|[^aeiou]ut$/.test(stem)) // "relating", "computed"
+
+  return needsE ? [`${stem}e`, stem] : [stem, `${stem}e`]
+}
+
+/**
+ * Candidate lemmas from the suffix rules, or none if the word does not look inflected
+ */
+function suffixCandidates(word: string): string[] {
+  if (word.endsWith("'s")) return [word.slice(0, -2)]
+
+  // Plural nouns and third person verbs
+  if (word.endsWith('ies') && word.length > 4) return [`${word.slice(0, -3)}y`]
+  if (/(ss|x|sh|zz|[^a]ch|[eo]ach)es$/.test(word)) return [word.slice(0, -2)]
+  if (word.endsWith('oes')) return [word.slice(0, -2), word.slice(0, -1)]
+  if (word.endsWith('s')) {
+    return /(ss|us|is)$/.test(word) ? [] : [word.slice(0, -1)]
+  }
+
+  // Past tense and participles
+  if (word.endsWith('ied') && word.length > 4) return [`${word.slice(0, -3)}y`]
+  if (word.endsWith('eed')) {
+    return word.length > 5 && !word.endsWith('ceed') ? [word.slice(0, -1)] : [] // "agreed", not "need" or "proceed"
+  }
+  if (word.endsWith('ed')) return verbCandidates(word.slice(0, -2))
+  if (word.endsWith('ing') && word.length > 4) return verbCandidates(word.slice(0, -3))
+
+  // Superlatives that double their consonant ("biggest") or end in -iest ("happiest")
+  if (/([bdgmnpt])\1est$/.test(word)) return [word.slice(0, -4)]
+  if (word.endsWith('iest') && word.length >= 7) return [`${word.slice(0, -4)}y`]
+
+  return []
+}
+
+export const englishLemmatizer: Lemmatizer = word => {
+  const irregular = IRREGULAR_FORMS[word]
+  if (irregular) return [irregular]
+
+  if (word.length < MIN_LENGTH || UNINFLECTED.has(word) || !/^[a-z][a-z'-]*$/.test(word)) {
+    return [word]
+  }
+
+  const candidates = suffixCandidates(word).filter(candidate => candidate.length >= 2)
+  return candidates.length > 0 ? candidates : [word]
+}
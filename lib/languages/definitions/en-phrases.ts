@@ -0,0 +1,30 @@
+// Multi-word expressions worth studying as a unit. Matched after lemmatizing, so
+// "carried out" and "carrying out" both find "carry out".
+export const ENGLISH_PHRASES = [
+  // Phrasal verbs
+  'account for', 'back up', 'break down', 'bring about', 'bring up', 'build on',
+  'call for', 'call off', 'carry on', 'carry out', 'come across', 'come up with',
+  'cope with', 'count on', 'cut back', 'deal with', 'draw on', 'end up', 'figure out',
+  'fill in', 'find out', 'focus on', 'get along', 'get over', 'give in', 'give up',
+  'go through', 'hand in', 'hold back', 'keep up with', 'lay out', 'lead to',
+  'look after', 'look forward to', 'look into', 'look up to', 'make up', 'narrow down',
+  'pick up', 'point out', 'put forward', 'put off', 'put up with', 'rely on',
+  'result in', 'rule out', 'run into', 'run out of', 'set out', 'set up', 'show up',
+  'sort out', 'stand for', 'stem from', 'take into account', 'take on', 'take over',
+  'take place', 'take up', 'turn down', 'turn out', 'work out',
+
+  // Fixed expressions and linking phrases
+  'according to', 'as a result', 'as opposed to', 'as well as', 'at least',
+  'at the expense of', 'by and large', 'by means of', 'due to', 'for instance',
+  'in accordance with', 'in addition', 'in advance', 'in charge of', 'in contrast',
+  'in favour of', 'in favor of', 'in light of', 'in order to', 'in other words',
+  'in particular', 'in spite of', 'in terms of', 'in the long run', 'in turn',
+  'make sense', 'no longer', 'on behalf of', 'on the contrary', 'on the other hand',
+  'other than', 'prior to', 'rather than', 'so far', 'such as', 'with regard to',
+  'with respect to',
+
+  // Common collocations
+  'draw a conclusion', 'make a decision', 'pay attention', 'play a role',
+  'raise awareness', 'reach an agreement', 'take advantage of', 'take action',
+  'take responsibility', 'bear in mind', 'come to terms with', 'keep in mind',
+]
@@ -0,0 +1,35 @@
+import type { Language } from '../types'
+import { CEFR } from '../levels'
+import { spaceDelimitedTokenizer } from '../tokenizers'
+import { englishLemmatizer } from './en-lemmatizer'
+import { ENGLISH_PHRASES } from './en-phrases'
+
+// Common English words that are not worth studying (very basic list)
+const STOP_WORDS = new Set([
+  'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
+  'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at',
+  'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her', 'she',
+  'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their',
+  'what', 'so', 'up', 'out', 'if', 'about', 'who', 'get', 'which', 'go',
+  'me', 'when', 'make', 'can', 'like', 'time', 'no', 'just', 'him', 'know',
+  'take', 'into', 'year', 'your', 'some', 'could', 'them', 'see', 'other',
+  'than', 'then', 'now', 'look', 'only', 'come', 'its', 'over', 'also',
+  'after', 'use', 'two', 'how', 'our', 'work', 'first', 'well', 'way',
+  'even', 'new', 'want', 'because', 'any', 'these', 'give', 'most', 'us',
+  'is', 'was', 'are', 'been', 'has', 'had', 'were', 'said', 'did', 'having'
+])
+
+export const english: Language = {
+  code: 'en',
+  id: 1,
+  name: 'English',
+  nativeName: 'English',
+  script: 'latin',
+  tokenize: spaceDelimitedTokenizer,
+  lemmatize: englishLemmatizer,
+  stopWords: STOP_WORDS,
+  phrases: ENGLISH_PHRASES,
+  providers: ['cambridge', 'oxford', 'google', 'urban'],
+  levels: CEFR,
+  placeholder: 'Add a word...',
+}
@@ -0,0 +1,214 @@
+import type { Lemmatizer } from '../types'
+
+/**
+ * Rule-based Japanese lemmatizer
+ *
+ * Intl.Segmenter cuts inflected verbs and adjectives after their kanji (食べました →
+ * 食 | べ | ま | した), so the tokenizer glues the kana endings back on with joinInflection
+ * and the lemmatizer undoes them with ending rules (食べました → 食べる, 読んで → 読む,
+ * 寒かった → 寒い, 勉強した → 勉強する, 静かな → 静か). Without a dictionary an ending often fits more
+ * than one kind of verb (待った could come from 待る, 待う or 待つ): the stem lists below
+ * settle it for common verbs, and candidates are returned in order so lookups fall back
+ * to the next one.
+ */
+
+type Kind = 'known' | 'suru' | 'ichidan' | 'adjective' | 'na-adjective' | 'godan' | 'adverb'
+
+interface Rule {
+  kind: Kind
+  lemmas: string[] // Dictionary endings that replace the inflected one, most likely first
+}
+
+// Suffixes after the stem a verb takes before ます: 書きます, 書きたい, 書きながら
+const MASU_SUFFIXES = [
+  'ます', 'ました', 'ません', 'ませんでした', 'ましょう',
+  'たい', 'たかった', 'たくない', 'たくなかった', 'ながら', 'なさい',
+]
+
+// Negative suffixes: 書かない, 食べなかった, 見なければ
+const NAI_SUFFIXES = ['ない', 'なかった', 'なくて', 'なければ', 'ず']
+
+// After the te form: 書いて, 書いている, 書いてください
+const TE_SUFFIXES = ['', 'いる', 'います', 'いた', 'いました', 'いない', 'ください', 'しまう', 'しまった', 'も', 'は']
+
+// After the ta form: 書いた, 書いたら, 書いたり
+const TA_SUFFIXES = ['', 'ら', 'り']
+
+// After the e-stem: 書けば, and the potential 書ける, 書けます, 書けない
+const E_SUFFIXES = ['ば', 'る', 'ます', 'ない', 'た', 'て']
+
+// Godan verbs by dictionary ending, with the kana their stem ends in before each kind of
+// suffix: [dictionary, before ます, before ない, before ば, before う]
+const GODAN_ROWS = [
+  ['う', 'い', 'わ', 'え', 'お'],
+  ['く', 'き', 'か', 'け', 'こ'],
+  ['ぐ', 'ぎ', 'が', 'げ', 'ご'],
+  ['す', 'し', 'さ', 'せ', 'そ'],
+  ['つ', 'ち', 'た', 'て', 'と'],
+  ['ぬ', 'に', 'な', 'ね', 'の'],
+  ['ぶ', 'び', 'ば', 'べ', 'ぼ'],
+  ['む', 'み', 'ま', 'め', 'も'],
+  ['る', 'り', 'ら', 'れ', 'ろ'],
+]
+
+// Te and ta forms of godan verbs, with the dictionary endings they can come from
+const GODAN_TE_FORMS: [te: string, ta: string, lemmas: string[]][] = [
+  ['って', 'った', ['る', 'う', 'つ']],
+  ['んで', 'んだ', ['む', 'ぶ', 'ぬ']],
+  ['いて', 'いた', ['く']],
+  ['いで', 'いだ', ['ぐ']],
+  ['して', 'した', ['す']],
+]
+
+// Godan stems whose te and ta forms the default order above gets wrong, mapped to their
+// dictionary ending: 待った → 待つ, 行った → 行く, 分かった → 分かる (not 分い)
+const GODAN_STEMS: Record<string, string> = {
+  待: 'つ', 持: 'つ', 立: 'つ', 勝: 'つ', 打: 'つ', 育: 'つ', 保: 'つ', 放: 'つ', 撃: 'つ',
+  役立: 'つ', 目立: 'つ', 絶: 'つ',
+  言: 'う', 買: 'う', 会: 'う', 合: 'う', 思: 'う', 使: 'う', 歌: 'う', 笑: 'う', 払: 'う',
+  習: 'う', 違: 'う', 洗: 'う', 吸: 'う', 拾: 'う', 貰: 'う', 従: 'う', 戦: 'う', 扱: 'う',
+  失: 'う', 救: 'う', 追: 'う', 誘: 'う', 迷: 'う', 祝: 'う', 争: 'う', 伺: 'う', 願: 'う',
+  問: 'う', 狙: 'う', 襲: 'う', 補: 'う', 奪: 'う', 疑: 'う', 雇: 'う', 通: 'う', 養: 'う',
+  敬: 'う', 酔: 'う', 向か: 'う', 味わ: 'う', 手伝: 'う', 似合: 'う', 間に合: 'う',
+  呼: 'ぶ', 遊: 'ぶ', 飛: 'ぶ', 運: 'ぶ', 学: 'ぶ', 選: 'ぶ', 喜: 'ぶ', 並: 'ぶ', 結: 'ぶ',
+  叫: 'ぶ', 転: 'ぶ', 滅: 'ぶ', 及: 'ぶ', 浮か: 'ぶ',
+  死: 'ぬ',
+  行: 'く',
+  分か: 'る', 助か: 'る', 掛か: 'る', 預か: 'る', 儲か: 'る', 見つか: 'る',
+}
+
+// Ichidan stems ending in an i-row kana, which otherwise read as godan: 起きます → 起きる
+const ICHIDAN_I_STEMS = new Set([
+  '起き', '生き', '過ぎ', '落ち', '降り', '借り', '浴び', '伸び', '延び', '信じ', '感じ',
+  '閉じ', '飽き', '尽き', '満ち', '足り', '恥じ', '用い', '報い', '老い',
+])
+
+// Ichidan verbs written with a single kanji: 見る, 寝る, 出る, and 来る, which inflects alike
+const ICHIDAN_KANJI = new Set(['見', '着', '寝', '居', '似', '煮', '出', '得', '経', '来', '干'])
+
+// Kana an ichidan stem can end in: the e-row
+const E_ROW = /[えけげせぜてでねへべぺめれ]$/
+
+// What is left once an ending is removed: kanji or katakana, then at most a few kana of
+// okurigana (忘れら of 忘れられる). Longer runs of kana are other words run together.
+const STEM = /[\p{Script=Han}\p{Script=Katakana}ー々]\p{Script=Hiragana}{0,3}$/u
+
+const NOUN = /^[\p{Script=Han}\p{Script=Katakana}ー々]+$/u
+const ENDS_IN_KANJI = /[\p{Script=Han}々]$/u
+
+// Every rule by the inflected ending it undoes
+const RULES = new Map<string, Rule[]>()
+
+function addRule(endings: string[], kind: Kind, lemmas: string[]) {
+  for (const ending of endings) {
+    const rules = RULES.get(ending) || []
+    rules.push({ kind, lemmas })
+    RULES.set(ending, rules)
+  }
+}
+
+const withSuffixes = (stem: string, suffixes: string[]) => suffixes.map(suffix => stem + suffix)
+
+for (const [dictionary, masu, nai, ba, volitional] of GODAN_ROWS) {
+  addRule([dictionary], 'godan', [dictionary])
+  addRule(withSuffixes(masu, MASU_SUFFIXES), 'godan', [dictionary])
+  addRule(withSuffixes(nai, [...NAI_SUFFIXES, 'れる', 'せる']), 'godan', [dictionary]) // Passive, causative
+  addRule(withSuffixes(ba, E_SUFFIXES), 'godan', [dictionary])
+  addRule([`${volitional}う`], 'godan', [dictionary])
+}
+for (const [te, ta, lemmas] of GODAN_TE_FORMS) {
+  addRule([...withSuffixes(te, TE_SUFFIXES), ...withSuffixes(ta, TA_SUFFIXES)], 'known', lemmas)
+  addRule([...withSuffixes(te, TE_SUFFIXES), ...withSuffixes(ta, TA_SUFFIXES)], 'godan', lemmas)
+}
+
+addRule([
+  'る', 'れば', 'よう', 'ろ', 'られる', 'させる',
+  ...MASU_SUFFIXES, ...NAI_SUFFIXES, ...withSuffixes('て', TE_SUFFIXES), ...withSuffixes('た', TA_SUFFIXES),
+], 'ichidan', ['る'])
+
+// Forms of する, after a noun (勉強した) or on their own (した)
+const SURU_FORMS = [
+  'する', 'すれば', 'しよう', 'される', 'させる',
+  ...withSuffixes('し', [...MASU_SUFFIXES, ...NAI_SUFFIXES]),
+  ...withSuffixes('して', TE_SUFFIXES), ...withSuffixes('した', TA_SUFFIXES),
+]
+addRule(SURU_FORMS, 'suru', ['する'])
+
+addRule(['い', 'かった', 'くない', 'くなかった', 'くて', 'ければ'], 'adjective', ['い'])
+addRule(['く'], 'adverb', ['い']) // 高く could as well be a godan verb like 書く
+addRule(['な'], 'na-adjective', ['']) // 静かな, 有名な
+
+const LONGEST_ENDING = Math.max(...[...RULES.keys()].map(ending => ending.length))
+
+// Most likely first when several rules fit
+const PRIORITY: Kind[] = ['known', 'suru', 'ichidan', 'adjective', 'na-adjective', 'godan', 'adverb']
+
+/**
+ * Whether an ending rule of this kind can apply to what is left of the word
+ */
+function fits(kind: Kind, stem: string, ending: string): boolean {
+  switch (kind) {
+    case 'known':
+      return stem in GODAN_STEMS
+    case 'suru':
+      return stem.length >= 2 && NOUN.test(stem) // 勉強する and コピーする, not 話す
+    case 'ichidan':
+      return E_ROW.test(stem) || ICHIDAN_I_STEMS.has(stem) || ICHIDAN_KANJI.has(stem)
+    case 'na-adjective':
+      // Kanji or katakana, or okurigana in か (静か, 明らか), but not 大きな or 小さな,
+      // which are dictionary forms
+      return /[\p{Script=Han}\p{Script=Katakana}ー々]$|か$/u.test(stem)
+    case 'godan':
+      // The bare dictionary form ends right after the kanji, or after okurigana like 分か;
+      // a stem in し before く is an adjective (美しく)
+      if (ending.length > 1) return true
+      if (ending === 'く' && stem.endsWith('し')) return false
+      return ENDS_IN_KANJI.test(stem) || /\p{Script=Han}\p{Script=Hiragana}$/u.test(stem)
+    default:
+      return true
+  }
+}
+
+/**
+ * Dictionary forms the word could be an inflection of, most likely first
+ */
+function deinflect(word: string): string[] {
+  const candidates: [Kind, string][] = []
+  for (let length = Math.min(LONGEST_ENDING, word.length - 1); length >= 1; length--) {
+    const ending = word.slice(-length)
+    const stem = word.slice(0, -length)
+    if (!STEM.test(stem)) continue
+    for (const { kind, lemmas } of RULES.get(ending) || []) {
+      if (!fits(kind, stem, ending)) continue
+      const known = kind === 'known' ? [GODAN_STEMS[stem]] : lemmas
+      for (const lemma of known) candidates.push([kind, stem + lemma])
+    }
+  }
+  candidates.sort((a, b) => PRIORITY.indexOf(a[0]) - PRIORITY.indexOf(b[0]))
+  return [...new Set(candidates.map(([, lemma]) => lemma))]
+}
+
+export const japaneseLemmatizer: Lemmatizer = word => {
+  if (SURU_FORMS.includes(word)) return ['する']
+  const candidates = deinflect(word)
+  return candidates.length > 0 ? candidates : [word]
+}
+
+// Particles, the copula and ある, which follow nouns rather than inflect them: 時間がない
+// is "no time", not a form of 時間ぐ, and 問題ありません not one of 問題ある
+const NOT_AN_ENDING = /^(が|は|を|に|の|へ|と|も|や|で|だ|あ|しか|から|まで|より)/
+
+/**
+ * The word with the inflected ending that follows it in the text, if any
+ * @param word - A segment ending in kanji, e.g. 食
+ * @param kana - The hiragana that directly follow it, e.g. べました
+ * @returns The longest inflected form, e.g. 食べました, or the word itself
+ */
+export function joinInflection(word: string, kana: string): string {
+  if (NOT_AN_ENDING.test(kana)) return word
+  for (let length = kana.length; length >= 1; length--) {
+    const form = word + kana.slice(0, length)
+    if (deinflect(form).length > 0) return form
+  }
+  return word
+}
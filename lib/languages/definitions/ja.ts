@@ -0,0 +1,33 @@
+import type { Language } from '../types'
+import { JLPT } from '../levels'
+import { createSegmenterTokenizer } from '../tokenizers'
+import { japaneseLemmatizer, joinInflection } from './ja-lemmatizer'
+
+// Words made of Japanese characters with at least one kanji or katakana: runs of pure
+// hiragana are almost always particles, auxiliaries or inflected endings
+const WORD_PATTERN = /^(?=.*[\p{Script=Han}\p{Script=Katakana}])[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+$/u
+
+// Very common words that are not worth studying
+const STOP_WORDS = new Set([
+  '私', '僕', '彼', '彼女', '何', '人', '方', '事', '物', '時',
+  '今', '日', '年', '月', '中', '上', '下', '前', '後', '目',
+  '言う', '見る', '来る', '行く', '思う', '出る', '入る', '分かる',
+  '一', '二', '三', '四', '五', '六', '七', '八', '九', '十', '百', '千', '万',
+])
+
+export const japanese: Language = {
+  code: 'ja',
+  id: 2,
+  name: 'Japanese',
+  nativeName: '日本語',
+  script: 'japanese',
+  // The segmenter leaves only the stem of inflected words (食 of 食べました), so their
+  // endings are joined back on and the lemmatizer turns them into dictionary forms
+  tokenize: createSegmenterTokenizer('ja', WORD_PATTERN, joinInflection),
+  lemmatize: japaneseLemmatizer,
+  stopWords: STOP_WORDS,
+  phrases: [],
+  providers: ['jmdict', 'google'],
+  levels: JLPT,
+  placeholder: '単語を追加...',
+}
@@ -0,0 +1,38 @@
+import type { Language, Lemmatizer } from './types'
+
+/**
+ * Lemmatizer for languages whose words are stored as they appear
+ */
+export const identityLemmatizer: Lemmatizer = word => [word]
+
+/**
+ * The dictionary form of a word, e.g. "run" for "running"
+ * Words are compared lowercased, so the lemma is lowercase too.
+ */
+export function lemmatize(word: string, language: Language): string {
+  return language.lemmatize(word.trim().toLowerCase())[0]
+}
+
+/**
+ * Every form a word could be stored under: the word itself and its candidate lemmas
+ * Two words share a lemma when their keys overlap.
+ */
+export function lemmaKeys(word: string, language: Language): string[] {
+  const normalized = word.trim().toLowerCase()
+  return [...new Set([...language.lemmatize(normalized), normalized])]
+}
+
+/**
+ * Adds inflected forms to the ones already recorded for a word
+ * The lemma itself is never recorded as a form.
+ * @returns The merged forms, or null if nothing new was added
+ */
+export function mergeForms(lemma: string, recorded: string[] | null | undefined, seen: Iterable<string>): string[] | null {
+  const forms = new Set(recorded || [])
+  const before = forms.size
+  for (const form of seen) {
+    const normalized = form.trim().toLowerCase()
+    if (normalized && normalized !== lemma.toLowerCase()) forms.add(normalized)
+  }
+  return forms.size > before ? [...forms] : null
+}
@@ -0,0 +1,75 @@
+import { CEFR_LEVELS, JLPT_LEVELS, normalizeCefrLevel, normalizeJlptLevel } from '@/lib/llm/schema'
+import type { LevelScheme, Proficiency } from './types'
+
+const CEFR_LABELS: Record<typeof CEFR_LEVELS[number], string> = {
+  A1: 'Beginner',
+  A2: 'Elementary',
+  B1: 'Intermediate',
+  B2: 'Upper Intermediate',
+  C1: 'Advanced',
+  C2: 'Proficient',
+}
+
+export const CEFR: LevelScheme = {
+  id: 'cefr',
+  name: 'CEFR',
+  levels: CEFR_LEVELS.map(code => ({ code, label: CEFR_LABELS[code] })),
+  vocabularySizes: [1000, 2000, 3250, 5000, 8000],
+  proficiency: { beginner: 'A2', intermediate: 'B2', advanced: 'C1' },
+  normalize: normalizeCefrLevel,
+}
+
+const JLPT_LABELS: Record<typeof JLPT_LEVELS[number], string> = {
+  N5: 'Basic',
+  N4: 'Elementary',
+  N3: 'Intermediate',
+  N2: 'Upper Intermediate',
+  N1: 'Advanced',
+}
+
+export const JLPT: LevelScheme = {
+  id: 'jlpt',
+  name: 'JLPT',
+  levels: JLPT_LEVELS.map(code => ({ code, label: JLPT_LABELS[code] })),
+  vocabularySizes: [800, 1500, 3750, 6000],
+  proficiency: { beginner: 'N4', intermediate: 'N3', advanced: 'N2' },
+  normalize: normalizeJlptLevel,
+}
+
+/**
+ * Position of a level on its scale, 0 being the easiest
+ * @returns The index, or -1 if the value is not a level of the scheme
+ */
+export function levelIndex(scheme: LevelScheme, value: unknown): number {
+  const code = scheme.normalize(value)
+  return code ? scheme.levels.findIndex(l => l.code === code) : -1
+}
+
+/**
+ * Estimates the level of a word from its rank in a frequency list
+ * @param rank - Position in the list, 1 being the most frequent word
+ */
+export function levelForRank(scheme: LevelScheme, rank: number): string {
+  const index = scheme.vocabularySizes.findIndex(size => rank <= size)
+  return scheme.levels[index === -1 ? scheme.levels.length - 1 : index].code
+}
+
+/**
+ * The level a learner has reached
+ * With the "auto" difficulty it is estimated from the words they are studying: the level
+ * just below the median level of their library.
+ * @param libraryLevels - Levels of the learner's words in this language
+ * @returns The level code, or undefined if "auto" has no leveled words to go by
+ */
+export function learnerLevel(scheme: LevelScheme, difficulty: Proficiency | 'auto', libraryLevels: unknown[]): string | undefined {
+  if (difficulty !== 'auto') return scheme.proficiency[difficulty]
+
+  const indexes = libraryLevels
+    .map(level => levelIndex(scheme, level))
+    .filter(index => index !== -1)
+    .sort((a, b) => a - b)
+  if (indexes.length === 0) return undefined
+
+  const median = indexes[Math.floor(indexes.length / 2)]
+  return scheme.levels[Math.max(0, median - 1)].code
+}
@@ -0,0 +1,39 @@
+import type { Language, LanguageCode } from './types'
+import { english } from './definitions/en'
+import { japanese } from './definitions/ja'
+
+/**
+ * All supported languages, in the order they are offered in the UI
+ * To add a language, write a definition in ./definitions and list it here. Its id must
+ * match vocab_library.lang_id for existing rows.
+ */
+export const LANGUAGES: readonly Language[] = [
+  english,
+  japanese,
+]
+
+export const DEFAULT_LANGUAGE: Language = english
+
+/**
+ * Checks whether a value is a supported language code
+ * @param value - Untrusted value, e.g. from a request body
+ */
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some(l => l.code === value)
+}
+
+/**
+ * Gets a language by code, falling back to the default language
+ * @param code - Language code, e.g. from a request body
+ */
+export function getLanguage(code: unknown): Language {
+  return LANGUAGES.find(l => l.code === code) || DEFAULT_LANGUAGE
+}
+
+/**
+ * Gets the language of a stored word, falling back to the default language
+ * @param id - vocab_library.lang_id
+ */
+export function getLanguageById(id: number | null | undefined): Language {
+  return LANGUAGES.find(l => l.id === id) || DEFAULT_LANGUAGE
+}
@@ -0,0 +1,42 @@
+import type { Tokenizer } from './types'
+
+/**
+ * Tokenizer for languages that separate words with spaces
+ * Keeps letters, hyphens and apostrophes; drops numbers and single letters.
+ */
+export const spaceDelimitedTokenizer: Tokenizer = text =>
+  text
+    .replace(/[^\p{L}\p{N}'’-]+/gu, ' ') // Remove punctuation but keep hyphens and apostrophes
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/’/g, "'").replace(/^['\d-]+|['\d-]+$/g, '')) // Trim leading/trailing hyphens, apostrophes and numbers
+    .filter(word => word.length >= 2 && /^\p{L}[\p{L}'-]*$/u.test(word))
+
+// Longest run of kana looked at after a word for its ending: 食べさせられませんでした
+const MAX_ENDING_LENGTH = 12
+
+/**
+ * Builds a tokenizer for languages written without spaces, using the built-in
+ * dictionary-based word segmentation of Intl.Segmenter
+ * @param locale - BCP 47 locale the segmenter should use
+ * @param wordPattern - Segments that do not match are skipped
+ * @param joinEnding - Given a word and the hiragana that directly follow it, returns the
+ *   word with the inflected ending it takes; the segmenter splits it off (食 | べ | ま | した)
+ */
+export function createSegmenterTokenizer(
+  locale: string,
+  wordPattern: RegExp,
+  joinEnding?: (word: string, kana: string) => string,
+): Tokenizer {
+  return text => {
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'word' })
+    const tokens: string[] = []
+    for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+      if (!isWordLike || !wordPattern.test(segment)) continue
+      const end = index + segment.length
+      const kana = joinEnding && text.slice(end, end + MAX_ENDING_LENGTH).match(/^\p{Script=Hiragana}+/u)?.[0]
+      tokens.push(kana ? joinEnding(segment, kana) : segment)
+    }
+    return tokens
+  }
+}
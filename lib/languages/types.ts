@@ -0,0 +1,73 @@
+import type { ProviderId } from '@/lib/dictionary/types'
+
+/**
+ * ISO 639-1 code of a language the app supports
+ */
+export type LanguageCode = 'en' | 'ja'
+
+/**
+ * Writing system of a language, which decides how text is split into words
+ * - latin: words are separated by spaces and punctuation
+ * - japanese: no spaces between words, text is segmented with Intl.Segmenter
+ */
+export type Script = 'latin' | 'japanese'
+
+export interface Level {
+  code: string  // Stored in vocab_library.cefr_level, e.g. "B2" or "N3"
+  label: string // e.g. "Upper Intermediate"
+}
+
+/**
+ * Difficulty a learner picks in the settings
+ */
+export type Proficiency = 'beginner' | 'intermediate' | 'advanced'
+
+/**
+ * A proficiency scale like CEFR (A1-C2) or JLPT (N5-N1)
+ */
+export interface LevelScheme {
+  id: 'cefr' | 'jlpt'
+  name: string
+  levels: readonly Level[] // Easiest first
+  /**
+   * Rough number of the most frequent words a learner knows at each level but the last,
+   * used to estimate the level of a word from its frequency rank
+   */
+  vocabularySizes: readonly number[]
+  proficiency: Record<Proficiency, string> // Level reached at each difficulty setting
+  /**
+   * Maps a label like "b2" or "JLPT N3" to one of the level codes
+   * @returns The level code, or undefined if it is not recognized
+   */
+  normalize(value: unknown): string | undefined
+}
+
+/**
+ * Splits text into candidate vocabulary words, in order of appearance
+ * Tokens are normalized (e.g. lowercased) but stop words are not removed yet.
+ */
+export type Tokenizer = (text: string) => string[]
+
+/**
+ * Maps a lowercased word to the dictionary forms it may be an inflection of
+ * @returns Candidate lemmas, most likely first; never empty
+ */
+export type Lemmatizer = (word: string) => string[]
+
+/**
+ * Everything the app needs to know about a language
+ */
+export interface Language {
+  code: LanguageCode
+  id: number           // vocab_library.lang_id
+  name: string         // English name, e.g. "Japanese"
+  nativeName: string   // e.g. "日本語"
+  script: Script
+  tokenize: Tokenizer
+  lemmatize: Lemmatizer
+  stopWords: ReadonlySet<string>
+  phrases: readonly string[] // Multi-word expressions looked for in imported text
+  providers: ProviderId[] // Dictionary providers that have entries for this language
+  levels: LevelScheme
+  placeholder: string  // Hint for the add-word input, in the language itself
+}
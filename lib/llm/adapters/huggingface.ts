@@ -0,0 +1,32 @@
+import type { LLMAdapter } from '../types'
+
+// The Hugging Face Inference API takes a single prompt instead of chat messages
+export const huggingFaceAdapter: LLMAdapter = {
+  backend: 'huggingface',
+  hint: 'Check your API key and model availability.',
+  buildRequest(config, messages, options) {
+    const prompt = messages
+      .map(m => m.role === 'system' ? m.content : `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+      .join('\n\n')
+
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: {
+        inputs: `${prompt}\n\nAssistant:`,
+        parameters: {
+          max_new_tokens: options.maxTokens,
+          temperature: options.temperature,
+          return_full_text: false,
+        },
+      },
+    }
+  },
+  extractContent(data) {
+    // Hugging Face returns array or object with generated_text
+    type Generation = { generated_text?: string }
+    return Array.isArray(data) ? (data[0] as Generation)?.generated_text : (data as Generation | null)?.generated_text
+  },
+}
@@ -0,0 +1,19 @@
+import type { LLMAdapter } from '../types'
+import { chatCompletionBody, type ChatCompletionResponse } from './openai'
+
+// LM Studio serves an OpenAI-compatible API without authentication
+export const lmStudioAdapter: LLMAdapter = {
+  backend: 'lm-studio',
+  hint: 'Is the server running?',
+  buildRequest(config, messages, options) {
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: chatCompletionBody(config.model, messages, options),
+    }
+  },
+  extractContent(data) {
+    return (data as ChatCompletionResponse | null)?.choices?.[0]?.message?.content
+  },
+}
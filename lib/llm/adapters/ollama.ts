@@ -0,0 +1,26 @@
+import type { LLMAdapter } from '../types'
+
+// Ollama's native chat API (local)
+export const ollamaAdapter: LLMAdapter = {
+  backend: 'ollama',
+  hint: 'Is Ollama running?',
+  buildRequest(config, messages, options) {
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: {
+        model: config.model,
+        messages,
+        stream: false,
+        options: {
+          temperature: options.temperature,
+          num_predict: options.maxTokens,
+        },
+      },
+    }
+  },
+  extractContent(data) {
+    return (data as { message?: { content?: string } } | null)?.message?.content
+  },
+}
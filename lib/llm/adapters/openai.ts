@@ -0,0 +1,33 @@
+import type { ChatMessage, LLMAdapter } from '../types'
+
+export type ChatCompletionResponse = {
+  choices?: { message?: { content?: string } }[]
+}
+
+/**
+ * Request body of the OpenAI chat completions API, which LM Studio also speaks
+ */
+export function chatCompletionBody(model: string, messages: ChatMessage[], options: { temperature: number; maxTokens: number }) {
+  return {
+    model,
+    messages,
+    temperature: options.temperature,
+    max_tokens: options.maxTokens,
+  }
+}
+
+export const openAIAdapter: LLMAdapter = {
+  backend: 'openai',
+  buildRequest(config, messages, options) {
+    return {
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: chatCompletionBody(config.model, messages, options),
+    }
+  },
+  extractContent(data) {
+    return (data as ChatCompletionResponse | null)?.choices?.[0]?.message?.content
+  },
+}
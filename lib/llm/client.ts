@@ -0,0 +1,139 @@
+import type { ChatMessage, CompletionOptions, LLMConfig } from './types'
+import { getAdapter } from './config'
+import { parseJSONContent } from './schema'
+
+/**
+ * Error from an LLM backend
+ * status is the HTTP status of the last attempt, if the backend answered at all
+ */
+export class LLMError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message)
+    this.name = 'LLMError'
+  }
+}
+
+const DEFAULT_RETRIES = Math.max(0, Number(process.env.LLM_MAX_RETRIES ?? 2) || 0)
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 60000 // Local models can be slow
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 10000
+
+/**
+ * How long to wait before the next attempt
+ * Honors Retry-After (seconds or HTTP date), otherwise exponential backoff with jitter
+ */
+function retryDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const ms = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000
+    if (ms >= 0) return Math.min(ms, MAX_DELAY_MS)
+  }
+  const backoff = BASE_DELAY_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_DELAY_MS)
+}
+
+/**
+ * Sends a chat completion request and returns the generated text
+ * Network errors, timeouts, 429 and 5xx responses are retried with backoff
+ * @throws LLMError if every attempt failed or the backend returned no text
+ */
+export async function complete(
+  config: LLMConfig,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<string> {
+  const adapter = getAdapter(config.backend)
+  const hint = adapter.hint ? ` ${adapter.hint}` : ''
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const { headers, body } = adapter.buildRequest(config, messages, {
+    temperature: options.temperature ?? 0.2,
+    maxTokens: options.maxTokens ?? 500,
+  })
+
+  let lastError = new LLMError(`${config.name} request failed.${hint}`)
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(config.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      })
+    } catch (error) {
+      console.error(`❌ ${config.name} request failed (attempt ${attempt + 1}/${retries + 1}):`, error instanceof Error ? error.message : error)
+      lastError = new LLMError(`Could not reach ${config.name}.${hint}`)
+      if (attempt < retries) {
+        await new Promise(resolve => setTimeout(resolve, retryDelay(attempt)))
+      }
+      continue
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      console.error(`❌ ${config.name} Error (HTTP ${response.status}):`, errorData)
+      lastError = new LLMError(`${config.name} returned HTTP ${response.status}.${hint}`, response.status)
+
+      const retryable = response.status === 429 || response.status >= 500
+      if (!retryable) throw lastError
+      if (attempt < retries) {
+        await new Promise(resolve => setTimeout(resolve, retryDelay(attempt, response.headers.get('Retry-After'))))
+      }
+      continue
+    }
+
+    const data = await response.json().catch(() => null)
+    const content = adapter.extractContent(data)
+    if (!content) {
+      throw new LLMError(`No response from ${config.name}`, response.status)
+    }
+    return content
+  }
+
+  throw lastError
+}
+
+/**
+ * Requests JSON from the model and validates it
+ * When the output does not parse or has issues, the model is shown the problems and asked
+ * to correct itself (repairAttempts times). Whatever is left is returned with its issues,
+ * so callers can repair fields themselves or fall back to other data.
+ * @param validate - Returns a list of problems with the parsed value (empty if valid)
+ * @returns The last parsed value (undefined if nothing parsed) and its remaining issues
+ * @throws LLMError if the backend could not be reached
+ */
+export async function completeJSON(
+  config: LLMConfig,
+  messages: ChatMessage[],
+  validate: (value: unknown) => string[],
+  options: CompletionOptions & { repairAttempts?: number } = {}
+): Promise<{ value: unknown; issues: string[] }> {
+  const repairAttempts = options.repairAttempts ?? 1
+  let conversation = messages
+  let value: unknown
+  let issues: string[] = []
+
+  for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+    const content = await complete(config, conversation, options)
+
+    try {
+      value = parseJSONContent(content)
+      issues = validate(value)
+    } catch {
+      value = undefined
+      issues = ['Response is not valid JSON']
+    }
+
+    if (issues.length === 0) break
+
+    console.log(`⚠️ ${config.name} response has issues: ${issues.join('; ')}`)
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: `Your response had these problems: ${issues.join('; ')}. Return ONLY the corrected JSON, no markdown code blocks or additional text.` },
+    ]
+  }
+
+  return { value, issues }
+}
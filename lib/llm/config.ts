@@ -0,0 +1,80 @@
+import type { LLMAdapter, LLMBackend, LLMConfig } from './types'
+import { openAIAdapter } from './adapters/openai'
+import { lmStudioAdapter } from './adapters/lm-studio'
+import { huggingFaceAdapter } from './adapters/huggingface'
+import { ollamaAdapter } from './adapters/ollama'
+
+const ADAPTERS: Record<LLMBackend, LLMAdapter> = {
+  'openai': openAIAdapter,
+  'lm-studio': lmStudioAdapter,
+  'huggingface': huggingFaceAdapter,
+  'ollama': ollamaAdapter,
+}
+
+export function getAdapter(backend: LLMBackend): LLMAdapter {
+  return ADAPTERS[backend]
+}
+
+/**
+ * Determines which LLM backend to use from the environment
+ * USE_HUGGINGFACE, USE_LM_STUDIO and USE_OLLAMA are checked in that order; OpenAI is the default
+ * @returns The backend config, or an error message if it is not configured
+ */
+export function getLLMConfig(): { config: LLMConfig } | { error: string } {
+  if (process.env.USE_HUGGINGFACE === 'true') {
+    // Hugging Face Inference API
+    const model = process.env.HUGGINGFACE_MODEL || 'meta-llama/Llama-3.2-3B-Instruct'
+    const apiKey = process.env.HUGGINGFACE_API_KEY || ''
+    if (!apiKey) {
+      return { error: 'Hugging Face API key not configured. Please add HUGGINGFACE_API_KEY to your .env.local file' }
+    }
+    return {
+      config: {
+        backend: 'huggingface',
+        name: 'Hugging Face',
+        url: `https://api-inference.huggingface.co/models/${model}`,
+        apiKey,
+        model,
+      },
+    }
+  }
+
+  if (process.env.USE_LM_STUDIO === 'true') {
+    // LM Studio (local)
+    return {
+      config: {
+        backend: 'lm-studio',
+        name: 'LM Studio',
+        url: process.env.LM_STUDIO_URL || 'http://localhost:1234/v1/chat/completions',
+        model: process.env.LM_STUDIO_MODEL || 'local-model',
+      },
+    }
+  }
+
+  if (process.env.USE_OLLAMA === 'true') {
+    // Ollama (local)
+    return {
+      config: {
+        backend: 'ollama',
+        name: 'Ollama',
+        url: process.env.OLLAMA_URL || 'http://localhost:11434/api/chat',
+        model: process.env.OLLAMA_MODEL || 'llama3.2',
+      },
+    }
+  }
+
+  // OpenAI
+  const apiKey = process.env.OPENAI_API_KEY || ''
+  if (!apiKey) {
+    return { error: 'OpenAI API key not configured. Please add OPENAI_API_KEY to your .env.local file or set USE_LM_STUDIO=true, USE_OLLAMA=true or USE_HUGGINGFACE=true' }
+  }
+  return {
+    config: {
+      backend: 'openai',
+      name: 'OpenAI',
+      url: 'https://api.openai.com/v1/chat/completions',
+      apiKey,
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    },
+  }
+}
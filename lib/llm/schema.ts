@@ -0,0 +1,182 @@
+import type { LevelScheme } from '@/lib/languages/types'
+
+/**
+ * Typed schema for the word fields the LLM fills in, with validation and repair
+ */
+
+export const PARTS_OF_SPEECH = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'preposition',
+  'conjunction',
+  'pronoun',
+  'interjection',
+] as const
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const
+
+// Japanese-Language Proficiency Test levels, easiest first
+export const JLPT_LEVELS = ['N5', 'N4', 'N3', 'N2', 'N1'] as const
+
+export type PartOfSpeech = typeof PARTS_OF_SPEECH[number]
+export type CefrLevel = typeof CEFR_LEVELS[number]
+export type JlptLevel = typeof JLPT_LEVELS[number]
+
+/**
+ * The fields stored in vocab_library for a word
+ */
+export interface WordEntry {
+  part_of_speech: string
+  cefr_level: string
+  meaning_primary: string
+  usage_tips: string
+}
+
+// Abbreviations and labels dictionaries and models use instead of the full word class
+const PART_OF_SPEECH_ALIASES: Record<string, PartOfSpeech> = {
+  n: 'noun',
+  v: 'verb',
+  vb: 'verb',
+  adj: 'adjective',
+  adv: 'adverb',
+  prep: 'preposition',
+  conj: 'conjunction',
+  pron: 'pronoun',
+  interj: 'interjection',
+  exclamation: 'interjection',
+}
+
+/**
+ * Parses JSON from model output
+ * Strips markdown code blocks and any text around the JSON value
+ * @throws SyntaxError if no JSON value can be found
+ */
+export function parseJSONContent(content: string): unknown {
+  const clean = content.replace(/```(?:json)?\n?|\n?```/g, '').trim()
+  try {
+    return JSON.parse(clean)
+  } catch (error) {
+    // Models sometimes wrap the JSON in prose: take the outermost object or array
+    const start = clean.search(/[[{]/)
+    const end = Math.max(clean.lastIndexOf('}'), clean.lastIndexOf(']'))
+    if (start === -1 || end <= start) throw error
+    return JSON.parse(clean.slice(start, end + 1))
+  }
+}
+
+/**
+ * Maps a part of speech label to one of PARTS_OF_SPEECH
+ * @returns The normalized value, or undefined if it is not recognized
+ */
+export function normalizePartOfSpeech(value: unknown): PartOfSpeech | undefined {
+  if (typeof value !== 'string') return undefined
+  const label = value.trim().toLowerCase().replace(/\.$/, '')
+
+  if ((PARTS_OF_SPEECH as readonly string[]).includes(label)) return label as PartOfSpeech
+  if (PART_OF_SPEECH_ALIASES[label]) return PART_OF_SPEECH_ALIASES[label]
+
+  // Labels like "phrasal verb" or "noun [C]"
+  return PARTS_OF_SPEECH.find(pos => new RegExp(`\\b${pos}\\b`).test(label))
+}
+
+/**
+ * Maps a CEFR label like "b2" or "Level B2" to one of CEFR_LEVELS
+ * @returns The normalized value, or undefined if it is not recognized
+ */
+export function normalizeCefrLevel(value: unknown): CefrLevel | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/\b([ABC][12])\b/i)
+  return match ? match[1].toUpperCase() as CefrLevel : undefined
+}
+
+/**
+ * Maps a JLPT label like "n3", "JLPT N3" or "JLPT 3" to one of JLPT_LEVELS
+ * @returns The normalized value, or undefined if it is not recognized
+ */
+export function normalizeJlptLevel(value: unknown): JlptLevel | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.match(/\bN([1-5])\b/i) || value.match(/\bJLPT\s*([1-5])\b/i)
+  return match ? `N${match[1]}` as JlptLevel : undefined
+}
+
+/**
+ * Maps a CEFR or JLPT label to its level code
+ * Stored levels may use either scheme, depending on the word's language.
+ * @returns The normalized value, or undefined if it is not recognized
+ */
+export function normalizeLevel(value: unknown): CefrLevel | JlptLevel | undefined {
+  return normalizeCefrLevel(value) || normalizeJlptLevel(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * Checks a model response against the WordEntry schema
+ * Labels repairWordEntry can normalize (like "n." or "b2") count as valid.
+ * @param levels - Level scheme of the word's language; CEFR when omitted
+ * @returns A list of problems, empty if the value is valid
+ */
+export function validateWordEntry(value: unknown, levels?: LevelScheme): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Expected a JSON object']
+  }
+
+  const entry = value as Record<string, unknown>
+  const issues: string[] = []
+
+  if (!normalizePartOfSpeech(entry.part_of_speech)) {
+    issues.push(`part_of_speech must be one of: ${PARTS_OF_SPEECH.join(', ')}`)
+  }
+  const normalizeLevel = levels?.normalize ?? normalizeCefrLevel
+  if (!normalizeLevel(entry.cefr_level)) {
+    const codes = levels ? levels.levels.map(l => l.code) : CEFR_LEVELS
+    issues.push(`cefr_level must be one of: ${codes.join(', ')}`)
+  }
+  if (!isNonEmptyString(entry.meaning_primary)) {
+    issues.push('meaning_primary must be a non-empty string')
+  }
+  if (entry.usage_tips !== undefined && typeof entry.usage_tips !== 'string') {
+    issues.push('usage_tips must be a string')
+  }
+
+  return issues
+}
+
+/**
+ * Turns a (possibly invalid) model response into a WordEntry
+ * Fields are normalized where possible; anything unusable is taken from the fallback,
+ * typically the scraped dictionary data.
+ * @param value - Parsed model output, or undefined if there was none
+ * @param fallback - Values to use for missing or invalid fields
+ * @param levels - Level scheme of the word's language; CEFR when omitted
+ * @returns The entry, and the names of the fields that came from the fallback
+ */
+export function repairWordEntry(
+  value: unknown,
+  fallback: Partial<WordEntry> = {},
+  levels?: LevelScheme
+): { entry: WordEntry; repaired: (keyof WordEntry)[] } {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const repaired: (keyof WordEntry)[] = []
+
+  const pick = (field: keyof WordEntry, normalized: string | undefined, empty: string): string => {
+    if (normalized) return normalized
+    repaired.push(field)
+    return fallback[field] || empty
+  }
+
+  const normalizeLevel = levels?.normalize ?? normalizeCefrLevel
+
+  const entry: WordEntry = {
+    part_of_speech: pick('part_of_speech', normalizePartOfSpeech(raw.part_of_speech), ''),
+    cefr_level: pick('cefr_level', normalizeLevel(raw.cefr_level), 'n.a.'),
+    meaning_primary: pick('meaning_primary', isNonEmptyString(raw.meaning_primary) ? raw.meaning_primary.trim() : undefined, ''),
+    usage_tips: pick('usage_tips', isNonEmptyString(raw.usage_tips) ? raw.usage_tips.trim() : undefined, ''),
+  }
+
+  return { entry, repaired }
+}
@@ -0,0 +1,51 @@
+/**
+ * Backends the LLM client can talk to
+ */
+export type LLMBackend = 'openai' | 'lm-studio' | 'huggingface' | 'ollama'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * Resolved connection settings for one backend (see getLLMConfig)
+ */
+export interface LLMConfig {
+  backend: LLMBackend
+  name: string
+  url: string
+  apiKey?: string
+  model: string
+}
+
+export interface CompletionOptions {
+  temperature?: number
+  maxTokens?: number
+  retries?: number   // Extra attempts after a network error, 429 or 5xx
+  timeoutMs?: number // Per attempt
+}
+
+/**
+ * Translates between the client's chat format and one backend's HTTP API
+ */
+export interface LLMAdapter {
+  backend: LLMBackend
+  /**
+   * Appended to error messages, e.g. a reminder to start a local server
+   */
+  hint?: string
+  /**
+   * Builds the request headers and JSON body for a chat completion
+   */
+  buildRequest(
+    config: LLMConfig,
+    messages: ChatMessage[],
+    options: { temperature: number; maxTokens: number }
+  ): { headers: Record<string, string>; body: unknown }
+  /**
+   * Pulls the generated text out of the parsed response body
+   * @returns The text, or undefined if the response has none
+   */
+  extractContent(data: unknown): string | undefined
+}
@@ -0,0 +1,157 @@
+import { applyMutation, enqueue, type LocalWord, type Mutation, type QueuedMutation } from './mutations'
+
+/**
+ * Local replica of the library in IndexedDB, one database per user
+ * The words store mirrors vocab_library (with senses and contexts) as last loaded, plus
+ * the changes made since; the queue store holds those changes until sync.ts sends them.
+ */
+
+const DB_VERSION = 1
+const WORDS = 'words'
+const QUEUE = 'queue'
+
+// Background Sync tag; public/sw.js wakes the page with it to send the queue
+const SYNC_TAG = 'verba-sync'
+
+function databaseName(userId: string): string {
+  return `verba-offline-${userId}`
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function openDatabase(userId: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(databaseName(userId), DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(WORDS)) db.createObjectStore(WORDS, { keyPath: 'id' })
+    if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: 'seq' })
+  }
+  return result(request)
+}
+
+/**
+ * Runs a read-write transaction over both stores and closes the database afterwards
+ */
+async function withStores<T>(userId: string, work: (words: IDBObjectStore, queue: IDBObjectStore) => Promise<T>): Promise<T> {
+  const db = await openDatabase(userId)
+  try {
+    const tx = db.transaction([WORDS, QUEUE], 'readwrite')
+    const value = await work(tx.objectStore(WORDS), tx.objectStore(QUEUE))
+    await completion(tx)
+    return value
+  } finally {
+    db.close()
+  }
+}
+
+function newestFirst<T extends LocalWord>(words: T[]): T[] {
+  // Words added offline have negative ids, more negative for newer words, and go on top
+  return [...words].sort((a, b) => (a.id < 0) === (b.id < 0) ? Math.abs(b.id) - Math.abs(a.id) : a.id - b.id)
+}
+
+function replaceAll<T>(store: IDBObjectStore, rows: T[]): void {
+  store.clear()
+  for (const row of rows) store.put(row)
+}
+
+/**
+ * Words in the replica, newest first, including changes not yet sent
+ */
+export async function readLibrary<T extends LocalWord>(userId: string): Promise<T[]> {
+  return withStores(userId, async words => newestFirst(await result(words.getAll()) as T[]))
+}
+
+/**
+ * Stores the library as just loaded from Supabase
+ * Changes still waiting in the queue are applied again on top, so they stay visible.
+ * @returns The words to show
+ */
+export async function replaceLibrary<T extends LocalWord>(userId: string, rows: T[]): Promise<T[]> {
+  return withStores(userId, async (words, queue) => {
+    const pending = await result(queue.getAll()) as QueuedMutation[]
+    const library = newestFirst(pending.reduce((list: T[], mutation) => applyMutation(list, mutation), rows))
+    replaceAll(words, library)
+    return library
+  })
+}
+
+/**
+ * Asks the service worker to tell the page when the connection is back, where supported
+ */
+function requestBackgroundSync(): void {
+  if (!('serviceWorker' in navigator)) return
+  navigator.serviceWorker.ready
+    .then(registration => (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync?.register(SYNC_TAG))
+    .catch(() => {})
+}
+
+/**
+ * Applies a change to the replica and queues it for sync
+ * @returns The words to show
+ */
+export async function queueChange<T extends LocalWord>(userId: string, mutation: Mutation): Promise<T[]> {
+  const library = await withStores(userId, async (words, queue) => {
+    const current = await result(words.getAll()) as T[]
+    const pending = await result(queue.getAll()) as QueuedMutation[]
+    const updated = newestFirst(applyMutation(current, mutation))
+    replaceAll(words, updated)
+    replaceAll(queue, enqueue(pending, mutation))
+    return updated
+  })
+  requestBackgroundSync()
+  return library
+}
+
+/**
+ * Changes waiting to be sent, oldest first
+ */
+export async function readQueue(userId: string): Promise<QueuedMutation[]> {
+  return withStores(userId, async (_, queue) => await result(queue.getAll()) as QueuedMutation[])
+}
+
+/**
+ * Replaces the queue, e.g. after sync.ts has sent part of it
+ * @param savedIds - Words added offline that are now saved, as [temporary id, new id]
+ */
+export async function writeQueue(userId: string, pending: QueuedMutation[], savedIds: [number, number][] = []): Promise<void> {
+  await withStores(userId, async (words, queue) => {
+    replaceAll(queue, pending)
+    for (const [from, to] of savedIds) {
+      const word = await result(words.get(from)) as LocalWord | undefined
+      if (!word) continue
+      words.delete(from)
+      words.put({ ...word, id: to })
+    }
+  })
+}
+
+/**
+ * Size of the replica, for the storage settings
+ */
+export async function offlineDataUsage(userId: string): Promise<{ words: number; pending: number; bytes: number }> {
+  return withStores(userId, async (words, queue) => {
+    const rows = await result(words.getAll())
+    const pending = await result(queue.getAll())
+    return { words: rows.length, pending: pending.length, bytes: new Blob([JSON.stringify([rows, pending])]).size }
+  })
+}
+
+/**
+ * Deletes the replica and any changes not yet sent
+ */
+export async function clearOfflineData(userId: string): Promise<void> {
+  await result(indexedDB.deleteDatabase(databaseName(userId)))
+}
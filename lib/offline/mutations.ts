@@ -0,0 +1,179 @@
+/**
+ * Changes made to the local copy of the library, queued until they reach Supabase
+ * Quiz history and review schedule rows saved offline wait in the same queue, so there is
+ * one outbox. Pure functions: local-store.ts keeps the queue in IndexedDB and sync.ts sends it.
+ */
+
+/**
+ * Columns of vocab_library that can change offline and are merged field by field on sync
+ */
+export const SYNCED_FIELDS = [
+  'word',
+  'part_of_speech',
+  'cefr_level',
+  'meaning_primary',
+  'usage_tips',
+  'meaning_native',
+  'native_lang',
+  'lang_id',
+  'forms',
+] as const
+
+export type SyncedField = typeof SYNCED_FIELDS[number]
+export type WordFields = Partial<Record<SyncedField, unknown>>
+
+/**
+ * A word as stored in the local replica: a vocab_library row with whatever was loaded with it
+ */
+export type LocalWord = { id: number } & Record<string, unknown>
+
+/**
+ * Tables whose rows are queued as they are, without merging
+ */
+export type RecordTable = 'quiz_sessions' | 'quiz_answers' | 'review_schedule'
+
+export type RecordWrite =
+  | { write: 'insert'; row: Record<string, unknown> }
+  | { write: 'update'; row: Record<string, unknown>; match: Record<string, unknown> }
+  | { write: 'upsert'; row: Record<string, unknown>; onConflict: string }
+
+export type Mutation =
+  // id is a temporary, negative id until the word is inserted
+  | { kind: 'add'; id: number; fields: WordFields; changedAt: string }
+  // base holds each changed field's value before the change, to tell which side changed it
+  | { kind: 'update'; id: number; fields: WordFields; base: WordFields; changedAt: string }
+  | { kind: 'delete'; id: number; changedAt: string }
+  // id is the word the row is about (its vocab_id), 0 for a row about no word
+  | ({ kind: 'record'; id: number; table: RecordTable; changedAt: string } & RecordWrite)
+
+export type QueuedMutation = Mutation & {
+  seq: number      // Order in the queue
+  attempts: number // Failed attempts to send it
+}
+
+export interface FieldConflict {
+  field: SyncedField
+  local: unknown      // Value changed offline
+  server: unknown     // Value changed elsewhere in the meantime
+  localNewer: boolean // The offline change is later than the server's last update
+}
+
+let lastLocalId = 0
+
+/**
+ * Temporary id for a word added offline; negative, so it never matches a saved word
+ * Ids grow more negative over time, and differ for words added in the same millisecond:
+ * in one page they count down, and the random part keeps two tabs apart.
+ */
+export function localWordId(now: number = Date.now()): number {
+  lastLocalId = Math.min(-(now * 1000 + Math.floor(Math.random() * 1000)), lastLocalId - 1)
+  return lastLocalId
+}
+
+export function isLocalId(id: number): boolean {
+  return id < 0
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Adds a change to the queue, folding it into earlier changes of the same word
+ * Edits of a word added offline go into its insert, repeated edits keep the value each
+ * field had before the first one, and deleting a word drops its queued changes (all of
+ * them if it was never saved).
+ */
+export function enqueue(queue: QueuedMutation[], mutation: Mutation): QueuedMutation[] {
+  const seq = queue.reduce((max, m) => Math.max(max, m.seq), 0) + 1
+  const pendingAdd = queue.find(m => m.kind === 'add' && m.id === mutation.id)
+
+  if (mutation.kind === 'delete') {
+    const rest = queue.filter(m => m.id !== mutation.id)
+    return pendingAdd ? rest : [...rest, { ...mutation, seq, attempts: 0 }]
+  }
+
+  if (mutation.kind === 'update') {
+    if (pendingAdd) {
+      return queue.map(m => m === pendingAdd && m.kind === 'add'
+        ? { ...m, fields: { ...m.fields, ...mutation.fields }, changedAt: mutation.changedAt }
+        : m)
+    }
+    const pendingUpdate = queue.find(m => m.kind === 'update' && m.id === mutation.id)
+    if (pendingUpdate?.kind === 'update') {
+      return queue.map(m => m === pendingUpdate
+        ? {
+            ...pendingUpdate,
+            fields: { ...pendingUpdate.fields, ...mutation.fields },
+            base: { ...mutation.base, ...pendingUpdate.base },
+            changedAt: mutation.changedAt,
+          }
+        : m)
+    }
+  }
+
+  return [...queue, { ...mutation, seq, attempts: 0 }]
+}
+
+/**
+ * Applies a queued change to a list of words, newest first
+ */
+export function applyMutation<T extends LocalWord>(words: T[], mutation: Mutation): T[] {
+  switch (mutation.kind) {
+    case 'record':
+      return words
+    case 'add':
+      return [{ ...mutation.fields, id: mutation.id } as unknown as T, ...words]
+    case 'update':
+      return words.map(w => w.id === mutation.id ? { ...w, ...mutation.fields } : w)
+    case 'delete':
+      return words.filter(w => w.id !== mutation.id)
+  }
+}
+
+/**
+ * Points queued changes of a word added offline at the id Supabase gave it
+ */
+export function remapId(queue: QueuedMutation[], from: number, to: number): QueuedMutation[] {
+  return queue.map(m => {
+    if (m.id !== from) return m
+    return m.kind === 'record' ? { ...m, id: to, row: { ...m.row, vocab_id: to } } : { ...m, id: to }
+  })
+}
+
+/**
+ * Three-way merge of an offline edit with the word as it is on the server now
+ * A field only changed offline is written; a field the server changed too, to a different
+ * value, is a conflict for the caller to settle.
+ * @param server - Current server row, including its updated_at
+ * @returns Fields to write as they are, and the conflicts
+ */
+export function mergeFields(
+  update: Extract<Mutation, { kind: 'update' }>,
+  server: Record<string, unknown>
+): { fields: WordFields; conflicts: FieldConflict[] } {
+  const fields: WordFields = {}
+  const conflicts: FieldConflict[] = []
+  const serverUpdatedAt = typeof server.updated_at === 'string' ? Date.parse(server.updated_at) : NaN
+
+  for (const field of SYNCED_FIELDS) {
+    if (!(field in update.fields)) continue
+    const local = update.fields[field]
+    // Saved with the form but not changed, or already the same on the server
+    if (sameValue(local, update.base[field]) || sameValue(local, server[field])) continue
+
+    if (sameValue(update.base[field], server[field])) {
+      fields[field] = local
+    } else {
+      conflicts.push({
+        field,
+        local,
+        server: server[field],
+        // Without a server timestamp the offline change is taken as the latest
+        localNewer: Number.isNaN(serverUpdatedAt) || Date.parse(update.changedAt) >= serverUpdatedAt,
+      })
+    }
+  }
+
+  return { fields, conflicts }
+}
@@ -0,0 +1,22 @@
+import { supabase } from '@/lib/supabase'
+import { queueChange } from './local-store'
+import { isLocalId, type RecordTable, type RecordWrite } from './mutations'
+import { isConnectionError, writeRecord } from './sync'
+
+/**
+ * Saves a quiz or review row, or queues it with the library's changes when offline
+ * Rows about a word added offline always wait in the queue, until the word has its real id.
+ * @param vocabId - The word the row is about, 0 for none
+ */
+export async function saveRecord(table: RecordTable, record: RecordWrite, vocabId: number = 0): Promise<void> {
+  if (!isLocalId(vocabId) && navigator.onLine) {
+    const { error } = await writeRecord(supabase, table, record)
+    if (!error) return
+    if (!isConnectionError(error)) throw new Error(error.message)
+  }
+
+  const { data } = await supabase.auth.getSession()
+  const userId = data.session?.user.id
+  if (!userId) throw new Error('Sign in to save offline')
+  await queueChange(userId, { kind: 'record', id: vocabId, table, changedAt: new Date().toISOString(), ...record })
+}
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  mergeFields,
+  remapId,
+  type FieldConflict,
+  type Mutation,
+  type QueuedMutation,
+  type RecordTable,
+  type RecordWrite,
+  type WordFields,
+} from './mutations'
+import { readQueue, writeQueue } from './local-store'
+
+/**
+ * Sync engine: sends the changes queued offline to Supabase, oldest first
+ * Edits are merged field by field with the word as it is now. Fields nobody else touched
+ * are written; a field that also changed elsewhere goes to the last writer, or to whichever
+ * side the learner picks when they chose to be asked. Quiz and review rows are written as
+ * they were saved.
+ */
+
+const MAX_ATTEMPTS = 5 // A change the server keeps refusing is dropped after this many syncs
+
+export type ConflictChoice = 'local' | 'server'
+
+/**
+ * Settles a field changed both offline and elsewhere
+ * @param word - The word, for prompts
+ */
+export type ConflictResolver = (word: string, conflict: FieldConflict) => ConflictChoice | Promise<ConflictChoice>
+
+export interface SyncResult {
+  pushed: number    // Changes saved
+  conflicts: number // Fields that had changed on both sides
+  dropped: string[] // Why changes that could not be saved were given up on
+  remaining: number // Changes still queued, because the connection dropped again
+}
+
+/**
+ * Keeps the later of the two changes
+ */
+export const lastWriterWins: ConflictResolver = (_, conflict) => conflict.localNewer ? 'local' : 'server'
+
+interface PushOutcome {
+  savedId?: number  // Id of a word added offline
+  conflicts: number
+  dropped?: string
+}
+
+/**
+ * Whether a failed write failed for want of a connection (an Error or a Supabase error)
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  const message = (error as { message?: unknown } | null)?.message
+  return typeof message === 'string' && /fetch|network|load failed/i.test(message)
+}
+
+async function pushAdd(db: SupabaseClient, userId: string, mutation: Extract<Mutation, { kind: 'add' }>): Promise<PushOutcome> {
+  const { data, error } = await db
+    .from('vocab_library')
+    .insert({ ...mutation.fields, user_id: userId })
+    .select('id')
+    .single()
+
+  // Added on another device in the meantime: later changes go to that word
+  if (error?.code === '23505') {
+    const { data: existing, error: findError } = await db
+      .from('vocab_library')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('word', mutation.fields.word)
+      .maybeSingle()
+    if (findError) throw new Error(findError.message)
+    if (existing) return { savedId: existing.id, conflicts: 0 }
+  }
+  if (error || !data) throw new Error(error?.message || 'Failed to add word')
+
+  return { savedId: data.id, conflicts: 0 }
+}
+
+async function pushUpdate(
+  db: SupabaseClient,
+  mutation: Extract<Mutation, { kind: 'update' }>,
+  resolve: ConflictResolver
+): Promise<PushOutcome> {
+  const { data: server, error } = await db
+    .from('vocab_library')
+    .select('*')
+    .eq('id', mutation.id)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  const word = String(mutation.fields.word ?? mutation.base.word ?? server?.word ?? '')
+  if (!server) {
+    return { conflicts: 0, dropped: `"${word}" was deleted on another device, so its offline changes were not saved` }
+  }
+
+  const { fields, conflicts } = mergeFields(mutation, server)
+  const merged: WordFields = { ...fields }
+  for (const conflict of conflicts) {
+    if (await resolve(word, conflict) === 'local') merged[conflict.field] = conflict.local
+  }
+
+  if (Object.keys(merged).length > 0) {
+    const { error: updateError } = await db
+      .from('vocab_library')
+      .update(merged)
+      .eq('id', mutation.id)
+    if (updateError) throw new Error(updateError.message)
+  }
+
+  return { conflicts: conflicts.length }
+}
+
+async function pushDelete(db: SupabaseClient, mutation: Extract<Mutation, { kind: 'delete' }>): Promise<PushOutcome> {
+  const { error } = await db
+    .from('vocab_library')
+    .delete()
+    .eq('id', mutation.id)
+  if (error) throw new Error(error.message)
+  return { conflicts: 0 }
+}
+
+/**
+ * Writes a quiz or review row
+ */
+export async function writeRecord(db: SupabaseClient, table: RecordTable, record: RecordWrite): Promise<{ error: { code?: string; message: string } | null }> {
+  const query = db.from(table)
+  switch (record.write) {
+    case 'insert':
+      return query.insert(record.row)
+    case 'update':
+      return query.update(record.row).match(record.match)
+    case 'upsert':
+      return query.upsert(record.row, { onConflict: record.onConflict })
+  }
+}
+
+async function pushRecord(db: SupabaseClient, mutation: Extract<Mutation, { kind: 'record' }>): Promise<PushOutcome> {
+  const { error } = await writeRecord(db, mutation.table, mutation)
+
+  // Already saved by an earlier sync that lost its connection before it could finish
+  if (error?.code === '23505') return { conflicts: 0 }
+  if (error) throw new Error(error.message)
+  return { conflicts: 0 }
+}
+
+function push(db: SupabaseClient, userId: string, mutation: QueuedMutation, resolve: ConflictResolver): Promise<PushOutcome> {
+  switch (mutation.kind) {
+    case 'record':
+      return pushRecord(db, mutation)
+    case 'add':
+      return pushAdd(db, userId, mutation)
+    case 'update':
+      return pushUpdate(db, mutation, resolve)
+    case 'delete':
+      return pushDelete(db, mutation)
+  }
+}
+
+const running = new Map<string, Promise<SyncResult>>()
+
+async function run(db: SupabaseClient, userId: string, resolve: ConflictResolver): Promise<SyncResult> {
+  const result: SyncResult = { pushed: 0, conflicts: 0, dropped: [], remaining: 0 }
+  let queue = await readQueue(userId)
+
+  while (queue.length > 0) {
+    const [next, ...rest] = queue
+    let outcome: PushOutcome
+    try {
+      outcome = await push(db, userId, next, resolve)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      // Offline again: keep the change and try on the next reconnect
+      if (isConnectionError(error)) break
+      if (next.attempts + 1 >= MAX_ATTEMPTS) {
+        console.error(`Offline change to word ${next.id} dropped:`, message)
+        result.dropped.push(message)
+        queue = rest
+      } else {
+        console.error(`Offline change to word ${next.id} failed:`, message)
+        queue = [{ ...next, attempts: next.attempts + 1 }, ...rest]
+        await writeQueue(userId, queue)
+        break
+      }
+      await writeQueue(userId, queue)
+      continue
+    }
+
+    queue = rest
+    const savedIds: [number, number][] = []
+    if (outcome.savedId !== undefined) {
+      queue = remapId(queue, next.id, outcome.savedId)
+      savedIds.push([next.id, outcome.savedId])
+    }
+    if (outcome.dropped) {
+      result.dropped.push(outcome.dropped)
+    } else {
+      result.pushed++
+    }
+    result.conflicts += outcome.conflicts
+    await writeQueue(userId, queue, savedIds)
+  }
+
+  result.remaining = queue.length
+  return result
+}
+
+/**
+ * Sends a user's queued changes; calls made while a sync is running share its result
+ * @param resolve - How to settle conflicting fields, the later change by default
+ */
+export function syncLibrary(db: SupabaseClient, userId: string, resolve: ConflictResolver = lastWriterWins): Promise<SyncResult> {
+  const current = running.get(userId)
+  if (current) return current
+
+  const sync = run(db, userId, resolve).finally(() => running.delete(userId))
+  running.set(userId, sync)
+  return sync
+}
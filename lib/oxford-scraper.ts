@@ -1,4 +1,6 @@
 import * as cheerio from 'cheerio'
+import type { DictionarySense } from '@/lib/definition-ranker'
+import { scraperFetch, SourceUnavailableError } from '@/lib/scraper-http'
 
 export interface OxfordData {
   word: string
@@ -7,13 +9,18 @@ export interface OxfordData {
   definition?: string
   examples?: string[]
   pronunciation?: string
+  senses?: DictionarySense[] // Every sense of the entry, the first one matching definition and examples
   found: boolean
 }
 
+// Senses kept per word; long entries like "set" list dozens
+const MAX_SENSES = 12
+
 /**
  * Scrapes vocabulary information from Oxford Learner's Dictionary
  * @param word - The word to look up
  * @returns Scraped data from Oxford Dictionary
+ * @throws SourceUnavailableError if Oxford could not be reached
  */
 export async function scrapeOxfordDictionary(word: string): Promise<OxfordData> {
   const result: OxfordData = {
@@ -25,17 +32,15 @@ export async function scrapeOxfordDictionary(word: string): Promise<OxfordData>
     // Oxford Learner's Dictionary URL
     const url = `https://www.oxfordlearnersdictionaries.com/definition/english/${encodeURIComponent(word.toLowerCase())}`
     
-    // Fetch the page with proper headers to avoid blocks
-    const response = await fetch(url, {
+    const response = await scraperFetch(url, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
         'Accept-Language': 'en-US,en;q=0.5',
       },
     })
 
     if (!response.ok) {
-      console.log(`Oxford Dictionary returned status ${response.status} for word: ${word}`)
+      console.log(`Oxford Dictionary has no page for word: ${word}`)
       return result
     }
 
@@ -77,24 +82,50 @@ export async function scrapeOxfordDictionary(word: string): Promise<OxfordData>
       }
     }
 
-    // Extract the first definition
-    const defElement = $('.def').first()
-    if (defElement.length > 0) {
-      result.definition = defElement.text().trim().replace(/:$/, '') // Remove trailing colon
-    }
+    // Extract every sense of the entry (Oxford has one page per part of speech).
+    // Senses of idioms listed at the bottom of the page are not senses of the word.
+    const senses: DictionarySense[] = []
+    entryContent.find('.sense').each((_, senseElem) => {
+      const senseBlock = $(senseElem)
+      if (senseBlock.closest('.idioms').length > 0) return
+
+      const definition = senseBlock.find('.def').first().text().trim().replace(/:$/, '') // Remove trailing colon
+      if (!definition) return
+
+      const sense: DictionarySense = { definition, partOfSpeech: result.partOfSpeech }
+
+      // Usage labels such as "(formal)" or "(British English, informal)"
+      const register = senseBlock.find('.labels, .use').first().text().trim().replace(/^\(|\)$/g, '')
+      if (register) {
+        sense.register = register
+      }
+
+      const cefrLevel = senseBlock.attr('cefr')
+      if (cefrLevel && /^[abc][12]$/i.test(cefrLevel)) {
+        sense.cefrLevel = cefrLevel.toUpperCase()
+      }
 
-    // Extract example sentences
-    const examples: string[] = []
-    $('.examples .x').each((i, elem) => {
-      if (i < 2) { // Limit to 2 examples
-        const exampleText = $(elem).text().trim()
-        if (exampleText) {
-          examples.push(exampleText)
+      // Extract example sentences
+      const examples: string[] = []
+      senseBlock.find('.examples .x').each((i, elem) => {
+        if (i < 2) { // Limit to 2 examples
+          const exampleText = $(elem).text().trim()
+          if (exampleText) {
+            examples.push(exampleText)
+          }
         }
+      })
+      if (examples.length > 0) {
+        sense.examples = examples
       }
+
+      senses.push(sense)
     })
-    if (examples.length > 0) {
-      result.examples = examples
+
+    if (senses.length > 0) {
+      result.definition = senses[0].definition
+      result.examples = senses[0].examples
+      result.senses = senses.slice(0, MAX_SENSES)
     }
 
     // Extract pronunciation (IPA) - both US and UK
@@ -104,6 +135,7 @@ export async function scrapeOxfordDictionary(word: string): Promise<OxfordData>
     }
 
   } catch (error) {
+    if (error instanceof SourceUnavailableError) throw error
     console.error('Error scraping Oxford Dictionary:', error)
   }
 
@@ -1,13 +1,35 @@
 // CommonJS module for PDF parsing
 const pdfParse = require('pdf-parse');
 
+// Same text layout as pdf-parse's default page renderer: items on one line are joined,
+// a change of line starts a new line
+function renderPage(pageData) {
+  return pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+    .then(textContent => {
+      let lastY, text = '';
+      for (const item of textContent.items) {
+        text += lastY == item.transform[5] || !lastY ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      return text;
+    });
+}
+
 async function parsePDF(buffer) {
   try {
-    const data = await pdfParse(buffer);
+    // Keep the text of every page, so words can be traced back to their page
+    const pageTexts = [];
+    const data = await pdfParse(buffer, {
+      pagerender: pageData => renderPage(pageData).then(text => {
+        pageTexts[pageData.pageIndex] = text;
+        return text;
+      })
+    });
     return {
       success: true,
       text: data.text,
       pages: data.numpages,
+      pageTexts: Array.from(pageTexts, text => text || ''),
       info: data.info
     };
   } catch (error) {
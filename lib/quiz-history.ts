@@ -0,0 +1,210 @@
+import { supabase } from './supabase'
+import { saveRecord } from './offline/records'
+import { CEFR_LEVELS, JLPT_LEVELS, normalizeLevel } from './llm/schema'
+
+/**
+ * Quiz session history: one row per session in quiz_sessions and one per answer in quiz_answers
+ */
+
+export type QuizSessionType = 'due' | 'practice' | 'mistakes'
+
+export interface QuizSessionRecord {
+  id: string
+  mode: string
+  session_type: QuizSessionType
+  started_at: string
+  ended_at: string | null
+  correct: number
+  total: number
+  max_streak: number
+  study_time_seconds: number
+}
+
+export interface QuizAnswerRecord {
+  vocab_id: number
+  mode: string
+  correct: boolean
+  latency_ms: number
+  answered_at: string
+  vocab_library: { word: string; cefr_level: string | null } | null
+}
+
+export interface QuizStats {
+  sessions: number
+  answers: number
+  accuracy: number // 0-100
+  studyTimeSeconds: number
+  accuracyByDay: { date: string; correct: number; total: number }[]
+  mostMissed: { vocabId: number; word: string; misses: number; attempts: number }[]
+  accuracyByCefr: { level: string; correct: number; total: number }[] // CEFR levels first, then JLPT
+}
+
+/**
+ * Creates a session row when a quiz starts
+ * The id is made here rather than by the database, so offline the session and its answers
+ * can be queued (see lib/offline/records.ts) without waiting for the row to be saved.
+ * @returns The session id, or null if it could not be saved (the quiz still works)
+ */
+export async function startQuizSession(userId: string, mode: string, sessionType: QuizSessionType): Promise<string | null> {
+  const id = crypto.randomUUID()
+  try {
+    await saveRecord('quiz_sessions', { write: 'insert', row: { id, user_id: userId, mode, session_type: sessionType } })
+    return id
+  } catch (error) {
+    console.error('Failed to save quiz session:', error)
+    return null
+  }
+}
+
+/**
+ * Stores one answer
+ */
+export async function recordQuizAnswer(
+  userId: string,
+  sessionId: string,
+  answer: { vocabId: number; mode: string; correct: boolean; latencyMs: number }
+): Promise<void> {
+  const row = {
+    user_id: userId,
+    session_id: sessionId,
+    vocab_id: answer.vocabId,
+    mode: answer.mode,
+    correct: answer.correct,
+    latency_ms: Math.round(answer.latencyMs),
+  }
+
+  await saveRecord('quiz_answers', { write: 'insert', row }, answer.vocabId).catch(error => {
+    console.error('Failed to save quiz answer:', error)
+  })
+}
+
+/**
+ * Stores the final score of a session
+ */
+export async function finishQuizSession(
+  sessionId: string,
+  result: { correct: number; total: number; maxStreak: number; studyTimeSeconds: number }
+): Promise<void> {
+  const row = {
+    ended_at: new Date().toISOString(),
+    correct: result.correct,
+    total: result.total,
+    max_streak: result.maxStreak,
+    study_time_seconds: result.studyTimeSeconds,
+  }
+
+  await saveRecord('quiz_sessions', { write: 'update', row, match: { id: sessionId } }).catch(error => {
+    console.error('Failed to save quiz result:', error)
+  })
+}
+
+// Order of levels in the statistics, easiest first within each scheme
+const LEVEL_ORDER: readonly string[] = [...CEFR_LEVELS, ...JLPT_LEVELS]
+
+function levelOrder(level: string): number {
+  const index = LEVEL_ORDER.indexOf(level)
+  return index === -1 ? LEVEL_ORDER.length : index
+}
+
+/**
+ * Computes dashboard statistics from raw history
+ * @param days - How many days accuracyByDay covers, ending today
+ */
+export function summarizeQuizHistory(
+  sessions: QuizSessionRecord[],
+  answers: QuizAnswerRecord[],
+  days: number = 30
+): QuizStats {
+  const correct = answers.filter(a => a.correct).length
+
+  // Accuracy per local day, including days without answers
+  const byDay = new Map<string, { correct: number; total: number }>()
+  const today = new Date()
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i)
+    byDay.set(day.toLocaleDateString('en-CA'), { correct: 0, total: 0 }) // en-CA formats as YYYY-MM-DD
+  }
+
+  const byWord = new Map<number, { word: string; misses: number; attempts: number }>()
+  const byCefr = new Map<string, { correct: number; total: number }>()
+
+  for (const answer of answers) {
+    const day = byDay.get(new Date(answer.answered_at).toLocaleDateString('en-CA'))
+    if (day) {
+      day.total++
+      if (answer.correct) day.correct++
+    }
+
+    const word = byWord.get(answer.vocab_id) || { word: answer.vocab_library?.word || `#${answer.vocab_id}`, misses: 0, attempts: 0 }
+    word.attempts++
+    if (!answer.correct) word.misses++
+    byWord.set(answer.vocab_id, word)
+
+    const level = normalizeLevel(answer.vocab_library?.cefr_level) || 'Unknown'
+    const cefr = byCefr.get(level) || { correct: 0, total: 0 }
+    cefr.total++
+    if (answer.correct) cefr.correct++
+    byCefr.set(level, cefr)
+  }
+
+  return {
+    sessions: sessions.length,
+    answers: answers.length,
+    accuracy: answers.length > 0 ? Math.round((correct / answers.length) * 100) : 0,
+    studyTimeSeconds: sessions.reduce((sum, s) => sum + (s.study_time_seconds || 0), 0),
+    accuracyByDay: [...byDay.entries()].map(([date, stats]) => ({ date, ...stats })),
+    mostMissed: [...byWord.entries()]
+      .map(([vocabId, stats]) => ({ vocabId, ...stats }))
+      .filter(w => w.misses > 0)
+      .sort((a, b) => b.misses - a.misses || b.misses / b.attempts - a.misses / a.attempts)
+      .slice(0, 10),
+    accuracyByCefr: [...byCefr.entries()]
+      .map(([level, stats]) => ({ level, ...stats }))
+      .sort((a, b) => levelOrder(a.level) - levelOrder(b.level)),
+  }
+}
+
+const PAGE_SIZE = 1000 // Supabase's default row limit per request
+
+/**
+ * Loads every row of a user's history table, one page at a time
+ */
+async function fetchAllRows<T>(table: string, columns: string, userId: string, orderBy: string): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('user_id', userId)
+      .order(orderBy, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`)
+    }
+    rows.push(...(data as unknown as T[]))
+    if (data.length < PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Loads a user's quiz history and computes dashboard statistics
+ */
+export async function getQuizStats(userId: string): Promise<QuizStats> {
+  const [sessions, answers] = await Promise.all([
+    fetchAllRows<QuizSessionRecord>(
+      'quiz_sessions',
+      'id, mode, session_type, started_at, ended_at, correct, total, max_streak, study_time_seconds',
+      userId,
+      'started_at'
+    ),
+    fetchAllRows<QuizAnswerRecord>(
+      'quiz_answers',
+      'vocab_id, mode, correct, latency_ms, answered_at, vocab_library(word, cefr_level)',
+      userId,
+      'answered_at'
+    ),
+  ])
+
+  return summarizeQuizHistory(sessions, answers)
+}
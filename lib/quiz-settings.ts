@@ -0,0 +1,42 @@
+import type { AppSettings, QuizMode } from '@/lib/settings-context'
+
+/**
+ * Quiz behavior taken from the app settings: the mode and length a study session starts
+ * with, and the time limit of timed quizzes
+ */
+
+const QUIZ_MODES: QuizMode[] = ['flashcard', 'multiple-choice', 'typing', 'meaning-test']
+
+// Range and step of the "Number of Words" slider
+export const MIN_QUESTIONS = 5
+export const MAX_QUESTIONS = 50
+const QUESTIONS_STEP = 5
+
+/**
+ * Mode and number of words a new study session starts with
+ * Settings saved by an older version can hold values the quiz no longer offers; those fall
+ * back to flashcards and to the nearest number the slider can show.
+ */
+export function initialQuizOptions(settings: Pick<AppSettings, 'defaultQuizMode' | 'questionsPerSession'>): { mode: QuizMode; count: number } {
+  const mode = QUIZ_MODES.includes(settings.defaultQuizMode) ? settings.defaultQuizMode : 'flashcard'
+  const requested = Number.isFinite(settings.questionsPerSession) ? settings.questionsPerSession : 10
+  const count = Math.min(MAX_QUESTIONS, Math.max(MIN_QUESTIONS, Math.round(requested / QUESTIONS_STEP) * QUESTIONS_STEP))
+  return { mode, count }
+}
+
+/**
+ * When a session started now has to end
+ * @param startedAt - Start of the session, in ms since the epoch
+ * @returns The deadline in ms since the epoch, or null if quizzes are not timed
+ */
+export function quizDeadline(settings: Pick<AppSettings, 'enableTimedQuiz' | 'quizTimeLimitMinutes'>, startedAt: number): number | null {
+  if (!settings.enableTimedQuiz || !(settings.quizTimeLimitMinutes > 0)) return null
+  return startedAt + settings.quizTimeLimitMinutes * 60 * 1000
+}
+
+/**
+ * Whole seconds left until the deadline, never negative
+ */
+export function secondsLeft(deadline: number, now: number): number {
+  return Math.max(0, Math.ceil((deadline - now) / 1000))
+}
@@ -0,0 +1,84 @@
+/**
+ * Rate limiting algorithms, as pure functions over the state kept for one key
+ * The memory store calls these directly; the Redis store runs the same steps in Lua
+ * (see store.ts), so both backends count alike.
+ */
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket'
+
+/**
+ * How often a caller may use a route
+ *   - 'sliding-window': at most `limit` requests in any `windowMs` span
+ *   - 'token-bucket': bursts of up to `limit` requests, refilled at `limit` per `windowMs`
+ */
+export interface RateLimitPolicy {
+  name: string // Keeps each route's count separate
+  algorithm: RateLimitAlgorithm
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetTime: number // When another request becomes available (ms timestamp)
+}
+
+/**
+ * Sliding window log: the times of the requests made within the last window
+ * @param log - Request times from earlier calls, oldest first
+ */
+export function slidingWindow(
+  log: number[],
+  policy: RateLimitPolicy,
+  now: number
+): { log: number[]; result: RateLimitResult } {
+  const recent = log.filter(time => time > now - policy.windowMs)
+  const allowed = recent.length < policy.limit
+  if (allowed) recent.push(now)
+
+  return {
+    log: recent,
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: policy.limit - recent.length,
+      // The oldest request leaving the window frees a slot
+      resetTime: recent[0] + policy.windowMs,
+    },
+  }
+}
+
+export interface TokenBucket {
+  tokens: number    // Fractional: tokens refill continuously
+  updatedAt: number
+}
+
+/**
+ * Token bucket: starts full, each request takes a token
+ * @param bucket - State from the last call, undefined for a new (full) bucket
+ */
+export function tokenBucket(
+  bucket: TokenBucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const msPerToken = policy.windowMs / policy.limit
+  let tokens = bucket
+    ? Math.min(policy.limit, bucket.tokens + Math.max(0, now - bucket.updatedAt) / msPerToken)
+    : policy.limit
+  const allowed = tokens >= 1
+  if (allowed) tokens -= 1
+
+  const remaining = Math.floor(tokens)
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining,
+      resetTime: tokens >= policy.limit ? now : now + Math.ceil((remaining + 1 - tokens) * msPerToken),
+    },
+  }
+}
@@ -0,0 +1,36 @@
+import Redis from 'ioredis'
+
+/**
+ * Redis connection of the rate limiter (ioredis)
+ * URLs: redis://[:password@]host[:port][/db], or rediss:// for TLS.
+ */
+
+export type RedisClient = Redis
+
+/**
+ * Creates a client that connects on its first command
+ * A dropped connection is reopened with a growing delay (up to 5 seconds apart). While
+ * Redis is down, commands fail after one reconnect attempt or timeoutMs, whichever comes
+ * first, instead of waiting for it to come back, so requests are not held up.
+ */
+export function createRedisClient(url: string, { timeoutMs = 2000 } = {}): RedisClient {
+  const client = new Redis(url, {
+    lazyConnect: true,
+    connectTimeout: timeoutMs,
+    commandTimeout: timeoutMs,
+    maxRetriesPerRequest: 1,
+    retryStrategy: attempt => Math.min(attempt * 200, 5000),
+  })
+
+  // Logged once per outage; every failed command is logged by the rate limiter as well
+  let reported = false
+  client.on('error', (error: Error) => {
+    if (!reported) console.error('Redis connection error:', error.message)
+    reported = true
+  })
+  client.on('ready', () => {
+    reported = false
+  })
+
+  return client
+}
@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto'
+import { slidingWindow, tokenBucket, type RateLimitPolicy, type RateLimitResult, type TokenBucket } from './algorithms'
+import { createRedisClient, type RedisClient } from './redis'
+
+/**
+ * Where rate limit counts are kept
+ *
+ * Backend is chosen with RATE_LIMIT_BACKEND:
+ *   - 'memory' (default): in this server process; with several servers each counts on its own
+ *   - 'redis': shared by every server, at REDIS_URL (default redis://localhost:6379)
+ */
+
+export interface RateLimitStore {
+  /**
+   * Counts a request against the policy, if the policy allows it
+   * @param key - Caller and route, e.g. 'ratelimit:grade:sliding-window:user:<id>'
+   */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>
+}
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * In-process store, for development and single-server deployments
+ * @param clock - Current time in ms, replaceable for tests
+ */
+export function createMemoryStore(clock: () => number = Date.now): RateLimitStore {
+  const logs = new Map<string, { log: number[]; expiresAt: number }>()
+  const buckets = new Map<string, { bucket: TokenBucket; expiresAt: number }>()
+  let nextSweep = 0
+
+  // Forgets callers that have been quiet for a whole window
+  const sweep = (now: number) => {
+    if (now < nextSweep) return
+    nextSweep = now + SWEEP_INTERVAL_MS
+    for (const entries of [logs, buckets]) {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(key)
+      }
+    }
+  }
+
+  return {
+    async consume(key, policy) {
+      const now = clock()
+      sweep(now)
+
+      if (policy.algorithm === 'token-bucket') {
+        const { bucket, result } = tokenBucket(buckets.get(key)?.bucket, policy, now)
+        buckets.set(key, { bucket, expiresAt: now + policy.windowMs })
+        return result
+      }
+
+      const { log, result } = slidingWindow(logs.get(key)?.log ?? [], policy, now)
+      logs.set(key, { log, expiresAt: now + policy.windowMs })
+      return result
+    },
+  }
+}
+
+// The scripts follow algorithms.ts step by step. They take the time from Redis, so servers
+// with drifting clocks still count alike (writes after TIME need Redis 5 or later).
+
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, limit - count, tonumber(oldest[2]) + window}
+`
+
+const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit, window = tonumber(ARGV[1]), tonumber(ARGV[2])
+local msPerToken = window / limit
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = limit
+if state[1] then
+  tokens = math.min(limit, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) / msPerToken)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], window)
+local remaining = math.floor(tokens)
+local reset = now
+if tokens < limit then
+  reset = now + math.ceil((remaining + 1 - tokens) * msPerToken)
+end
+return {allowed, remaining, reset}
+`
+
+/**
+ * Redis store, shared by every server instance
+ * Each check is one script run, so concurrent requests cannot both take the last slot.
+ */
+export function createRedisStore(client: RedisClient): RateLimitStore {
+  return {
+    async consume(key, policy) {
+      const reply = policy.algorithm === 'token-bucket'
+        ? await client.eval(TOKEN_BUCKET_SCRIPT, 1, key, policy.limit, policy.windowMs)
+        : await client.eval(SLIDING_WINDOW_SCRIPT, 1, key, policy.limit, policy.windowMs, randomUUID())
+
+      const [allowed, remaining, resetTime] = reply as number[]
+      return { allowed: allowed === 1, limit: policy.limit, remaining, resetTime }
+    },
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null
+
+/**
+ * Gets the configured store (created on first use)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (rateLimitStore) return rateLimitStore
+
+  if (process.env.RATE_LIMIT_BACKEND === 'redis') {
+    rateLimitStore = createRedisStore(createRedisClient(process.env.REDIS_URL || 'redis://localhost:6379'))
+  } else {
+    rateLimitStore = createMemoryStore()
+  }
+
+  return rateLimitStore
+}
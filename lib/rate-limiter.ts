@@ -1,75 +1,68 @@
-// Simple in-memory rate limiter
-// For production with multiple servers, consider using Redis or Vercel KV
+import { NextResponse } from 'next/server'
+import type { RequestAuth } from './supabase-server'
+import type { RateLimitPolicy, RateLimitResult } from './rate-limit/algorithms'
+import { getRateLimitStore } from './rate-limit/store'
 
-interface RateLimitEntry {
-  count: number
-  resetTime: number
-}
+/**
+ * Rate limiting for API routes
+ * Each route declares its own RateLimitPolicy. Requests are counted per signed-in user
+ * (per IP for requests without one), in the store chosen with RATE_LIMIT_BACKEND.
+ */
 
-const rateLimitMap = new Map<string, RateLimitEntry>()
+export type { RateLimitPolicy, RateLimitResult } from './rate-limit/algorithms'
 
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, value] of rateLimitMap.entries()) {
-    if (now > value.resetTime) {
-      rateLimitMap.delete(key)
-    }
-  }
-}, 5 * 60 * 1000)
+export function getClientIdentifier(request: Request): string {
+  // Try to get IP from various headers (Vercel sets x-forwarded-for)
+  const forwarded = request.headers.get('x-forwarded-for')
+  const realIp = request.headers.get('x-real-ip')
+  const ip = forwarded?.split(',')[0] || realIp || 'unknown'
 
-export interface RateLimitConfig {
-  maxRequests: number  // Maximum requests allowed
-  windowMs: number     // Time window in milliseconds
+  return ip
 }
 
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig = { maxRequests: 30, windowMs: 60000 } // Default: 30 req/min
-): { allowed: boolean; limit: number; remaining: number; resetTime: number } {
-  const now = Date.now()
-  const entry = rateLimitMap.get(identifier)
-
-  if (!entry || now > entry.resetTime) {
-    // New or expired entry - create new window
-    const resetTime = now + config.windowMs
-    rateLimitMap.set(identifier, { count: 1, resetTime })
-    
-    return {
-      allowed: true,
-      limit: config.maxRequests,
-      remaining: config.maxRequests - 1,
-      resetTime
-    }
-  }
-
-  // Existing entry within window
-  if (entry.count >= config.maxRequests) {
-    return {
-      allowed: false,
-      limit: config.maxRequests,
-      remaining: 0,
-      resetTime: entry.resetTime
-    }
-  }
-
-  // Increment count
-  entry.count++
-  rateLimitMap.set(identifier, entry)
+/**
+ * Who a request counts against: the user, so a shared IP (an office, a school) does not
+ * share one limit, and a user cannot get more by switching networks
+ */
+export function rateLimitSubject(request: Request, auth?: RequestAuth | null): string {
+  return auth ? `user:${auth.user.id}` : `ip:${getClientIdentifier(request)}`
+}
 
-  return {
-    allowed: true,
-    limit: config.maxRequests,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime
+/**
+ * Counts a request against a route's policy
+ * When the store cannot be reached the request is let through: an unavailable Redis
+ * should not take every route down with it.
+ */
+export async function checkRateLimit(
+  request: Request,
+  auth: RequestAuth | null,
+  policy: RateLimitPolicy
+): Promise<RateLimitResult> {
+  const key = `ratelimit:${policy.name}:${policy.algorithm}:${rateLimitSubject(request, auth)}`
+  try {
+    return await getRateLimitStore().consume(key, policy)
+  } catch (error) {
+    console.error('Rate limit store error:', error instanceof Error ? error.message : error)
+    return { allowed: true, limit: policy.limit, remaining: policy.limit, resetTime: Date.now() }
   }
 }
 
-export function getClientIdentifier(request: Request): string {
-  // Try to get IP from various headers (Vercel sets x-forwarded-for)
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIp = request.headers.get('x-real-ip')
-  const ip = forwarded?.split(',')[0] || realIp || 'unknown'
-  
-  return ip
+/**
+ * Builds the 429 response for a request over its limit
+ * @param message - What was limited, e.g. 'Rate limit exceeded for batch requests.'
+ */
+export function rateLimitResponse(rateLimit: RateLimitResult, message = 'Rate limit exceeded.'): NextResponse {
+  const resetIn = Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000))
+  return NextResponse.json(
+    { error: `${message} Try again in ${resetIn} seconds.` },
+    {
+      status: 429,
+      headers: {
+        'X-RateLimit-Limit': rateLimit.limit.toString(),
+        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+        'X-RateLimit-Reset': new Date(rateLimit.resetTime).toISOString(),
+        'Retry-After': resetIn.toString()
+      }
+    }
+  )
 }
@@ -0,0 +1,197 @@
+/**
+ * HTTP client for the dictionary scrapers
+ *
+ * Every scraper request goes through scraperFetch, which keeps each host's load polite:
+ *   - at most SCRAPER_HOST_CONCURRENCY requests in flight per host (default 2), started at
+ *     least SCRAPER_HOST_INTERVAL_MS apart (default 400)
+ *   - network errors, timeouts (SCRAPER_TIMEOUT_MS, default 5000), 429 and 5xx responses are
+ *     retried with exponential backoff, honoring Retry-After (SCRAPER_MAX_RETRIES, default 2)
+ *   - a host that fails SCRAPER_BREAKER_THRESHOLD requests in a row (default 5) is not asked
+ *     again for SCRAPER_BREAKER_COOLDOWN_MS (default 60000), then one trial request decides
+ *     whether it is back
+ *
+ * A 404 or 410 comes back as a response, for the scraper to report "not found". Anything
+ * else that is not a success throws a SourceUnavailableError: the source may well have the
+ * word, it just could not be asked.
+ */
+
+/**
+ * A dictionary source that could not be reached, refused the request or is cooling down
+ * status is the HTTP status of the last attempt, if the host answered at all
+ */
+export class SourceUnavailableError extends Error {
+  constructor(message: string, readonly host: string, readonly status?: number) {
+    super(message)
+    this.name = 'SourceUnavailableError'
+  }
+}
+
+const HOST_CONCURRENCY = Math.max(1, Number(process.env.SCRAPER_HOST_CONCURRENCY) || 2)
+const HOST_INTERVAL_MS = Math.max(0, Number(process.env.SCRAPER_HOST_INTERVAL_MS ?? 400) || 0)
+const DEFAULT_TIMEOUT_MS = Number(process.env.SCRAPER_TIMEOUT_MS) || 5000
+const DEFAULT_RETRIES = Math.max(0, Number(process.env.SCRAPER_MAX_RETRIES ?? 2) || 0)
+const BREAKER_THRESHOLD = Math.max(1, Number(process.env.SCRAPER_BREAKER_THRESHOLD) || 5)
+const BREAKER_COOLDOWN_MS = Number(process.env.SCRAPER_BREAKER_COOLDOWN_MS) || 60000
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 8000 // A longer Retry-After gives up on the request and pauses the host instead
+
+// Identifies the app to the sites it reads, instead of passing for a browser
+const USER_AGENT = process.env.SCRAPER_USER_AGENT || 'Verba/0.1 (vocabulary study app)'
+
+export interface ScraperFetchOptions {
+  headers?: Record<string, string>
+  timeoutMs?: number // Per attempt
+  retries?: number   // Extra attempts after a network error, timeout, 429 or 5xx
+}
+
+interface HostState {
+  active: number            // Requests in flight
+  waiting: (() => void)[]   // Requests queued for a free slot
+  nextStart: number         // Earliest time the next request may start
+  failures: number          // Failed requests in a row
+  openUntil: number         // Circuit open (no requests) until then
+  probing: boolean          // A trial request after the cooldown is in flight
+}
+
+const hosts = new Map<string, HostState>()
+
+function hostState(host: string): HostState {
+  let state = hosts.get(host)
+  if (!state) {
+    state = { active: 0, waiting: [], nextStart: 0, failures: 0, openUntil: 0, probing: false }
+    hosts.set(host, state)
+  }
+  return state
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Waits for a free slot on the host and for its turn to start
+ */
+async function acquire(state: HostState): Promise<void> {
+  if (state.active < HOST_CONCURRENCY) {
+    state.active++
+  } else {
+    // release() hands its slot over
+    await new Promise<void>(resolve => state.waiting.push(resolve))
+  }
+
+  const now = Date.now()
+  const start = Math.max(now, state.nextStart)
+  state.nextStart = start + HOST_INTERVAL_MS
+  if (start > now) await sleep(start - now)
+}
+
+function release(state: HostState): void {
+  const next = state.waiting.shift()
+  if (next) next()
+  else state.active--
+}
+
+/**
+ * Milliseconds a Retry-After header (seconds or HTTP date) asks to wait, if any
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  const ms = Number.isNaN(seconds) ? new Date(value).getTime() - Date.now() : seconds * 1000
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms)
+}
+
+function backoff(attempt: number): number {
+  const delay = BASE_DELAY_MS * 2 ** attempt
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_DELAY_MS)
+}
+
+function recordSuccess(state: HostState): void {
+  state.failures = 0
+  state.openUntil = 0
+}
+
+/**
+ * Counts a failed request; opens the circuit once the host has failed too often, or for
+ * as long as it asked when that is longer
+ */
+function recordFailure(host: string, state: HostState, retryAfterMs?: number): void {
+  state.failures++
+  const pause = Math.max(state.failures >= BREAKER_THRESHOLD ? BREAKER_COOLDOWN_MS : 0, retryAfterMs ?? 0)
+  if (pause > 0) {
+    state.openUntil = Date.now() + pause
+    console.log(`🔌 ${host} paused for ${Math.ceil(pause / 1000)}s after ${state.failures} failed request(s)`)
+  }
+}
+
+/**
+ * Fetches a page or API response for a scraper
+ * @returns The response, when it succeeded or the host has no such page (404, 410)
+ * @throws SourceUnavailableError if the host could not be asked
+ */
+export async function scraperFetch(url: string, options: ScraperFetchOptions = {}): Promise<Response> {
+  const host = new URL(url).host
+  const state = hostState(host)
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  // Circuit open: fail fast until the cooldown is over, then let one trial request through
+  const probe = state.openUntil > 0
+  if (probe && (Date.now() < state.openUntil || state.probing)) {
+    throw new SourceUnavailableError(`${host} is unavailable, not retrying yet`, host)
+  }
+  if (probe) state.probing = true
+
+  let lastError = new SourceUnavailableError(`${host} could not be reached`, host)
+  try {
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      let response: Response | undefined
+      await acquire(state)
+      try {
+        response = await fetch(url, {
+          headers: { 'User-Agent': USER_AGENT, ...options.headers },
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+      } catch (error) {
+        const reason = error instanceof Error && error.name === 'TimeoutError'
+          ? `timed out after ${timeoutMs}ms`
+          : error instanceof Error ? error.message : 'network error'
+        console.log(`⚠️ ${host} request failed (attempt ${attempt + 1}/${retries + 1}): ${reason}`)
+        lastError = new SourceUnavailableError(`${host} could not be reached: ${reason}`, host)
+      } finally {
+        release(state)
+      }
+
+      if (!response) {
+        if (attempt < retries) await sleep(backoff(attempt))
+        continue
+      }
+
+      if (response.ok || response.status === 404 || response.status === 410) {
+        recordSuccess(state)
+        return response
+      }
+
+      // Drain the body so the connection can be reused
+      await response.body?.cancel().catch(() => {})
+      lastError = new SourceUnavailableError(`${host} returned HTTP ${response.status}`, host, response.status)
+      const retryable = response.status === 429 || response.status >= 500
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      console.log(`⚠️ ${host} returned HTTP ${response.status} (attempt ${attempt + 1}/${retries + 1})`)
+
+      if (!retryable) break
+      if (retryAfter !== undefined) {
+        // The host asked everyone to wait, not just this request
+        state.nextStart = Math.max(state.nextStart, Date.now() + retryAfter)
+        if (retryAfter > MAX_DELAY_MS) {
+          recordFailure(host, state, retryAfter)
+          throw lastError
+        }
+      }
+      if (attempt < retries) await sleep(retryAfter ?? backoff(attempt))
+    }
+
+    recordFailure(host, state)
+    throw lastError
+  } finally {
+    if (probe) state.probing = false
+  }
+}
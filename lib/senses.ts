@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DictionarySense } from '@/lib/definition-ranker'
+import { keywordSimilarity } from '@/lib/text-similarity'
+
+/**
+ * Senses of a word, stored in order in the vocab_senses table
+ * One sense per word is primary. vocab_library.meaning_primary keeps the meaning shown
+ * on the word card, so the word list, search and quizzes work without loading senses.
+ */
+
+export interface VocabSense {
+  id?: number // Missing until the sense is saved
+  definition: string
+  part_of_speech: string | null
+  register: string | null // Usage label, e.g. "formal"
+  examples: string[]
+  source: string | null   // Dictionary the sense comes from, null for senses written by the AI or the learner
+  is_primary: boolean
+}
+
+export type StoredSense = VocabSense & { id: number; vocab_id: number; position: number }
+
+// A dictionary sense this similar to the chosen meaning is taken to be the same sense
+const SAME_SENSE_SIMILARITY = 0.3
+
+/**
+ * Turns dictionary senses into a word's senses, marking the one that matches the chosen
+ * meaning as primary
+ * When no sense matches, e.g. because the AI replaced a "past tense of ..." definition,
+ * the chosen meaning becomes a sense of its own.
+ * @param senses - Merged dictionary senses, best first
+ * @param meaning - The word's meaning_primary
+ * @param partOfSpeech - The word's part_of_speech, used for a sense made from the meaning
+ */
+export function sensesFromDictionary(senses: DictionarySense[] | undefined, meaning: string, partOfSpeech?: string): VocabSense[] {
+  const result: VocabSense[] = (senses || []).map(sense => ({
+    definition: sense.definition,
+    part_of_speech: sense.partOfSpeech || null,
+    register: sense.register || null,
+    examples: sense.examples || [],
+    source: sense.source || null,
+    is_primary: false,
+  }))
+
+  if (!meaning.trim()) {
+    if (result.length > 0) result[0].is_primary = true
+    return result
+  }
+
+  const scores = result.map(sense => keywordSimilarity(sense.definition, meaning))
+  const best = scores.indexOf(Math.max(...scores))
+
+  if (best !== -1 && scores[best] >= SAME_SENSE_SIMILARITY) {
+    result[best].is_primary = true
+  } else {
+    result.unshift({
+      definition: meaning,
+      part_of_speech: partOfSpeech || null,
+      register: null,
+      examples: [],
+      source: null,
+      is_primary: true,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Reads the learner's maxDefinitions setting from a request
+ * @returns The number of senses to keep, or undefined to keep them all
+ */
+export function parseMaxDefinitions(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Keeps at most max senses, in order, always including the primary one
+ * @param max - The learner's maxDefinitions setting; undefined keeps every sense
+ */
+export function limitSenses(senses: VocabSense[], max: number | undefined): VocabSense[] {
+  if (max === undefined || senses.length <= max) return senses
+  const primary = senses.find(sense => sense.is_primary)
+  const others = senses.filter(sense => sense !== primary).slice(0, primary ? max - 1 : max)
+  return senses.filter(sense => sense === primary || others.includes(sense))
+}
+
+/**
+ * Puts a word's senses in the order the learner arranged them
+ */
+export function sortSenses(senses: StoredSense[] | undefined): StoredSense[] {
+  return [...(senses || [])].sort((a, b) => a.position - b.position)
+}
+
+/**
+ * Replaces the senses of a word, keeping their order
+ * @param db - Supabase client of the word's owner
+ * @returns The saved senses
+ * @throws Error if the senses could not be saved
+ */
+export async function saveSenses(db: SupabaseClient, vocabId: number, senses: VocabSense[]): Promise<StoredSense[]> {
+  const { error: deleteError } = await db
+    .from('vocab_senses')
+    .delete()
+    .eq('vocab_id', vocabId)
+
+  if (deleteError) {
+    throw new Error(`Failed to save senses: ${deleteError.message}`)
+  }
+
+  if (senses.length === 0) return []
+
+  const { data, error } = await db
+    .from('vocab_senses')
+    .insert(senses.map((sense, position) => ({
+      vocab_id: vocabId,
+      position,
+      definition: sense.definition,
+      part_of_speech: sense.part_of_speech,
+      register: sense.register,
+      examples: sense.examples,
+      source: sense.source,
+      is_primary: sense.is_primary,
+    })))
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to save senses: ${error.message}`)
+  }
+
+  return sortSenses(data as StoredSense[])
+}
@@ -1,10 +1,12 @@
 'use client'
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react'
+import { displayAttributes } from '@/lib/display-settings'
 
-export type DictionarySource = 'cambridge' | 'oxford' | 'google' | 'urban' | 'auto'
+export type DictionarySource = 'cambridge' | 'oxford' | 'jmdict' | 'google' | 'urban' | 'auto'
 export type QuizMode = 'flashcard' | 'multiple-choice' | 'typing' | 'meaning-test'
 export type FontSize = 'small' | 'medium' | 'large' | 'xlarge'
+export type SyncConflicts = 'latest' | 'ask' // How a word changed offline and elsewhere is settled
 
 export interface AppSettings {
   // Appearance
@@ -17,6 +19,7 @@ export interface AppSettings {
   maxDefinitions: number
   showExamples: boolean
   autoPlayPronunciation: boolean
+  nativeLanguage: string // Language code for bilingual glosses, '' for none
   
   // Quiz Settings
   defaultQuizMode: QuizMode
@@ -24,10 +27,12 @@ export interface AppSettings {
   showAnswersImmediately: boolean
   enableTimedQuiz: boolean
   quizTimeLimitMinutes: number
+  aiAnswerJudge: boolean // Ask the LLM to grade written meanings
   
   // Offline & Storage
   offlineMode: boolean
   autoDownload: boolean
+  syncConflicts: SyncConflicts
   
   // Notifications
   dailyReminders: boolean
@@ -54,6 +59,7 @@ const defaultSettings: AppSettings = {
   maxDefinitions: 3,
   showExamples: true,
   autoPlayPronunciation: false,
+  nativeLanguage: '',
   
   // Quiz
   defaultQuizMode: 'flashcard',
@@ -61,10 +67,12 @@ const defaultSettings: AppSettings = {
   showAnswersImmediately: true,
   enableTimedQuiz: false,
   quizTimeLimitMinutes: 5,
+  aiAnswerJudge: false,
   
   // Offline
   offlineMode: true,
   autoDownload: false,
+  syncConflicts: 'latest',
   
   // Notifications
   dailyReminders: false,
@@ -130,6 +138,13 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     }
   }, [settings, loaded])
 
+  // Apply font size, contrast and motion to the whole page
+  useEffect(() => {
+    for (const [name, value] of Object.entries(displayAttributes(settings))) {
+      document.documentElement.setAttribute(name, value)
+    }
+  }, [settings])
+
   const updateSettings = (updates: Partial<AppSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }))
   }
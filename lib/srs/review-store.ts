@@ -0,0 +1,65 @@
+import { supabase } from '@/lib/supabase'
+import { saveRecord } from '@/lib/offline/records'
+import type { ReviewState } from './scheduler'
+
+/**
+ * Persistence for spaced repetition state, one row per word in the review_schedule table
+ */
+
+type ReviewRow = {
+  vocab_id: number
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+  last_reviewed_at: string | null
+}
+
+function fromRow(row: ReviewRow): ReviewState {
+  return {
+    ease: row.ease,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+  }
+}
+
+/**
+ * Loads the review state of every word that has been reviewed
+ * @returns Map of word id to state (unreviewed words are missing)
+ */
+export async function getReviewStates(): Promise<Map<number, ReviewState>> {
+  const { data, error } = await supabase
+    .from('review_schedule')
+    .select('*')
+
+  if (error) {
+    throw new Error(`Failed to load review schedule: ${error.message}`)
+  }
+
+  return new Map((data as ReviewRow[] || []).map(row => [row.vocab_id, fromRow(row)]))
+}
+
+/**
+ * Saves the review state of a word, queued with the library's changes while offline
+ */
+export async function saveReviewState(vocabId: number, state: ReviewState): Promise<void> {
+  const row = {
+    vocab_id: vocabId,
+    ease: state.ease,
+    interval_days: state.intervalDays,
+    repetitions: state.repetitions,
+    lapses: state.lapses,
+    due_at: state.dueAt,
+    last_reviewed_at: state.lastReviewedAt,
+  }
+
+  try {
+    await saveRecord('review_schedule', { write: 'upsert', row, onConflict: 'vocab_id' }, vocabId)
+  } catch (error) {
+    throw new Error(`Failed to save review state: ${error instanceof Error ? error.message : error}`)
+  }
+}
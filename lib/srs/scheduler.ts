@@ -0,0 +1,128 @@
+/**
+ * SM-2 spaced repetition scheduler
+ * Pure functions: callers load and store ReviewState (see review-store.ts).
+ */
+
+export interface ReviewState {
+  ease: number           // Ease factor, 1.3 and up (SM-2 starts at 2.5)
+  intervalDays: number   // Days until the next review
+  repetitions: number    // Successful reviews in a row
+  lapses: number         // Times the word was forgotten after being learned
+  dueAt: string          // ISO date of the next review
+  lastReviewedAt: string | null
+}
+
+/**
+ * Answer quality on the SM-2 scale: 0-2 failed, 3 hard, 4 good, 5 easy
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ScheduleOptions {
+  /**
+   * Interval after the second successful review (SM-2 uses 6 days)
+   * Comes from the reviewIntervalDays setting
+   */
+  graduatingIntervalDays?: number
+  now?: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+
+/**
+ * State for a word that has never been reviewed: due right away
+ */
+export function newReviewState(now: Date = new Date()): ReviewState {
+  return {
+    ease: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now.toISOString(),
+    lastReviewedAt: null,
+  }
+}
+
+/**
+ * Maps a quiz answer to an SM-2 quality
+ * Typing the word from its meaning is active recall, so a correct answer counts as easy
+ */
+export function answerQuality(correct: boolean, mode: 'flashcard' | 'multiple-choice' | 'typing' | 'meaning-test'): ReviewQuality {
+  if (!correct) return mode === 'multiple-choice' ? 1 : 2
+  return mode === 'typing' ? 5 : 4
+}
+
+/**
+ * Computes the next state after a review
+ * @param state - Current state (newReviewState() for unseen words)
+ * @param quality - How well the word was remembered
+ */
+export function scheduleReview(state: ReviewState, quality: ReviewQuality, options: ScheduleOptions = {}): ReviewState {
+  const now = options.now ?? new Date()
+  const graduatingInterval = Math.max(1, options.graduatingIntervalDays ?? 6)
+
+  // Ease moves with every answer, by the SM-2 formula
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)))
+
+  let repetitions: number
+  let intervalDays: number
+  let lapses = state.lapses
+
+  if (quality < 3) {
+    // Forgotten: start over, review again tomorrow
+    if (state.repetitions > 0) lapses++
+    repetitions = 0
+    intervalDays = 1
+  } else {
+    repetitions = state.repetitions + 1
+    if (repetitions === 1) {
+      intervalDays = 1
+    } else if (repetitions === 2) {
+      intervalDays = graduatingInterval
+    } else {
+      intervalDays = Math.round(state.intervalDays * ease)
+    }
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Checks whether a word should be reviewed today (local time)
+ * Words without a state have never been reviewed and are always due
+ */
+export function isDueToday(state: ReviewState | undefined, now: Date = new Date()): boolean {
+  if (!state) return true
+  const endOfToday = new Date(now)
+  endOfToday.setHours(23, 59, 59, 999)
+  return new Date(state.dueAt).getTime() <= endOfToday.getTime()
+}
+
+/**
+ * Builds a "due today" deck
+ * Overdue words come first (most overdue first), then words never reviewed
+ * @param words - Candidate words
+ * @param states - Review state per word id
+ * @param limit - Maximum deck size
+ */
+export function buildDueDeck<T extends { id: number }>(
+  words: T[],
+  states: Map<number, ReviewState>,
+  limit: number,
+  now: Date = new Date()
+): T[] {
+  const reviews = words
+    .filter(w => states.has(w.id) && isDueToday(states.get(w.id), now))
+    .sort((a, b) => new Date(states.get(a.id)!.dueAt).getTime() - new Date(states.get(b.id)!.dueAt).getTime())
+  const unseen = words.filter(w => !states.has(w.id))
+
+  return [...reviews, ...unseen].slice(0, limit)
+}
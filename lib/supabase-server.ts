@@ -0,0 +1,65 @@
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+/**
+ * Supabase access for API routes
+ * Routes act as the signed-in user: the browser sends its access token (see lib/api-client.ts)
+ * and every query goes through a client carrying that token, so row level security
+ * only lets a route see and change the caller's own rows.
+ */
+
+export interface RequestAuth {
+  user: User
+  supabase: SupabaseClient // Client acting as `user`
+}
+
+/**
+ * Reads the access token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Creates a Supabase client whose requests run as the owner of the access token
+ */
+export function createUserClient(accessToken: string): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  )
+}
+
+/**
+ * Creates a Supabase client with the service role key, which bypasses row level security
+ * Only for server-side data no user owns (e.g. the dictionary cache); never send the key
+ * to the browser. Returns null when SUPABASE_SERVICE_ROLE_KEY is not set.
+ */
+export function createServiceClient(): SupabaseClient | null {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) return null
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+/**
+ * Validates the caller's access token with Supabase Auth
+ * @returns The user and a client acting as them, or null if the token is missing or invalid
+ */
+export async function authenticateRequest(request: NextRequest): Promise<RequestAuth | null> {
+  const token = getBearerToken(request)
+  if (!token) return null
+
+  const supabase = createUserClient(token)
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) return null
+
+  return { user: data.user, supabase }
+}
@@ -0,0 +1,82 @@
+/**
+ * Text comparison helpers shared by quiz grading and distractor selection
+ */
+
+// Words that say nothing about what a definition means
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'into', 'about',
+  'and', 'or', 'but', 'not', 'no', 'is', 'are', 'be', 'been', 'being', 'was', 'were', 'it', 'its',
+  'that', 'this', 'which', 'who', 'what', 'when', 'where', 'how', 'something', 'someone', 'somebody',
+  'thing', 'things', 'very', 'more', 'most', 'you', 'your', 'used', 'use', 'make', 'made',
+])
+
+/**
+ * Lowercases text and replaces punctuation with spaces
+ */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Removes accents, so "café" and "cafe" compare equal
+ */
+export function stripDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '')
+}
+
+// Crude stemming so "runs" and "running" count as the same word
+function stem(word: string): string {
+  return word.replace(/(ing|ed|es|s)$/, '')
+}
+
+/**
+ * The meaningful words of a text, without stop words
+ * @returns Stem -> the word as written (first occurrence)
+ */
+export function keywords(text: string): Map<string, string> {
+  const result = new Map<string, string>()
+  for (const word of normalizeText(text).split(' ')) {
+    if (word.length <= 2 || STOP_WORDS.has(word)) continue
+    const key = stem(word)
+    if (!result.has(key)) result.set(key, word)
+  }
+  return result
+}
+
+/**
+ * Jaccard similarity of the keywords of two texts
+ * @returns 0 (nothing in common) to 1 (same words)
+ */
+export function keywordSimilarity(a: string, b: string): number {
+  const wordsA = keywords(a)
+  const wordsB = keywords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  let shared = 0
+  for (const word of wordsA.keys()) {
+    if (wordsB.has(word)) shared++
+  }
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+/**
+ * Edit distance where insertions, deletions, substitutions and swapping two
+ * neighbouring letters each count as one typo
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array<number>(cols - 1).fill(0)])
+  for (let j = 0; j < cols; j++) d[0][j] = j
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[rows - 1][cols - 1]
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { TranslationBackend } from '../types'
+
+/**
+ * Glosses words from local bilingual word lists
+ * Files are named <word language>-<native language>.json, e.g. en-es.json, and map each
+ * word to its gloss: { "scrutiny": "escrutinio", ... }. They are read once per server
+ * instance from TRANSLATION_DICTIONARY_DIR (default data/glossaries).
+ */
+
+const glossaries = new Map<string, Promise<Map<string, string>>>()
+
+function loadGlossary(source: string, target: string): Promise<Map<string, string>> {
+  const name = `${source}-${target}`
+  let glossary = glossaries.get(name)
+  if (glossary) return glossary
+
+  glossary = (async () => {
+    const dir = process.env.TRANSLATION_DICTIONARY_DIR || path.join(process.cwd(), 'data', 'glossaries')
+    const file = path.join(dir, `${name}.json`)
+    try {
+      const data: Record<string, string> = JSON.parse(await fs.readFile(file, 'utf8'))
+      console.log(`📗 Glossary loaded: ${Object.keys(data).length} words from ${file}`)
+      return new Map(Object.entries(data).map(([word, gloss]) => [word.toLowerCase(), gloss]))
+    } catch (error) {
+      // A missing file just means there is no word list for this language pair
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`⚠️ Glossary not loaded from ${file}:`, error instanceof Error ? error.message : error)
+      }
+      return new Map<string, string>()
+    }
+  })()
+
+  glossaries.set(name, glossary)
+  return glossary
+}
+
+export const dictionaryBackend: TranslationBackend = {
+  id: 'dictionary',
+  name: 'Local word list',
+  async translate(items, target) {
+    return Promise.all(items.map(async item => {
+      const glossary = await loadGlossary(item.language, target)
+      return glossary.get(item.word.trim().toLowerCase()) ?? null
+    }))
+  },
+}
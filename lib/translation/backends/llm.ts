@@ -0,0 +1,76 @@
+import { completeJSON, LLMError } from '@/lib/llm/client'
+import { getLLMConfig } from '@/lib/llm/config'
+import { getLanguage } from '@/lib/languages/registry'
+import { getNativeLanguage } from '../languages'
+import type { TranslationBackend } from '../types'
+
+/**
+ * Glosses words with the configured LLM (see lib/llm/config.ts)
+ * The English meaning is sent along so the gloss translates the sense the learner saved.
+ */
+
+function systemPrompt(language: string): string {
+  return `You are writing a bilingual learner's dictionary. Translate the meaning of each word into ${language} as a short gloss.
+
+Return ONLY a valid JSON array with one object per word:
+[
+  { "index": 1, "gloss": "short translation in ${language}" },
+  ... (more words)
+]
+
+Rules:
+- Translate the meaning given for the word, not another sense of it
+- Use one to five words; separate alternatives with "; "
+- Write the gloss only in ${language}, in its usual script
+- Return ONLY the JSON array, no markdown code blocks or additional text
+- Process ALL words provided`
+}
+
+function validateGlosses(value: unknown): string[] {
+  if (!Array.isArray(value)) return ['Expected a JSON array']
+  if (value.some(item => !item || typeof item !== 'object' || typeof item.index !== 'number' || typeof item.gloss !== 'string')) {
+    return ['Every array item must be an object with an "index" number and a "gloss" string']
+  }
+  return []
+}
+
+export const llmBackend: TranslationBackend = {
+  id: 'llm',
+  name: 'AI',
+  async translate(items, target) {
+    const none = items.map(() => null)
+
+    const llm = getLLMConfig()
+    if ('error' in llm) {
+      console.error(`❌ AI glosses unavailable: ${llm.error}`)
+      return none
+    }
+
+    const language = getNativeLanguage(target)?.name || target
+    const userPrompt = items
+      .map((item, i) => `${i + 1}. ${item.word} (${getLanguage(item.language).name}): ${item.meaning}`)
+      .join('\n')
+
+    let response: { value: unknown; issues: string[] }
+    try {
+      response = await completeJSON(llm.config, [
+        { role: 'system', content: systemPrompt(language) },
+        { role: 'user', content: `Write ${language} glosses for these ${items.length} words:\n${userPrompt}` }
+      ], validateGlosses, { maxTokens: 2000 })
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error
+      console.error(`❌ AI glosses failed: ${error.message}`)
+      return none
+    }
+
+    if (response.issues.length > 0) return none
+
+    const glosses: (string | null)[] = [...none]
+    for (const { index, gloss } of response.value as { index: number; gloss: string }[]) {
+      if (index >= 1 && index <= items.length && gloss.trim()) {
+        glosses[index - 1] = gloss.trim()
+      }
+    }
+    return glosses
+  },
+}
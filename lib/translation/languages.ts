@@ -0,0 +1,41 @@
+/**
+ * Languages a learner can pick as their native language for bilingual glosses
+ * This is a wider list than lib/languages: glosses only need a translation, not
+ * tokenizers or dictionaries.
+ */
+
+export interface NativeLanguage {
+  code: string       // ISO 639-1
+  name: string       // English name, used in prompts
+  nativeName: string
+}
+
+export const NATIVE_LANGUAGES: readonly NativeLanguage[] = [
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'zh', name: 'Chinese (Simplified)', nativeName: '简体中文' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+]
+
+/**
+ * Gets a native language by code
+ * @returns The language, or undefined if the code is not supported
+ */
+export function getNativeLanguage(code: unknown): NativeLanguage | undefined {
+  return NATIVE_LANGUAGES.find(l => l.code === code)
+}
@@ -0,0 +1,57 @@
+import { dictionaryBackend } from './backends/dictionary'
+import { llmBackend } from './backends/llm'
+import type { GlossRequest, TranslationBackend, TranslationBackendId } from './types'
+
+/**
+ * Translation layer for bilingual glosses
+ *
+ * Backends are tried in the order given by TRANSLATION_BACKENDS (default "dictionary,llm");
+ * each one only gets the words the previous ones could not gloss.
+ */
+
+const BACKENDS: Record<TranslationBackendId, TranslationBackend> = {
+  dictionary: dictionaryBackend,
+  llm: llmBackend,
+}
+
+export interface GlossResult {
+  gloss: string | null
+  backend: string | null // Name of the backend that produced the gloss
+}
+
+/**
+ * Reads the configured backend order, skipping unknown ids
+ */
+export function resolveTranslationBackends(): TranslationBackend[] {
+  const ids = (process.env.TRANSLATION_BACKENDS || 'dictionary,llm').split(',').map(id => id.trim())
+  return ids.filter((id): id is TranslationBackendId => id in BACKENDS).map(id => BACKENDS[id])
+}
+
+/**
+ * Glosses a batch of words in the learner's native language
+ * Meanings are stored in English, so an English gloss is the meaning itself. Words already
+ * in the native language get no gloss.
+ * @param items - Words with their English meaning
+ * @param target - Native language code
+ * @returns One result per item, in the same order
+ */
+export async function translateGlosses(items: GlossRequest[], target: string): Promise<GlossResult[]> {
+  const results: GlossResult[] = items.map(item => ({
+    gloss: target === 'en' ? item.meaning : null,
+    backend: target === 'en' ? 'Definition' : null,
+  }))
+
+  for (const backend of resolveTranslationBackends()) {
+    const pending = items
+      .map((item, i) => ({ item, i }))
+      .filter(({ item, i }) => results[i].gloss === null && item.language !== target)
+    if (pending.length === 0) break
+
+    const glosses = await backend.translate(pending.map(p => p.item), target)
+    pending.forEach(({ i }, j) => {
+      if (glosses[j]) results[i] = { gloss: glosses[j], backend: backend.name }
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,27 @@
+import type { LanguageCode } from '@/lib/languages/types'
+
+/**
+ * A word whose meaning should be glossed in the learner's native language
+ */
+export interface GlossRequest {
+  word: string
+  meaning: string        // meaning_primary, in English
+  language: LanguageCode // Language of the word
+}
+
+/**
+ * Common interface every translation backend implements
+ */
+export interface TranslationBackend {
+  id: TranslationBackendId
+  name: string
+  /**
+   * Glosses a batch of words
+   * @param items - Words to gloss
+   * @param target - Native language code, e.g. "es"
+   * @returns One gloss per item, in the same order; null for items the backend cannot gloss
+   */
+  translate(items: GlossRequest[], target: string): Promise<(string | null)[]>
+}
+
+export type TranslationBackendId = 'dictionary' | 'llm'
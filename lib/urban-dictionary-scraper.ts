@@ -1,3 +1,5 @@
+import { scraperFetch, SourceUnavailableError } from '@/lib/scraper-http'
+
 /**
  * Urban Dictionary scraper for slang, jargon, and colloquial terms
  * Useful for words like "cramming" that have specialized contextual meanings
@@ -15,6 +17,7 @@ export interface UrbanDictionaryData {
  * Fetches definition from Urban Dictionary API
  * @param word - The word to look up
  * @returns Scraped data from Urban Dictionary
+ * @throws SourceUnavailableError if the API could not be reached
  */
 export async function scrapeUrbanDictionary(word: string): Promise<UrbanDictionaryData> {
   const result: UrbanDictionaryData = {
@@ -26,14 +29,10 @@ export async function scrapeUrbanDictionary(word: string): Promise<UrbanDictiona
     // Urban Dictionary API endpoint
     const url = `https://api.urbandictionary.com/v0/define?term=${encodeURIComponent(word.toLowerCase())}`
     
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    })
-
+    // The API answers an unknown word with an empty list
+    const response = await scraperFetch(url)
     if (!response.ok) {
-      console.log(`Urban Dictionary API returned status ${response.status} for word: ${word}`)
+      console.log(`Urban Dictionary API has no entry for word: ${word}`)
       return result
     }
 
@@ -57,6 +56,7 @@ export async function scrapeUrbanDictionary(word: string): Promise<UrbanDictiona
     }
 
   } catch (error) {
+    if (error instanceof SourceUnavailableError) throw error
     console.error('Error fetching from Urban Dictionary:', error)
   }
 
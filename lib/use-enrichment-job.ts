@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { apiFetch } from './api-client'
+import type { DictionarySource } from './settings-context'
+import type { EnrichmentJobProgress } from './jobs/enrichment-jobs'
+
+const POLL_INTERVAL_MS = 2000
+
+export interface StartJobOptions {
+  wordIds?: number[]
+  dictionary?: DictionarySource
+  deleteNotFound?: boolean
+  maxDefinitions?: number
+}
+
+/**
+ * Tracks the background enrichment job
+ * Picks up a job that is already running (e.g. started from another page or before a reload),
+ * polls its progress and calls onFinished once when it completes, fails or is cancelled.
+ */
+export function useEnrichmentJob(onFinished?: (job: EnrichmentJobProgress) => void) {
+  const [job, setJob] = useState<EnrichmentJobProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  const isActive = job?.status === 'queued' || job?.status === 'running'
+
+  // Attach to a job that is already running
+  useEffect(() => {
+    apiFetch('/api/jobs')
+      .then(res => res.ok ? res.json() : null)
+      .then(result => {
+        if (result?.job) setJob(result.job)
+      })
+      .catch(() => {})
+  }, [])
+
+  // Poll while the job is active
+  useEffect(() => {
+    if (!job || !isActive) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch(`/api/jobs/${job.id}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || 'Failed to fetch job status')
+
+        setJob(result.job)
+        if (result.job.status !== 'queued' && result.job.status !== 'running') {
+          onFinishedRef.current?.(result.job)
+        }
+      } catch (err) {
+        console.error('Job status error:', err)
+        // Keep polling; the job itself is unaffected by a failed status request
+        setJob(current => current && { ...current })
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job, isActive])
+
+  const start = useCallback(async (options: StartJobOptions) => {
+    setError(null)
+    const response = await apiFetch('/api/jobs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    })
+    const result = await response.json()
+
+    // A job is already running: follow that one instead
+    if (response.status === 409 && result.job) {
+      setJob(result.job)
+      return result.job as EnrichmentJobProgress
+    }
+    if (!response.ok) {
+      setError(result.error || 'Failed to start job')
+      throw new Error(result.error || 'Failed to start job')
+    }
+
+    setJob(result.job)
+    return result.job as EnrichmentJobProgress
+  }, [])
+
+  const cancel = useCallback(async () => {
+    if (!job) return
+    const response = await apiFetch(`/api/jobs/${job.id}`, { method: 'DELETE' })
+    const result = await response.json()
+    if (response.ok && result.job) {
+      setJob(result.job)
+      onFinishedRef.current?.(result.job)
+    }
+  }, [job])
+
+  return { job, isActive, error, start, cancel }
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import { supabase } from './supabase'
+import type { SyncConflicts } from './settings-context'
+import { readQueue } from './offline/local-store'
+import type { SyncedField } from './offline/mutations'
+import { lastWriterWins, syncLibrary, type ConflictResolver, type SyncResult } from './offline/sync'
+
+const FIELD_LABELS: Record<SyncedField, string> = {
+  word: 'Word',
+  part_of_speech: 'Part of speech',
+  cefr_level: 'Level',
+  meaning_primary: 'Meaning',
+  usage_tips: 'Usage tips',
+  meaning_native: 'Native-language gloss',
+  native_lang: 'Gloss language',
+  lang_id: 'Language',
+  forms: 'Forms',
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)'
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+/**
+ * Asks the learner which version of a field to keep
+ */
+const askLearner: ConflictResolver = (word, conflict) => confirm(
+  `"${word}" was changed on another device while you were offline.\n\n` +
+  `${FIELD_LABELS[conflict.field]}\n` +
+  `Yours: ${describeValue(conflict.local)}\n` +
+  `Other device: ${describeValue(conflict.server)}\n\n` +
+  'Keep your version?'
+) ? 'local' : 'server'
+
+function subscribeToConnection(onChange: () => void): () => void {
+  window.addEventListener('online', onChange)
+  window.addEventListener('offline', onChange)
+  return () => {
+    window.removeEventListener('online', onChange)
+    window.removeEventListener('offline', onChange)
+  }
+}
+
+/**
+ * Whether the browser is online, updated as the connection comes and goes
+ */
+export function useOnline(): boolean {
+  return useSyncExternalStore(subscribeToConnection, () => navigator.onLine, () => true)
+}
+
+/**
+ * Sends the changes queued offline to Supabase
+ * Syncs when the page opens online and every time the connection comes back (or the
+ * service worker reports it through Background Sync), then calls
+ * onSynced (e.g. to reload the library) once something was sent.
+ */
+export function useOfflineSync(userId: string | undefined, conflicts: SyncConflicts, onSynced?: (result: SyncResult) => void) {
+  const online = useOnline()
+  const [pending, setPending] = useState(0) // Changes waiting in the queue
+  const [syncing, setSyncing] = useState(false)
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const refreshPending = useCallback(async () => {
+    if (!userId) return
+    setPending((await readQueue(userId)).length)
+  }, [userId])
+
+  const sync = useCallback(async () => {
+    if (!userId) return
+    const queue = await readQueue(userId)
+    setPending(queue.length)
+    if (queue.length === 0) return
+
+    setSyncing(true)
+    try {
+      const result = await syncLibrary(supabase, userId, conflicts === 'ask' ? askLearner : lastWriterWins)
+      setPending(result.remaining)
+      onSyncedRef.current?.(result)
+    } catch (err) {
+      console.error('Offline sync error:', err)
+    } finally {
+      setSyncing(false)
+    }
+  }, [userId, conflicts])
+
+  // Send queued changes on load and whenever the connection comes back
+  useEffect(() => {
+    if (online) {
+      sync()
+    } else {
+      refreshPending().catch(err => console.error('Offline queue error:', err))
+    }
+  }, [online, sync, refreshPending])
+
+  // Background Sync: the service worker (public/sw.js) says when the connection is back,
+  // sometimes before the browser's online event
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'sync') sync()
+    }
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+  }, [sync])
+
+  return { online, pending, syncing, sync, refreshPending }
+}
@@ -0,0 +1,221 @@
+import type { DocumentSection } from '@/lib/documents/types'
+import { lemmatize } from '@/lib/languages/lemmatizers'
+import type { Language } from '@/lib/languages/types'
+import type { SourceSentence } from '@/lib/word-contexts'
+import { rateWord, type FrequencyList } from '@/lib/word-frequency'
+
+/**
+ * Picks the vocabulary worth studying out of a document
+ *
+ * Words are grouped by lemma and ranked by how often they appear in the document against
+ * how common they are in general, so a word a paper keeps using but learners rarely meet
+ * comes first. Names and acronyms are left out, and multi-word expressions are found
+ * both from the language's phrase list and as word pairs the document keeps repeating.
+ * Every word keeps a few of the sentences it appears in, with their page if the document has pages.
+ */
+
+export interface ExtractedWord {
+  word: string       // Lemma, or the expression for phrases
+  forms: string[]    // Other spellings of it met in the text, e.g. "results" for "result"
+  count: number      // Occurrences in the text
+  rank?: number      // Position in the frequency list, 1 being the most frequent word
+  level?: string     // Level estimated from the rank
+  phrase: boolean    // Multi-word expression
+  contexts: SourceSentence[] // Sentences it appears in, first ones first
+}
+
+export interface ExtractedVocabulary {
+  words: ExtractedWord[]  // Most worth studying first
+  properNouns: string[]   // Names and acronyms that were left out
+}
+
+// A word pair is taken as an expression when it appears this often, making up at
+// least this share of the occurrences of its rarer word
+const MIN_PAIR_COUNT = 3
+const MIN_PAIR_SHARE = 0.5
+
+// Longest expression in the phrase lists, in words
+const MAX_PHRASE_WORDS = 4
+
+// Rank given to words missing from the frequency list and to phrases
+const UNRANKED = 10000
+
+// Sentences kept per word, and the length a sentence needs to make a useful example
+const MAX_CONTEXTS = 2
+const MIN_CONTEXT_LENGTH = 20
+const MAX_CONTEXT_LENGTH = 300
+
+interface Casing {
+  lower: number       // Written in lowercase
+  capitalized: number // Capitalized in the middle of a sentence
+  acronym: number     // Written in capitals, e.g. "NASA" or "APIs"
+  spelling: string    // How it was written when capitalized
+}
+
+// A sentence and the page it is on
+type Sentence = DocumentSection
+
+/**
+ * Splits sections into sentences, joining words hyphenated across line breaks
+ */
+function splitSentences(sections: DocumentSection[], language: Language): Sentence[] {
+  const boundary = language.script === 'japanese' ? /(?<=[。！？!?])|\n+/ : /(?<=[.!?])\s+|\n\s*\n/
+  return sections.flatMap(({ text, page }) => text
+    .replace(/(\p{L})-\n(?=\p{Ll})/gu, '$1')
+    .split(boundary)
+    .map(sentence => ({ text: sentence, page })))
+}
+
+/**
+ * The sentence as it reads on its own, or null if it is too short or too long to be an example
+ */
+function contextSentence(sentence: Sentence, language: Language): string | null {
+  const text = sentence.text.replace(/\s+/g, language.script === 'japanese' ? '' : ' ').trim()
+  return text.length >= MIN_CONTEXT_LENGTH && text.length <= MAX_CONTEXT_LENGTH ? text : null
+}
+
+// Same normalization as the space-delimited tokenizer, so casing can be matched to tokens
+function normalizeToken(surface: string): string {
+  return surface.toLowerCase().replace(/’/g, "'").replace(/^['-]+|['-]+$/g, '')
+}
+
+/**
+ * Finds names and acronyms: words never written in lowercase that are capitalized in
+ * the middle of a sentence or written in capitals
+ * A capital at the start of a sentence or before a number ("Table 2") says nothing, so
+ * it is not counted.
+ * @returns Normalized token → spelling in the text
+ */
+function findProperNouns(sentences: Sentence[]): Map<string, string> {
+  const casing = new Map<string, Casing>()
+
+  for (const { text: sentence } of sentences) {
+    const matches = [...sentence.matchAll(/\p{L}[\p{L}'’-]*/gu)]
+    matches.forEach((match, i) => {
+      const surface = match[0]
+      const key = normalizeToken(surface)
+      const numbered = /^\s*\d/.test(sentence.slice(match.index + surface.length)) // "Table 2", "Figure 3"
+      const entry = casing.get(key) || { lower: 0, capitalized: 0, acronym: 0, spelling: surface }
+      if (surface === surface.toLowerCase()) {
+        entry.lower++
+      } else if (/^\p{Lu}{2,6}s?$/u.test(surface)) {
+        entry.acronym++
+        entry.spelling = surface
+      } else if (i > 0 && !numbered && /^\p{Lu}/u.test(surface)) {
+        entry.capitalized++
+        entry.spelling = surface
+      }
+      casing.set(key, entry)
+    })
+  }
+
+  const names = new Map<string, string>()
+  for (const [key, entry] of casing) {
+    if (entry.lower === 0 && (entry.capitalized > 0 || entry.acronym > 0)) names.set(key, entry.spelling)
+  }
+  return names
+}
+
+/**
+ * Indexes a language's phrase list by the lemmas of its words
+ */
+function phraseIndex(language: Language): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const phrase of language.phrases) {
+    const lemmas = language.tokenize(phrase).map(token => lemmatize(token, language))
+    if (lemmas.length > 1) index.set(lemmas.join(' '), phrase)
+  }
+  return index
+}
+
+function addOccurrence(found: Map<string, ExtractedWord>, word: string, form: string, phrase: boolean, context: SourceSentence | null) {
+  const entry = found.get(word) || { word, forms: [], count: 0, phrase, contexts: [] }
+  entry.count++
+  if (form !== word && !entry.forms.includes(form)) entry.forms.push(form)
+  addContext(entry.contexts, context)
+  found.set(word, entry)
+}
+
+function addContext(contexts: SourceSentence[], context: SourceSentence | null) {
+  if (context && contexts.length < MAX_CONTEXTS && !contexts.some(c => c.sentence === context.sentence)) {
+    contexts.push(context)
+  }
+}
+
+/**
+ * How much a word is worth studying: frequent in the document, rare in general
+ */
+function studyScore(word: ExtractedWord): number {
+  return (1 + Math.log2(word.count)) * Math.log10((word.rank ?? UNRANKED) + 10)
+}
+
+/**
+ * Extracts the vocabulary of a document
+ * @param sections - Pages, chapters or the whole text of the document
+ * @param frequency - Frequency list of the language, possibly empty
+ */
+export function extractVocabulary(sections: DocumentSection[], language: Language, frequency: FrequencyList): ExtractedVocabulary {
+  const sentences = splitSentences(sections, language)
+  const spaced = language.script !== 'japanese'
+  const properNouns = spaced ? findProperNouns(sentences) : new Map<string, string>()
+  const phrases = phraseIndex(language)
+
+  const words = new Map<string, ExtractedWord>()
+  const found = new Map<string, ExtractedWord>() // Multi-word expressions
+  const pairs = new Map<string, { spellings: Map<string, number>; contexts: SourceSentence[] }>() // By lemmas of adjacent words
+  const leftOut = new Set<string>()
+
+  for (const sentence of sentences) {
+    const tokens = language.tokenize(sentence.text)
+    const example = contextSentence(sentence, language)
+    const context = example ? { sentence: example, page: sentence.page } : null
+    const lemmas = tokens.map(token => lemmatize(token, language))
+    const isContent = tokens.map((token, i) =>
+      !language.stopWords.has(token) && !language.stopWords.has(lemmas[i]) && !properNouns.has(token))
+
+    tokens.forEach((token, i) => {
+      if (properNouns.has(token)) leftOut.add(properNouns.get(token)!)
+      if (isContent[i]) addOccurrence(words, lemmas[i], token, false, context)
+
+      for (let n = Math.min(MAX_PHRASE_WORDS, tokens.length - i); n > 1; n--) {
+        const phrase = phrases.get(lemmas.slice(i, i + n).join(' '))
+        if (phrase) {
+          addOccurrence(found, phrase, tokens.slice(i, i + n).join(' '), true, context)
+          break
+        }
+      }
+
+      // Word pairs only make sense where words are separated by spaces
+      if (spaced && i > 0 && isContent[i - 1] && isContent[i]) {
+        const key = `${lemmas[i - 1]} ${lemmas[i]}`
+        const pair = pairs.get(key) || { spellings: new Map<string, number>(), contexts: [] }
+        const spelling = `${tokens[i - 1]} ${tokens[i]}`
+        pair.spellings.set(spelling, (pair.spellings.get(spelling) || 0) + 1)
+        addContext(pair.contexts, context)
+        pairs.set(key, pair)
+      }
+    })
+  }
+
+  // Keep the pairs that mostly appear together, under their lemmas if the text uses
+  // them ("neural network") and else as the text writes them most ("machine learning")
+  for (const [key, { spellings, contexts }] of pairs) {
+    const count = [...spellings.values()].reduce((sum, n) => sum + n, 0)
+    const [first, second] = key.split(' ').map(lemma => words.get(lemma)?.count || 0)
+    if (count < MIN_PAIR_COUNT || count < MIN_PAIR_SHARE * Math.min(first, second)) continue
+
+    const byUse = [...spellings.entries()].sort((a, b) => b[1] - a[1]).map(([spelling]) => spelling)
+    const word = spellings.has(key) ? key : byUse[0]
+    if (found.has(word)) continue
+    found.set(word, { word, forms: byUse.filter(spelling => spelling !== word), count, phrase: true, contexts })
+  }
+
+  for (const word of words.values()) {
+    Object.assign(word, rateWord(frequency, word.word, language))
+  }
+
+  return {
+    words: [...words.values(), ...found.values()].sort((a, b) => studyScore(b) - studyScore(a)),
+    properNouns: [...leftOut],
+  }
+}
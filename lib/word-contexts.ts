@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Sentences a word was met in, stored in the vocab_contexts table
+ * They come from imported documents and are shown next to the dictionary example,
+ * so a flashcard can show the word the way the learner first read it.
+ */
+
+export interface SourceSentence {
+  sentence: string
+  page: number | null // Page of the document, for formats that have pages
+}
+
+export type VocabContext = SourceSentence & {
+  id: number
+  vocab_id: number
+  source_title: string | null // Title of the document, or its file name
+  created_at: string
+}
+
+// Longest sentence accepted from a client
+const MAX_SENTENCE_LENGTH = 500
+
+/**
+ * Reads the sentences sent for a word, dropping anything malformed
+ */
+export function parseSourceSentences(value: unknown): SourceSentence[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap(item => {
+    const { sentence, page } = (item || {}) as Record<string, unknown>
+    if (typeof sentence !== 'string' || !sentence.trim() || sentence.length > MAX_SENTENCE_LENGTH) return []
+    return [{ sentence: sentence.trim(), page: Number.isInteger(page) && (page as number) > 0 ? page as number : null }]
+  })
+}
+
+/**
+ * Describes where a sentence comes from, e.g. "Deep Learning, p. 12"
+ */
+export function describeContextSource(context: Pick<VocabContext, 'source_title' | 'page'>): string {
+  return [context.source_title, context.page ? `p. ${context.page}` : null].filter(Boolean).join(', ')
+}
+
+/**
+ * Puts a word's contexts newest first
+ */
+export function sortContexts(contexts: VocabContext[] | undefined): VocabContext[] {
+  return [...(contexts || [])].sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+/**
+ * Adds the sentences words were met in
+ * A sentence already stored for a word is skipped.
+ * @param db - Supabase client of the words' owner
+ * @param contexts - Sentences for each word id
+ * @param title - Title of the document they come from
+ * @throws Error if the sentences could not be saved
+ */
+export async function saveContexts(db: SupabaseClient, contexts: Map<number, SourceSentence[]>, title: string | null): Promise<void> {
+  const rows = [...contexts].flatMap(([vocabId, sentences]) => sentences
+    .filter((context, i) => sentences.findIndex(c => c.sentence === context.sentence) === i)
+    .map(({ sentence, page }) => ({
+      vocab_id: vocabId,
+      sentence,
+      page,
+      source_title: title,
+    })))
+  if (rows.length === 0) return
+
+  const { error } = await db
+    .from('vocab_contexts')
+    .upsert(rows, { onConflict: 'vocab_id,sentence', ignoreDuplicates: true })
+
+  if (error) {
+    throw new Error(`Failed to save source sentences: ${error.message}`)
+  }
+}
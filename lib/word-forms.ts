@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { lemmaKeys, mergeForms } from '@/lib/languages/lemmatizers'
+import type { Language } from '@/lib/languages/types'
+
+/**
+ * Inflected forms of library words, stored in vocab_library.forms
+ * Words are stored under their lemma ("run") and remember the forms they were met in
+ * ("running", "ran"), so adding or importing any of those finds the existing word.
+ */
+
+export interface LibraryWord {
+  id: number
+  word: string
+  forms: string[] | null
+}
+
+/**
+ * Loads the user's library words with their recorded forms
+ * Failures are logged and treated as an empty library, like the duplicate checks always did.
+ */
+export async function loadLibraryWords(db: SupabaseClient, userId: string): Promise<LibraryWord[]> {
+  const { data, error } = await db
+    .from('vocab_library')
+    .select('id, word, forms')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error fetching existing words:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Indexes library words by spelling, lemma and recorded forms
+ */
+export function indexLibraryWords(words: LibraryWord[], language: Language): Map<string, LibraryWord> {
+  const index = new Map<string, LibraryWord>()
+  for (const word of words) {
+    for (const key of [...lemmaKeys(word.word, language), ...(word.forms || [])]) {
+      if (!index.has(key)) index.set(key, word)
+    }
+  }
+  return index
+}
+
+/**
+ * Finds the library word a lemma or any of its forms belongs to
+ */
+export function findLibraryWord(index: Map<string, LibraryWord>, lemma: string, forms: string[] = []): LibraryWord | undefined {
+  for (const key of [lemma, ...forms]) {
+    const word = index.get(key.toLowerCase())
+    if (word) return word
+  }
+  return undefined
+}
+
+/**
+ * Adds newly seen forms to library words
+ * A word that fails to update is logged and skipped: forms only help duplicate detection.
+ * @param seen - Forms seen for each library word
+ * @returns How many words got new forms
+ */
+export async function recordForms(db: SupabaseClient, seen: Map<LibraryWord, string[]>): Promise<number> {
+  let updated = 0
+  for (const [word, forms] of seen) {
+    const merged = mergeForms(word.word, word.forms, forms)
+    if (!merged) continue
+
+    const { error } = await db
+      .from('vocab_library')
+      .update({ forms: merged })
+      .eq('id', word.id)
+
+    if (error) {
+      console.error(`Error recording forms of "${word.word}":`, error.message)
+    } else {
+      word.forms = merged
+      updated++
+    }
+  }
+  return updated
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { levelForRank } from '@/lib/languages/levels'
+import type { Language, LanguageCode } from '@/lib/languages/types'
+
+/**
+ * Word frequency lists, used to tell common words from the ones worth studying
+ *
+ * One plain text file per language, `<language code>.txt`, with one word per line, most
+ * frequent first. Lines starting with "#" are comments. Files are read once per server
+ * instance from WORD_FREQUENCY_DIR (default data/frequency).
+ */
+
+export interface FrequencyList {
+  ranks: Map<string, number> // Word → rank, 1 being the most frequent
+  size: number
+}
+
+const lists = new Map<LanguageCode, Promise<FrequencyList>>()
+
+/**
+ * Loads the frequency list of a language
+ * A missing file means no list for that language and leaves it empty.
+ */
+export function loadFrequencyList(language: Language): Promise<FrequencyList> {
+  const cached = lists.get(language.code)
+  if (cached) return cached
+
+  const list = (async () => {
+    const dir = process.env.WORD_FREQUENCY_DIR || path.join(process.cwd(), 'data', 'frequency')
+    const file = path.join(dir, `${language.code}.txt`)
+    const ranks = new Map<string, number>()
+
+    let lines: string[]
+    try {
+      lines = (await fs.readFile(file, 'utf8')).split('\n')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`⚠️ Word frequency list not loaded from ${file}:`, error instanceof Error ? error.message : error)
+      }
+      return { ranks, size: 0 }
+    }
+
+    for (const line of lines) {
+      const word = line.trim().toLowerCase()
+      if (word && !word.startsWith('#') && !ranks.has(word)) ranks.set(word, ranks.size + 1)
+    }
+
+    console.log(`📊 Word frequency list loaded: ${ranks.size} ${language.name} words from ${file}`)
+    return { ranks, size: ranks.size }
+  })()
+
+  lists.set(language.code, list)
+  return list
+}
+
+/**
+ * Frequency rank and estimated level of a word
+ * A word missing from the list is rarer than every word in it. That only says something
+ * about its level when the list covers every level but the last; with a shorter list
+ * the level is left unknown.
+ * @param word - A lemma
+ */
+export function rateWord(list: FrequencyList, word: string, language: Language): { rank?: number; level?: string } {
+  const rank = list.ranks.get(word.toLowerCase())
+  if (rank) return { rank, level: levelForRank(language.levels, rank) }
+
+  const sizes = language.levels.vocabularySizes
+  if (list.size > 0 && list.size >= sizes[sizes.length - 1]) {
+    return { level: language.levels.levels[language.levels.levels.length - 1].code }
+  }
+  return {}
+}
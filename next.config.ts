@@ -2,6 +2,10 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   serverExternalPackages: ['pdf-parse'],
+  // Dictionary and word list files are read at runtime, so they are not traced automatically
+  outputFileTracingIncludes: {
+    '/api/**': ['./data/jmdict.json', './data/glossaries/*.json', './data/frequency/*.txt'],
+  },
 };
 
 export default nextConfig;
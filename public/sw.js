@@ -1,7 +1,14 @@
-const CACHE_NAME = 'verba-v2';
-const urlsToCache = [
+// Bump when the caching rules change; caches of other versions are deleted on activate
+const VERSION = 4;
+const SHELL_CACHE = `verba-shell-v${VERSION}`;  // App shell, precached on install
+const PAGES_CACHE = `verba-pages-v${VERSION}`;  // Pages and assets, cached as they are used
+const DATA_CACHE = `verba-data-v${VERSION}`;    // Snapshot of each user's library and review schedule
+const CURRENT_CACHES = [SHELL_CACHE, PAGES_CACHE, DATA_CACHE];
+
+const SHELL_URLS = [
   '/',
   '/offline',
+  '/manifest.json',
   '/favicon.svg',
   '/favicon-16x16.png',
   '/favicon-32x32.png',
@@ -10,134 +17,181 @@ const urlsToCache = [
   '/apple-touch-icon.png',
 ];
 
-// Install service worker and cache resources
+// Pages downloaded ahead of time when the "Auto-Download Content" setting is on
+const PREFETCH_URLS = ['/stats', '/settings'];
+
+// Supabase tables the library and the quiz read; their responses are kept per user
+const SNAPSHOT_TABLES = ['vocab_library', 'review_schedule'];
+
+// Registered by lib/offline/local-store.ts when a change is queued
+const SYNC_TAG = 'verba-sync';
+
+// ---------------------------------------------------------------------------
+// Install and activate
+// ---------------------------------------------------------------------------
+
+// Script and style files a page loads, so the shell works without the network
+function assetUrls(html) {
+  const urls = new Set();
+  for (const match of html.matchAll(/(?:src|href)="(\/_next\/static\/[^"]+)"/g)) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
+
+// Caches pages together with the assets they reference
+async function cachePages(cacheName, urls) {
+  const cache = await caches.open(cacheName);
+  await Promise.all(urls.map(async (url) => {
+    try {
+      const response = await fetch(url, { credentials: 'same-origin' });
+      if (!response.ok) return;
+      await cache.put(url, response.clone());
+      if ((response.headers.get('content-type') || '').includes('text/html')) {
+        await cache.addAll(assetUrls(await response.text()));
+      }
+    } catch (error) {
+      console.log(`Could not cache ${url}:`, error);
+    }
+  }));
+}
+
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(urlsToCache))
-  );
+  event.waitUntil(cachePages(SHELL_CACHE, SHELL_URLS));
   self.skipWaiting();
 });
 
-// Activate service worker and clean old caches
 self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
-  );
-  self.clients.claim();
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('verba-') && !CURRENT_CACHES.includes(name))
+      .map((name) => caches.delete(name)));
+    // Outboxes of earlier versions; queued writes now live in the page's queue
+    indexedDB.deleteDatabase('PolyglotDB');
+    indexedDB.deleteDatabase('verba-sw');
+    await self.clients.claim();
+  })());
 });
 
-// Fetch strategy: Network first, fall back to cache
-self.addEventListener('fetch', (event) => {
-  // Skip non-GET requests
-  if (event.request.method !== 'GET') return;
-
-  // Skip chrome-extension and other schemes
-  if (!event.request.url.startsWith('http')) return;
-
-  event.respondWith(
-    fetch(event.request)
-      .then((response) => {
-        // Clone the response
-        const responseToCache = response.clone();
-
-        // Cache successful responses
-        if (response.status === 200) {
-          caches.open(CACHE_NAME).then((cache) => {
-            cache.put(event.request, responseToCache);
-          });
-        }
-
-        return response;
-      })
-      .catch(() => {
-        // If network fails, try cache
-        return caches.match(event.request)
-          .then((cachedResponse) => {
-            if (cachedResponse) {
-              return cachedResponse;
-            }
-
-            // If no cache, return offline page for navigations
-            if (event.request.mode === 'navigate') {
-              return caches.match('/offline');
-            }
-          });
-      })
-  );
-});
+// ---------------------------------------------------------------------------
+// Reading: pages, static assets and the library snapshot
+// ---------------------------------------------------------------------------
 
-// Background sync for offline vocabulary
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'sync-vocab') {
-    event.waitUntil(syncVocabulary());
+// Id of the user a Supabase access token belongs to
+function userIdFromToken(token) {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return payload.sub || null;
+  } catch {
+    return null;
   }
-});
+}
 
-async function syncVocabulary() {
-  // Get pending vocabulary from IndexedDB
-  const db = await openDB();
-  const pendingWords = await getPendingWords(db);
+function userIdFromRequest(request) {
+  return userIdFromToken((request.headers.get('authorization') || '').replace(/^Bearer /, ''));
+}
 
-  // Try to sync each word
-  for (const word of pendingWords) {
-    try {
-      await fetch('/api/sync-vocab', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(word)
-      });
-      
-      // Remove from pending list on success
-      await removePendingWord(db, word.id);
-    } catch (error) {
-      console.log('Sync failed, will retry later');
+function supabaseTable(url) {
+  const match = url.pathname.match(/^\/rest\/v1\/([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+// Snapshot responses are stored under a key per user, so accounts never see each other's words
+function snapshotKey(request, userId) {
+  const url = new URL(request.url);
+  url.searchParams.set('sw_user', userId);
+  return url.toString();
+}
+
+async function networkFirst(request, cacheName, cacheKey = request) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.status === 200) {
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey) || await caches.match(cacheKey);
+    if (cached) return cached;
+    if (request.mode === 'navigate') {
+      const offline = await caches.match('/offline');
+      if (offline) return offline;
     }
+    throw error;
   }
 }
 
-function openDB() {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open('PolyglotDB', 1);
-    
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    
-    request.onupgradeneeded = (event) => {
-      const db = event.target.result;
-      if (!db.objectStoreNames.contains('pendingWords')) {
-        db.createObjectStore('pendingWords', { keyPath: 'id' });
-      }
-    };
-  });
+// Built assets have hashed names and never change
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.status === 200) {
+    const cache = await caches.open(PAGES_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
 }
 
-function getPendingWords(db) {
-  return new Promise((resolve) => {
-    const transaction = db.transaction(['pendingWords'], 'readonly');
-    const store = transaction.objectStore('pendingWords');
-    const request = store.getAll();
-    
-    request.onsuccess = () => resolve(request.result || []);
-    request.onerror = () => resolve([]);
-  });
-}
+// ---------------------------------------------------------------------------
+// Writing: changes made offline wait in the page's queue (lib/offline), which merges them
+// with the server field by field. The worker only wakes the page to send them.
+// ---------------------------------------------------------------------------
 
-function removePendingWord(db, id) {
-  return new Promise((resolve) => {
-    const transaction = db.transaction(['pendingWords'], 'readwrite');
-    const store = transaction.objectStore('pendingWords');
-    const request = store.delete(id);
-    
-    request.onsuccess = () => resolve();
-    request.onerror = () => resolve();
-  });
+async function wakePages() {
+  const pages = await self.clients.matchAll({ type: 'window' });
+  for (const page of pages) page.postMessage({ type: 'sync' });
 }
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (!request.url.startsWith('http')) return;
+  const url = new URL(request.url);
+
+  // Supabase REST calls; writes go straight to the network
+  const table = supabaseTable(url);
+  if (table && url.origin !== self.location.origin) {
+    if (request.method === 'GET' && SNAPSHOT_TABLES.includes(table)) {
+      const userId = userIdFromRequest(request);
+      if (userId) event.respondWith(networkFirst(request, DATA_CACHE, snapshotKey(request, userId)));
+    }
+    return;
+  }
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith('/api/')) return; // Lookups and imports always need the server
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request, PAGES_CACHE));
+  }
+});
+
+// Back online: open pages send their queue with their own, fresh session.
+// With no page open, nothing is sent until the app is next opened: the worker has no
+// session of its own (the page keeps it in localStorage) and the merge runs in the page.
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(wakePages());
+  }
+});
+
+// Messages from components/service-worker-registration.tsx
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  switch (message.type) {
+    case 'prefetch':
+      event.waitUntil(cachePages(PAGES_CACHE, PREFETCH_URLS));
+      break;
+    case 'sign-out':
+      event.waitUntil(caches.delete(DATA_CACHE));
+      break;
+  }
+});
@@ -0,0 +1,106 @@
+/**
+ * Test script for the API authentication guard
+ *
+ * Starts a local stand-in for Supabase Auth that knows a guest token, then calls every
+ * API route without a token, with an invalid token and as a guest (anonymous) user.
+ * Each call must be refused with the same JSON shape before the route does any work.
+ *
+ * Usage:
+ *   1. Start the app against the stand-in:
+ *        NEXT_PUBLIC_SUPABASE_URL=http://localhost:54329 NEXT_PUBLIC_SUPABASE_ANON_KEY=test-anon-key npm run dev
+ *   2. node test-api-auth.mjs
+ */
+
+import http from 'node:http'
+
+const MOCK_PORT = 54329
+const APP_URL = 'http://localhost:3000'
+
+// Tokens the stand-in accepts
+const USERS = {
+  'guest-user-token': { id: '00000000-0000-0000-0000-000000000002', aud: 'authenticated', is_anonymous: true },
+}
+
+const ROUTES = [
+  { method: 'POST', path: '/api/fetch-dictionary', body: { word: 'scrutiny' } },
+  { method: 'POST', path: '/api/fetch-dictionary-batch', body: { words: ['scrutiny'] } },
+  { method: 'POST', path: '/api/grade-answer', body: { word: 'scrutiny', expected: 'careful examination', answer: 'a close look' } },
+  { method: 'POST', path: '/api/upload-document', body: null },
+  { method: 'POST', path: '/api/confirm-document-words', body: { words: ['scrutiny'] } },
+  { method: 'POST', path: '/api/refetch-all', body: {} },
+  { method: 'POST', path: '/api/translate-glosses', body: { ids: [1], target: 'es' } },
+  { method: 'GET', path: '/api/jobs' },
+  { method: 'POST', path: '/api/jobs', body: {} },
+  { method: 'GET', path: '/api/jobs/00000000-0000-0000-0000-000000000000' },
+  { method: 'DELETE', path: '/api/jobs/00000000-0000-0000-0000-000000000000' },
+]
+
+const CASES = [
+  { label: 'no token', headers: {}, status: 401, code: 'unauthorized' },
+  { label: 'invalid token', headers: { Authorization: 'Bearer not-a-real-token' }, status: 401, code: 'unauthorized' },
+  { label: 'malformed header', headers: { Authorization: 'Basic dXNlcjpwYXNz' }, status: 401, code: 'unauthorized' },
+  { label: 'guest user', headers: { Authorization: 'Bearer guest-user-token' }, status: 403, code: 'forbidden' },
+]
+
+// Minimal Supabase Auth: GET /auth/v1/user returns the user for a known token
+const server = http.createServer((req, res) => {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '')
+  const user = req.url?.startsWith('/auth/v1/user') ? USERS[token] : undefined
+
+  res.writeHead(user ? 200 : 401, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(user || { code: 401, error_code: 'bad_jwt', msg: 'invalid JWT' }))
+})
+
+function check(label, ok, detail = '') {
+  console.log(`  ${ok ? '✅' : '❌'} ${label}${detail ? `: ${detail}` : ''}`)
+  return ok
+}
+
+async function call(route, headers) {
+  const init = { method: route.method, headers: { ...headers } }
+  if (route.body !== undefined) {
+    if (route.body === null) {
+      init.body = new FormData()
+    } else {
+      init.headers['Content-Type'] = 'application/json'
+      init.body = JSON.stringify(route.body)
+    }
+  }
+  const response = await fetch(`${APP_URL}${route.path}`, init)
+  const data = await response.json().catch(() => null)
+  return { response, data }
+}
+
+async function run() {
+  await new Promise(resolve => server.listen(MOCK_PORT, resolve))
+  console.log(`🧪 Supabase Auth stand-in on http://localhost:${MOCK_PORT}`)
+
+  let passed = true
+  try {
+    for (const route of ROUTES) {
+      console.log(`\n🔒 ${route.method} ${route.path}`)
+      for (const testCase of CASES) {
+        const { response, data } = await call(route, testCase.headers)
+        const ok = response.status === testCase.status &&
+          data?.code === testCase.code &&
+          typeof data?.error === 'string' &&
+          Object.keys(data).length === 2
+        passed = check(testCase.label, ok, `HTTP ${response.status} ${JSON.stringify(data)}`) && passed
+
+        if (testCase.status === 401) {
+          passed = check('  WWW-Authenticate header', response.headers.get('www-authenticate') === 'Bearer') && passed
+        }
+      }
+    }
+  } catch (error) {
+    passed = check('Requests succeeded', false, error.message)
+    console.log('\n💡 Make sure the app is running against the stand-in (see Usage at the top of this file)')
+  } finally {
+    server.close()
+  }
+
+  console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`)
+  process.exit(passed ? 0 : 1)
+}
+
+run()
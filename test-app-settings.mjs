@@ -0,0 +1,64 @@
+/**
+ * Test script for the settings that change how the app behaves
+ *
+ * Checks that each quiz, dictionary and appearance setting changes what the app does:
+ * the mode and length a study session starts with, the time limit of timed quizzes,
+ * how many senses a lookup keeps, and the attributes and layout the page is drawn with.
+ *
+ * Usage: node test-app-settings.mjs
+ */
+
+import { check, finish, load } from './test-helpers.mjs'
+
+const { initialQuizOptions, quizDeadline, secondsLeft } = load('lib/quiz-settings.ts')
+const { displayAttributes, wordListLayout } = load('lib/display-settings.ts')
+const { limitSenses, parseMaxDefinitions } = load('lib/senses.ts')
+
+const sense = (definition, isPrimary = false) => ({
+  definition, part_of_speech: null, register: null, examples: [], source: null, is_primary: isPrimary,
+})
+
+console.log('\n🎯 Quiz')
+check('defaultQuizMode picks the starting mode',
+  initialQuizOptions({ defaultQuizMode: 'typing', questionsPerSession: 10 }).mode, 'typing')
+check('an unknown defaultQuizMode falls back to flashcards',
+  initialQuizOptions({ defaultQuizMode: 'speaking', questionsPerSession: 10 }).mode, 'flashcard')
+check('questionsPerSession sets the number of words',
+  initialQuizOptions({ defaultQuizMode: 'flashcard', questionsPerSession: 25 }).count, 25)
+check('questionsPerSession is kept within the slider range',
+  [100, 1, 12].map(n => initialQuizOptions({ defaultQuizMode: 'flashcard', questionsPerSession: n }).count), [50, 5, 10])
+
+const start = Date.UTC(2026, 0, 1)
+check('enableTimedQuiz off: no time limit',
+  quizDeadline({ enableTimedQuiz: false, quizTimeLimitMinutes: 10 }, start), null)
+check('quizTimeLimitMinutes sets the deadline',
+  quizDeadline({ enableTimedQuiz: true, quizTimeLimitMinutes: 2 }, start), start + 2 * 60 * 1000)
+check('the countdown counts whole seconds and stops at zero',
+  [secondsLeft(start + 90500, start), secondsLeft(start, start + 5000)], [91, 0])
+
+console.log('\n📖 Dictionary')
+const senses = [sense('first'), sense('second', true), sense('third'), sense('fourth')]
+check('maxDefinitions keeps that many senses, the primary one included',
+  limitSenses(senses, 2).map(s => s.definition), ['first', 'second'])
+check('maxDefinitions of 1 keeps only the primary sense',
+  limitSenses(senses, 1).map(s => s.definition), ['second'])
+check('no maxDefinitions keeps every sense',
+  limitSenses(senses, parseMaxDefinitions(undefined)).length, 4)
+check('invalid maxDefinitions values are ignored',
+  [0, -2, 1.5, '3'].map(parseMaxDefinitions), [undefined, undefined, undefined, undefined])
+
+console.log('\n🎨 Appearance')
+check('fontSize, highContrast and reduceAnimations set the page attributes',
+  displayAttributes({ fontSize: 'large', highContrast: true, reduceAnimations: true }),
+  { 'data-font-size': 'large', 'data-contrast': 'high', 'data-motion': 'reduced' })
+check('defaults leave contrast and motion alone',
+  displayAttributes({ fontSize: 'medium', highContrast: false, reduceAnimations: false }),
+  { 'data-font-size': 'medium', 'data-contrast': 'normal', 'data-motion': 'full' })
+const compact = wordListLayout({ compactView: true, showExamples: true })
+const normal = wordListLayout({ compactView: false, showExamples: true })
+check('compactView fits more, smaller cards on a row',
+  [compact.grid !== normal.grid, compact.card !== normal.card, compact.title !== normal.title], [true, true, true])
+check('showExamples decides whether cards show the example',
+  [normal.showExamples, wordListLayout({ compactView: false, showExamples: false }).showExamples], [true, false])
+
+finish('settings')
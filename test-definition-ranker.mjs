@@ -33,6 +33,10 @@ async function testWord(word) {
       console.log('  CEFR Level:', data.data.cefr_level)
       console.log('  Meaning:', data.data.meaning_primary)
       console.log('  Usage Tips:', data.data.usage_tips)
+      console.log('  Senses:', data.data.senses?.length ?? 0)
+      data.data.senses?.forEach((sense, i) => {
+        console.log(`    ${sense.is_primary ? '★' : ' '} ${i + 1}. ${sense.part_of_speech ? `(${sense.part_of_speech}) ` : ''}${sense.definition}`)
+      })
       
       // Check if we got a descriptive meaning vs. just "past simple of..." or "present participle of..."
       const isDescriptive = !data.data.meaning_primary.toLowerCase().includes('past simple of')
@@ -69,6 +73,7 @@ const testWords = [
   'vetted',   // The original problematic word
   'running',  // Another past participle that might have the same issue
   'googled',  // Modern slang/jargon
+  'bank',     // Polysemous - every sense should be listed, one marked primary
 ]
 
 console.log('🧪 Definition Ranking Test Suite')
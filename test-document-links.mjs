@@ -0,0 +1,54 @@
+/**
+ * Test script for importing documents from links (lib/documents/url.ts)
+ *
+ * Checks that links to loopback, private and link-local addresses are refused before a
+ * connection is made, however the address is written: IPv4, IPv6, and IPv6 addresses
+ * that carry an IPv4 one (IPv4-mapped, IPv4-compatible and NAT64).
+ *
+ * Usage: node test-document-links.mjs
+ */
+
+import { check, finish, load } from './test-helpers.mjs'
+
+// Public addresses are not connected to for long when the network is unreachable
+process.env.DOCUMENT_FETCH_TIMEOUT_MS = '2000'
+
+const { fetchDocument } = load('lib/documents/url.ts')
+
+const REFUSED = 'Links to local addresses cannot be imported'
+
+// Resolves to the message of the error a link is refused with
+async function refusal(link) {
+  try {
+    await fetchDocument(link)
+    return null
+  } catch (error) {
+    return error.message
+  }
+}
+
+async function refused(links) {
+  const messages = await Promise.all(links.map(refusal))
+  return messages.every(message => message === REFUSED)
+}
+
+console.log('\n🔒 Local addresses')
+check('IPv4 loopback and private addresses are refused',
+  await refused(['http://127.0.0.1/', 'http://10.1.2.3/', 'http://192.168.0.1/', 'http://169.254.169.254/']), true)
+check('IPv6 loopback, unique local and link-local addresses are refused',
+  await refused(['http://[::1]/', 'http://[::]/', 'http://[fd00::1]/', 'http://[fe80::1]/']), true)
+check('IPv4-mapped addresses are refused',
+  await refused(['http://[::ffff:127.0.0.1]/', 'http://[::ffff:7f00:1]/', 'http://[::ffff:10.0.0.1]/']), true)
+check('IPv4-compatible addresses are refused',
+  await refused(['http://[::127.0.0.1]/', 'http://[::7f00:1]/', 'http://[::192.168.1.1]/']), true)
+check('NAT64 addresses are refused',
+  await refused(['http://[64:ff9b::127.0.0.1]/', 'http://[64:ff9b::a00:1]/', 'http://[64:ff9b:1::1]/']), true)
+check('local host names are refused', await refused(['http://localhost/', 'http://printer.local/']), true)
+
+console.log('\n🌐 Public addresses')
+check('a NAT64 address of a public host is not refused as local',
+  (await refusal('http://[64:ff9b::808:808]/')) !== REFUSED, true)
+check('only http and https links are imported',
+  await refusal('file:///etc/passwd'), 'Only http and https links can be imported')
+
+finish('document link')
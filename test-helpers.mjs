@@ -0,0 +1,59 @@
+/**
+ * Shared helpers for the test scripts
+ *
+ * load() compiles a module of the app on the fly with the TypeScript compiler, so the
+ * scripts run without building the app. check() compares a result with the expected one
+ * and finish() reports the outcome and sets the exit code.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import Module from 'node:module'
+
+export const ROOT = path.dirname(new URL(import.meta.url).pathname)
+const require = createRequire(import.meta.url)
+const ts = require('typescript')
+
+/**
+ * Loads a TypeScript module, resolving the '@/' path alias and relative imports of .ts files
+ * @param file - Path from the repository root, e.g. 'lib/senses.ts'
+ */
+export function load(file) {
+  const fullPath = path.resolve(ROOT, file)
+  const source = fs.readFileSync(fullPath, 'utf8')
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+  })
+  const mod = new Module(fullPath)
+  mod.paths = Module._nodeModulePaths(ROOT)
+  const requireDependency = mod.require.bind(mod)
+  mod.require = id => {
+    if (id.startsWith('@/')) return load(`${id.slice(2)}.ts`)
+    if (id.startsWith('.')) return load(path.join(path.dirname(fullPath), `${id}.ts`))
+    return requireDependency(id)
+  }
+  mod._compile(outputText, fullPath)
+  return mod.exports
+}
+
+let failures = 0
+
+export function check(name, actual, expected) {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected)
+  if (!ok) failures++
+  console.log(`${ok ? '✅' : '❌'} ${name}`)
+  if (!ok) {
+    console.log(`   Expected: ${JSON.stringify(expected)}`)
+    console.log(`   Got:      ${JSON.stringify(actual)}`)
+  }
+}
+
+/**
+ * Prints the outcome and exits, with code 1 if a check failed
+ * @param what - What was checked, e.g. 'rate limiter'
+ */
+export function finish(what) {
+  console.log(`\n${failures === 0 ? `✅ All ${what} checks passed` : `❌ ${failures} check(s) failed`}\n`)
+  process.exit(failures === 0 ? 0 : 1)
+}
@@ -0,0 +1,43 @@
+/**
+ * Test script for Japanese word splitting and dictionary forms
+ *
+ * Checks that the tokenizer joins inflected endings back on to the kanji the segmenter
+ * leaves them apart from, and that the lemmatizer turns verbs, adjectives and する
+ * forms into the dictionary forms words are stored under.
+ *
+ * Usage: node test-japanese.mjs
+ */
+
+import { check, finish, load } from './test-helpers.mjs'
+
+const { getLanguage } = load('lib/languages/registry.ts')
+const { lemmatize } = load('lib/languages/lemmatizers.ts')
+const japanese = getLanguage('ja')
+
+const lemmas = words => words.map(word => lemmatize(word, japanese))
+
+console.log('\n✂️ Tokenizer')
+check('inflected endings are joined back on', japanese.tokenize('食べました'), ['食べました'])
+check('particles are left out', japanese.tokenize('手紙を書いて送った'), ['手紙', '書いて', '送った'])
+check('a noun followed by ない or ありません stays a noun',
+  [japanese.tokenize('時間がない'), japanese.tokenize('問題ありません')], [['時間'], ['問題']])
+check('na-adjectives keep their な', japanese.tokenize('静かな部屋'), ['静かな', '部屋'])
+
+console.log('\n📖 Verbs')
+check('ichidan verbs', lemmas(['食べました', '見ない', '起きます', '考えました']), ['食べる', '見る', '起きる', '考える'])
+check('godan verbs', lemmas(['読んでいる', '書いて', '話します', '泳いでいます']), ['読む', '書く', '話す', '泳ぐ'])
+check('te and ta forms of common verbs', lemmas(['待って', '行った', '買った', '遊んだ', '死んだ', '分かった']),
+  ['待つ', '行く', '買う', '遊ぶ', '死ぬ', '分かる'])
+check('来る', lemmas(['来ました', '来ない']), ['来る', '来る'])
+
+console.log('\n📖 する')
+check('する on its own', lemmas(['した', 'します', 'しない', 'して']), ['する', 'する', 'する', 'する'])
+check('nouns with する', lemmas(['勉強した', '勉強しなければ', 'コピーした']), ['勉強する', '勉強する', 'コピーする'])
+
+console.log('\n📖 Adjectives')
+check('i-adjectives', lemmas(['寒かった', '美しく', '高くて', '安い']), ['寒い', '美しい', '高い', '安い'])
+check('na-adjectives', lemmas(['静かな', '有名な', '明らかな']), ['静か', '有名', '明らか'])
+check('大きな and 小さな are dictionary forms', lemmas(['大きな', '小さな']), ['大きな', '小さな'])
+check('nouns are left as they are', lemmas(['先生', '日本', '部屋']), ['先生', '日本', '部屋'])
+
+finish('Japanese')
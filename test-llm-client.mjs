@@ -0,0 +1,91 @@
+/**
+ * Test script for the LLM client (retries, JSON repair and schema validation)
+ *
+ * Starts a mock OpenAI-compatible server that misbehaves on purpose, then looks up
+ * a word through the app so the response goes through lib/llm.
+ *
+ * Usage:
+ *   1. Start the app against the mock server:
+ *        USE_LM_STUDIO=true LM_STUDIO_URL=http://localhost:1235/v1/chat/completions npm run dev
+ *   2. node test-llm-client.mjs
+ */
+
+import http from 'node:http'
+
+const MOCK_PORT = 1235
+const API_URL = 'http://localhost:3000/api/fetch-dictionary'
+const PARTS_OF_SPEECH = ['noun', 'verb', 'adjective', 'adverb', 'preposition', 'conjunction', 'pronoun', 'interjection']
+const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2', 'n.a.']
+
+// Scripted responses, one per request the mock receives
+const script = [
+  // 1. Overloaded: the client should back off and retry
+  { status: 503, headers: { 'Retry-After': '1' }, body: { error: 'Model is loading' } },
+  // 2. Fenced JSON with invalid fields: the client should ask the model to repair it
+  { status: 200, content: '```json\n{ "part_of_speech": "n.", "cefr_level": "advanced", "meaning_primary": "" }\n```' },
+  // 3. Prose around the JSON with a label that needs normalizing
+  { status: 200, content: 'Sure! Here it is: { "part_of_speech": "Noun", "cefr_level": "b2", "meaning_primary": "a careful examination", "usage_tips": "\\"The plan needs scrutiny.\\"" } Hope this helps.' },
+]
+
+const requests = []
+
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    requests.push(JSON.parse(body || '{}'))
+    const step = script[Math.min(requests.length - 1, script.length - 1)]
+    console.log(`  🧪 Mock request ${requests.length}: HTTP ${step.status}`)
+
+    res.writeHead(step.status, { 'Content-Type': 'application/json', ...step.headers })
+    res.end(JSON.stringify(step.body || {
+      choices: [{ message: { role: 'assistant', content: step.content } }],
+    }))
+  })
+})
+
+function check(label, ok, detail = '') {
+  console.log(`  ${ok ? '✅' : '❌'} ${label}${detail ? `: ${detail}` : ''}`)
+  return ok
+}
+
+async function run() {
+  await new Promise(resolve => server.listen(MOCK_PORT, resolve))
+  console.log(`🧪 Mock OpenAI-compatible server on http://localhost:${MOCK_PORT}`)
+
+  const word = 'scrutiny'
+  console.log(`\n📖 Looking up "${word}" through ${API_URL}...`)
+
+  let passed = true
+  try {
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ word }),
+    })
+    const data = await response.json()
+
+    passed = check('Request succeeded', response.ok && data.success, data.error) && passed
+    if (data.data) {
+      passed = check('part_of_speech is valid', PARTS_OF_SPEECH.includes(data.data.part_of_speech), data.data.part_of_speech) && passed
+      passed = check('cefr_level is valid', CEFR_LEVELS.includes(data.data.cefr_level), data.data.cefr_level) && passed
+      passed = check('meaning_primary is filled', Boolean(data.data.meaning_primary?.trim()), data.data.meaning_primary) && passed
+      passed = check('usage_tips is a string', typeof data.data.usage_tips === 'string') && passed
+    }
+    passed = check('Retried after 503 and asked for a repair', requests.length === 3, `${requests.length} requests`) && passed
+    const repairRequest = requests[2]?.messages?.at(-1)?.content || ''
+    passed = check('Repair prompt lists the problems', repairRequest.includes('part_of_speech')) && passed
+  } catch (error) {
+    passed = check('Request succeeded', false, error.message)
+    console.log('\n💡 Make sure the app is running against the mock server (see Usage at the top of this file)')
+  } finally {
+    server.close()
+  }
+
+  console.log(`\n${passed ? '✅ All checks passed' : '❌ Some checks failed'}`)
+  process.exit(passed ? 0 : 1)
+}
+
+run()
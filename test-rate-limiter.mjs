@@ -0,0 +1,201 @@
+/**
+ * Test script for the rate limiter
+ *
+ * Runs the sliding window and token bucket algorithms against the memory store, and
+ * the Redis client against a stand-in server that drops connections and goes away. The
+ * Redis store is tested too if Redis answers at REDIS_URL (default redis://localhost:6379).
+ *
+ * Usage:
+ *   node test-rate-limiter.mjs
+ *   redis-server --port 6399 --save '' & REDIS_URL=redis://localhost:6399 node test-rate-limiter.mjs
+ */
+
+import net from 'node:net'
+import { check, finish, load } from './test-helpers.mjs'
+
+const { createMemoryStore, createRedisStore } = load('lib/rate-limit/store.ts')
+const { createRedisClient } = load('lib/rate-limit/redis.ts')
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+
+async function consumeMany(store, key, policy, count) {
+  const results = []
+  for (let i = 0; i < count; i++) results.push(await store.consume(key, policy))
+  return results
+}
+
+const slidingPolicy = { name: 'test', algorithm: 'sliding-window', limit: 3, windowMs: 1000 }
+const bucketPolicy = { name: 'test', algorithm: 'token-bucket', limit: 4, windowMs: 1000 }
+
+console.log('\n🧮 Memory store')
+{
+  let now = 1_000_000
+  const store = createMemoryStore(() => now)
+
+  const first = await consumeMany(store, 'a', slidingPolicy, 4)
+  check('sliding window: allows the limit, then refuses',
+    first.map(r => r.allowed), [true, true, true, false])
+  check('sliding window: counts down what is left',
+    first.map(r => r.remaining), [2, 1, 0, 0])
+  check('sliding window: resets when the oldest request leaves the window',
+    first[3].resetTime, 1_001_000)
+
+  now += 400
+  await store.consume('a', slidingPolicy)
+  now += 601 // The first three requests have left the window, the refused one was not counted
+  check('sliding window: frees slots as requests age out',
+    (await consumeMany(store, 'a', slidingPolicy, 3)).map(r => r.allowed), [true, true, true])
+  check('sliding window: each key has its own count',
+    (await store.consume('b', slidingPolicy)).remaining, 2)
+
+  now = 2_000_000
+  const burst = await consumeMany(store, 'c', bucketPolicy, 5)
+  check('token bucket: allows a burst of the full bucket',
+    burst.map(r => r.allowed), [true, true, true, true, false])
+  check('token bucket: the next token arrives after windowMs / limit',
+    burst[4].resetTime, 2_000_250)
+  now += 250
+  check('token bucket: refills one token per interval',
+    (await consumeMany(store, 'c', bucketPolicy, 2)).map(r => r.allowed), [true, false])
+  now += 10_000
+  check('token bucket: never holds more than the limit',
+    (await consumeMany(store, 'c', bucketPolicy, 5)).map(r => r.allowed), [true, true, true, true, false])
+}
+
+/**
+ * Reads one command (an array of bulk strings) from the start of the buffer
+ */
+function parseCommand(buffer) {
+  let end = buffer.indexOf('\r\n')
+  if (end < 0) return null
+  const count = Number(buffer.slice(1, end))
+  const args = []
+  let offset = end + 2
+  for (let i = 0; i < count; i++) {
+    end = buffer.indexOf('\r\n', offset)
+    if (end < 0) return null
+    const size = Number(buffer.slice(offset + 1, end))
+    offset = end + 2
+    if (buffer.length < offset + size + 2) return null
+    args.push(buffer.slice(offset, offset + size))
+    offset += size + 2
+  }
+  return { args, length: offset }
+}
+
+function replyTo([name]) {
+  switch (name.toUpperCase()) {
+    case 'PING': return '+PONG\r\n'
+    case 'INFO': return '$11\r\nloading:0\r\n\r\n'
+    case 'EVAL': return '*3\r\n:1\r\n:2\r\n:3000\r\n'
+    default: return '+OK\r\n'
+  }
+}
+
+/**
+ * Stand-in for Redis that speaks just enough of the protocol to test the client without
+ * a live server: every script run replies [1, 2, 3000]
+ */
+async function startFakeRedis(port = 0) {
+  const fake = { commands: [], connections: 0, sockets: new Set() }
+  fake.server = net.createServer(socket => {
+    fake.connections++
+    fake.sockets.add(socket)
+    socket.on('close', () => fake.sockets.delete(socket))
+    socket.setEncoding('latin1')
+    let buffer = ''
+    socket.on('data', chunk => {
+      buffer += chunk
+      let command
+      while ((command = parseCommand(buffer))) {
+        buffer = buffer.slice(command.length)
+        fake.commands.push(command.args)
+        socket.write(replyTo(command.args))
+      }
+    })
+  })
+  await new Promise(resolve => fake.server.listen(port, '127.0.0.1', resolve))
+  fake.port = fake.server.address().port
+  fake.dropConnections = () => fake.sockets.forEach(socket => socket.destroy())
+  fake.stop = () => {
+    fake.dropConnections()
+    return new Promise(resolve => fake.server.close(resolve))
+  }
+  return fake
+}
+
+console.log('\n🔌 Redis client (stand-in server)')
+{
+  const fake = await startFakeRedis()
+  const client = createRedisClient(`redis://127.0.0.1:${fake.port}`, { timeoutMs: 500 })
+  const store = createRedisStore(client)
+
+  check('reads the reply of the script',
+    await store.consume('k', slidingPolicy), { allowed: true, limit: 3, remaining: 2, resetTime: 3000 })
+  const script = fake.commands.find(([name]) => name.toUpperCase() === 'EVAL')
+  check('runs the script with the key, limit and window', script.slice(2, 6), ['1', 'k', '3', '1000'])
+
+  fake.dropConnections()
+  await sleep(50)
+  check('reconnects after the connection drops',
+    [(await store.consume('k', slidingPolicy)).allowed, fake.connections], [true, 2])
+
+  await fake.stop()
+  const started = Date.now()
+  const failed = await store.consume('k', slidingPolicy).then(() => false, () => true)
+  check('fails instead of waiting while Redis is down', [failed, Date.now() - started < 1000], [true, true])
+
+  const restarted = await startFakeRedis(fake.port)
+  let allowed = false
+  for (let i = 0; i < 20 && !allowed; i++) {
+    await sleep(250)
+    allowed = await store.consume('k', slidingPolicy).then(r => r.allowed, () => false)
+  }
+  check('reconnects on its own once Redis is back', allowed, true)
+
+  client.disconnect()
+  await restarted.stop()
+}
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
+const client = createRedisClient(redisUrl)
+let redisUp = true
+try {
+  await client.ping()
+} catch (error) {
+  redisUp = false
+  console.log(`\n⏭️  Redis store skipped: no Redis at ${redisUrl} (${error.message})`)
+}
+
+if (redisUp) {
+  console.log(`\n🧮 Redis store (${redisUrl})`)
+  const store = createRedisStore(client)
+  const prefix = `ratelimit-test:${process.pid}:${Date.now()}`
+
+  const first = await consumeMany(store, `${prefix}:a`, slidingPolicy, 4)
+  check('sliding window: allows the limit, then refuses',
+    first.map(r => r.allowed), [true, true, true, false])
+  check('sliding window: counts down what is left',
+    first.map(r => r.remaining), [2, 1, 0, 0])
+  await sleep(1100)
+  check('sliding window: frees slots once the window has passed',
+    (await store.consume(`${prefix}:a`, slidingPolicy)).allowed, true)
+
+  const concurrent = await Promise.all(Array.from({ length: 10 }, () => store.consume(`${prefix}:b`, slidingPolicy)))
+  check('sliding window: concurrent requests never exceed the limit',
+    concurrent.filter(r => r.allowed).length, 3)
+
+  const burst = await consumeMany(store, `${prefix}:c`, bucketPolicy, 5)
+  check('token bucket: allows a burst of the full bucket',
+    burst.map(r => r.allowed), [true, true, true, true, false])
+  await sleep(300)
+  check('token bucket: refills one token per interval',
+    (await consumeMany(store, `${prefix}:c`, bucketPolicy, 2)).map(r => r.allowed), [true, false])
+
+  check('keys expire once they are full again',
+    (await client.pttl(`${prefix}:c`)) <= bucketPolicy.windowMs, true)
+  await client.del(`${prefix}:a`, `${prefix}:b`, `${prefix}:c`)
+}
+client.disconnect()
+
+finish('rate limiter')
@@ -0,0 +1,131 @@
+/**
+ * Test script for the scrapers' HTTP client (lib/scraper-http.ts)
+ *
+ * Starts local servers that misbehave on purpose (rate limiting, errors, slow answers)
+ * and checks that the client retries, waits, times out and stops asking a failing host,
+ * and that "not found" and "unavailable" stay apart.
+ *
+ * Usage: node test-scraper-http.mjs
+ */
+
+import http from 'node:http'
+import { check, finish, load } from './test-helpers.mjs'
+
+// Short limits, so the whole run takes a few seconds
+Object.assign(process.env, {
+  SCRAPER_HOST_CONCURRENCY: '2',
+  SCRAPER_HOST_INTERVAL_MS: '50',
+  SCRAPER_TIMEOUT_MS: '300',
+  SCRAPER_MAX_RETRIES: '2',
+  SCRAPER_BREAKER_THRESHOLD: '3',
+  SCRAPER_BREAKER_COOLDOWN_MS: '500',
+})
+
+const { scraperFetch, SourceUnavailableError } = load('lib/scraper-http.ts')
+
+const servers = []
+
+/**
+ * Starts a server on its own port (so its own host for the client)
+ * @param respond - Called with the request number (from 1), the request and the response
+ */
+async function startServer(respond) {
+  const server = http.createServer((req, res) => {
+    server.requests.push({ at: Date.now(), userAgent: req.headers['user-agent'] })
+    respond(server.requests.length, req, res)
+  })
+  server.requests = []
+  servers.push(server)
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  server.url = `http://127.0.0.1:${server.address().port}/word`
+  return server
+}
+
+function reply(res, status, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'text/plain', ...headers })
+  res.end(status === 200 ? 'entry' : 'error')
+}
+
+// Resolves to the error a call threw, or the response status
+async function outcome(promise) {
+  try {
+    return (await promise).status
+  } catch (error) {
+    return error instanceof SourceUnavailableError ? `unavailable${error.status ? ` ${error.status}` : ''}` : error.message
+  }
+}
+
+console.log('\n🌐 Responses')
+{
+  const server = await startServer((n, req, res) => reply(res, req.url === '/missing' ? 404 : 200))
+  check('a page is returned', await outcome(scraperFetch(server.url)), 200)
+  check('the app identifies itself instead of passing for a browser',
+    server.requests[0].userAgent.startsWith('Verba/'), true)
+  check('a missing page is returned for the scraper to report "not found"',
+    await outcome(scraperFetch(server.url.replace('/word', '/missing'))), 404)
+}
+{
+  const server = await startServer((n, req, res) => reply(res, 403))
+  check('a refused request is "unavailable", not "not found"', await outcome(scraperFetch(server.url)), 'unavailable 403')
+  check('a refused request is not retried', server.requests.length, 1)
+}
+
+console.log('\n🔁 Retries')
+{
+  const server = await startServer((n, req, res) => reply(res, n < 3 ? 503 : 200))
+  check('5xx responses are retried with backoff', await outcome(scraperFetch(server.url)), 200)
+  check('it took three attempts', server.requests.length, 3)
+}
+{
+  const server = await startServer((n, req, res) => reply(res, n === 1 ? 429 : 200, n === 1 ? { 'Retry-After': '1' } : {}))
+  check('429 is retried', await outcome(scraperFetch(server.url)), 200)
+  const [first, second] = server.requests
+  check('Retry-After is honored', second.at - first.at >= 950, true)
+}
+{
+  const server = await startServer((n, req, res) => reply(res, 429, { 'Retry-After': '3600' }))
+  check('a Retry-After longer than the client waits gives up at once',
+    [await outcome(scraperFetch(server.url)), server.requests.length], ['unavailable 429', 1])
+  check('and the host is not asked again meanwhile',
+    [await outcome(scraperFetch(server.url)), server.requests.length], ['unavailable', 1])
+}
+{
+  const server = await startServer((n, req, res) => setTimeout(() => reply(res, 200), 1000))
+  const started = Date.now()
+  check('a host that does not answer in time is "unavailable"', await outcome(scraperFetch(server.url)), 'unavailable')
+  check('each attempt times out', Date.now() - started < 3000, true)
+}
+
+console.log('\n🔌 Circuit breaker')
+{
+  let healthy = false
+  const server = await startServer((n, req, res) => reply(res, healthy ? 200 : 500))
+  const other = await startServer((n, req, res) => reply(res, 200))
+  for (let i = 0; i < 3; i++) await outcome(scraperFetch(server.url, { retries: 0 }))
+  check('after repeated failures the host is not asked at all',
+    [await outcome(scraperFetch(server.url)), server.requests.length], ['unavailable', 3])
+  check('other hosts are not affected', await outcome(scraperFetch(other.url)), 200)
+
+  await new Promise(resolve => setTimeout(resolve, 600))
+  healthy = true
+  check('after the cooldown a trial request goes through', await outcome(scraperFetch(server.url)), 200)
+  check('and the host is back', await outcome(scraperFetch(server.url)), 200)
+}
+
+console.log('\n🚦 Politeness')
+{
+  let inFlight = 0
+  let maxInFlight = 0
+  const server = await startServer((n, req, res) => {
+    maxInFlight = Math.max(maxInFlight, ++inFlight)
+    setTimeout(() => { inFlight--; reply(res, 200) }, 150)
+  })
+  await Promise.all(Array.from({ length: 6 }, () => scraperFetch(server.url)))
+  check('at most SCRAPER_HOST_CONCURRENCY requests are in flight per host', maxInFlight, 2)
+  const gaps = server.requests.slice(1).map((r, i) => r.at - server.requests[i].at)
+  check('requests start SCRAPER_HOST_INTERVAL_MS apart', gaps.every(gap => gap >= 45), true)
+}
+
+for (const server of servers) server.close()
+
+finish('scraper HTTP')